@@ -0,0 +1,104 @@
+// Area.ts
+// Area-of-effect shapes: resolves a spell's target cell into the set of affected cells and units
+
+import type { MapGrid, Position } from './MapGrid';
+import type { Unit } from './Unit';
+
+export type AreaShape = 'circle' | 'cross' | 'line' | 'cone';
+
+/** Which units inside the area are hit, relative to the caster (friendly fire rules) */
+export type AreaAffects = 'all' | 'enemies' | 'allies';
+
+/**
+ * Area descriptor of a spell.
+ * size: radius for circle/cross, extra cells beyond the target for line, depth for cone
+ */
+export interface AreaDescriptor {
+  shape: AreaShape;
+  size: number;
+  affects?: AreaAffects;
+}
+
+/** Unit direction from the caster to the target cell along the dominant axis ({0,0} when casting on self) */
+export function getCastDirection(from: Position, to: Position): Position {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  if (dx === 0 && dy === 0) return { x: 0, y: 0 };
+  if (Math.abs(dx) >= Math.abs(dy)) return { x: Math.sign(dx), y: 0 };
+  return { x: 0, y: Math.sign(dy) };
+}
+
+/**
+ * Returns the cells covered by an area centered on the target cell.
+ * Line and cone extend away from the caster; cells outside the map are dropped when a map is given.
+ */
+export function getAreaCells(area: AreaDescriptor, casterPos: Position, center: Position, map?: MapGrid): Position[] {
+  const cells: Position[] = [];
+  const size = Math.max(0, area.size);
+  const dir = getCastDirection(casterPos, center);
+  // Perpendicular axis, used to widen the cone
+  const side = { x: dir.y, y: dir.x };
+
+  switch (area.shape) {
+    case 'circle':
+      for (let dy = -size; dy <= size; dy++) {
+        for (let dx = -size; dx <= size; dx++) {
+          if (Math.abs(dx) + Math.abs(dy) <= size) {
+            cells.push({ x: center.x + dx, y: center.y + dy });
+          }
+        }
+      }
+      break;
+    case 'cross':
+      cells.push({ ...center });
+      for (let i = 1; i <= size; i++) {
+        cells.push(
+          { x: center.x + i, y: center.y },
+          { x: center.x - i, y: center.y },
+          { x: center.x, y: center.y + i },
+          { x: center.x, y: center.y - i }
+        );
+      }
+      break;
+    case 'line':
+      cells.push({ ...center });
+      if (dir.x !== 0 || dir.y !== 0) {
+        for (let i = 1; i <= size; i++) {
+          cells.push({ x: center.x + dir.x * i, y: center.y + dir.y * i });
+        }
+      }
+      break;
+    case 'cone':
+      cells.push({ ...center });
+      if (dir.x !== 0 || dir.y !== 0) {
+        for (let i = 1; i <= size; i++) {
+          for (let w = -i; w <= i; w++) {
+            cells.push({
+              x: center.x + dir.x * i + side.x * w,
+              y: center.y + dir.y * i + side.y * w
+            });
+          }
+        }
+      }
+      break;
+  }
+
+  return map ? cells.filter(c => map.inBounds(c)) : cells;
+}
+
+/**
+ * Returns the alive units standing on the area cells, filtered by the friendly fire rule.
+ * 'allies' includes the caster itself.
+ */
+export function getUnitsInArea(area: AreaDescriptor, caster: Unit, center: Position, map: MapGrid): Unit[] {
+  const affects = area.affects ?? 'all';
+  const units: Unit[] = [];
+  for (const cell of getAreaCells(area, caster.position, center, map)) {
+    const unit = map.getOccupant(cell);
+    if (!unit || !unit.isAlive()) continue;
+    if (affects === 'enemies' && !caster.isEnemyOf(unit)) continue;
+    if (affects === 'allies' && !caster.isAllyOf(unit)) continue;
+    units.push(unit);
+  }
+  return units;
+}
@@ -0,0 +1,61 @@
+// Arena.ts
+// A battle arena as shipped by level designers: size, terrain per cell, team start cells and decorative layers.
+// Arenas are loaded from map files by core/data/ArenaLoader.ts and turned into the logical map here.
+
+import { Grid } from './Grid';
+import { MapGrid } from './MapGrid';
+import type { Position } from './MapGrid';
+import type { TerrainKind } from './Terrain';
+
+/** Cell size in pixels of arenas that do not set one */
+export const DEFAULT_CELL_SIZE = 64;
+/** Smallest cell size an arena may ask for, and the floor when the scene shrinks a board to fit the screen */
+export const MIN_CELL_SIZE = 24;
+
+/** A purely visual tile: a texture alias (see loader.ts) drawn on a cell */
+export interface DecorationTile {
+  x: number;
+  y: number;
+  texture: string;
+}
+
+/** Visual layer drawn over the terrain and under the units; it has no effect on the rules */
+export interface DecorationLayer {
+  name: string;
+  alpha?: number;
+  tiles: DecorationTile[];
+}
+
+export interface Arena {
+  name: string;
+  width: number;
+  height: number;
+  /** Preferred cell size in pixels; the scene may shrink it to fit the screen (DEFAULT_CELL_SIZE when omitted) */
+  cellSize?: number;
+  /** Terrain rows: terrain[y][x] */
+  terrain: TerrainKind[][];
+  /** Cells where each team may place its units before the battle, by team number */
+  startCells: Record<number, Position[]>;
+  decorations: DecorationLayer[];
+}
+
+/** Builds the logical map of an arena (terrain only, no units) */
+export function createMapGrid(arena: Arena): MapGrid {
+  const map = new MapGrid(arena.width, arena.height);
+  for (let y = 0; y < arena.height; y++) {
+    for (let x = 0; x < arena.width; x++) {
+      map.setTerrain({ x, y }, arena.terrain[y][x]);
+    }
+  }
+  return map;
+}
+
+/** Builds the pathfinding grid of an arena */
+export function createGrid(arena: Arena): Grid {
+  return new Grid(arena.width, arena.height);
+}
+
+/** Returns the start cells of a team, in the order they were defined (empty if the team has none) */
+export function getStartCells(arena: Arena, team: number): Position[] {
+  return arena.startCells[team] ?? [];
+}
@@ -0,0 +1,49 @@
+// Damage.ts
+// Elements, resistances and the damage formula shared by every damage source
+
+import type { Unit } from './Unit';
+
+export type DamageElement = 'neutral' | 'fire' | 'water' | 'earth' | 'air';
+
+export const DAMAGE_ELEMENTS: readonly DamageElement[] = ['neutral', 'fire', 'water', 'earth', 'air'];
+
+/**
+ * Resistance of a unit against one element.
+ * percent: reduces damage by that percentage (negative values are weaknesses, 100 is immunity)
+ * flat: subtracted after the percentage (negative values add damage)
+ */
+export interface ElementResistance {
+  flat?: number;
+  percent?: number;
+}
+
+export type Resistances = Partial<Record<DamageElement, ElementResistance>>;
+
+/** Everything the formula needs to resolve one hit */
+export interface DamageInput {
+  base: number;
+  element: DamageElement;
+  caster: Unit | null;
+  target: Unit;
+}
+
+/** Final damage plus the intermediate values, for logs and feedback */
+export interface DamageBreakdown {
+  element: DamageElement;
+  base: number;
+  afterPercent: number;
+  final: number;
+}
+
+/**
+ * Damage formula pipeline: base -> percent resistance -> flat resistance -> floor at 0.
+ * Shields are applied afterwards by Unit.takeDamage, on the final value.
+ */
+export function computeDamage(input: DamageInput): DamageBreakdown {
+  const { flat, percent } = input.target.getResistance(input.element);
+  // Resistances cap at immunity; weaknesses are unbounded
+  const cappedPercent = Math.min(100, percent);
+  const afterPercent = Math.floor(input.base * (100 - cappedPercent) / 100);
+  const final = Math.max(0, afterPercent - flat);
+  return { element: input.element, base: input.base, afterPercent, final };
+}
@@ -1,18 +1,23 @@
 // EffectEngine.ts
 // Centralizes all effect application logic for spells using a decoupled effect system
 
-import type { Unit } from './Unit';
-import type { SpellEffectConfig } from './Spell';
+import { getUnitsInArea } from './Area';
+import type { AreaDescriptor } from './Area';
+import { effectRegistry } from './effects';
 import type { IEffect, EffectContext } from './effects';
-import { DamageEffect, HealEffect, BuffApEffect, DrainApEffect, TeleportEffect, PushEffect }
-  from './effects';
+import type { SpellEffectConfig } from './Spell';
+import type { Unit } from './Unit';
 
 
-export type EffectType = 'damage' | 'heal' | 'teleport' | 'buff' | 'debuff' | 'drain_ap' | 'buff_ap' | 'push';
+/** Effect types shipped with the game (see effects/builtinEffects.ts) */
+export type BuiltinEffectType = 'damage' | 'heal' | 'teleport' | 'drain_ap' | 'buff_ap' | 'push' | 'pull' | 'swap' | 'dash' | 'poison' | 'regen' | 'shield';
+
+/** Any registered effect type key; mods can register new ones in the effect registry */
+export type EffectType = BuiltinEffectType | (string & Record<never, never>);
 
 /**
  * Factory class for creating effect instances from configuration
- * Each effect type is mapped to its corresponding implementation class
+ * Effect types are looked up in the effect registry
  */
 export class EffectFactory {
   /**
@@ -22,54 +27,18 @@ export class EffectFactory {
    * @throws Error if the effect type is unknown
    */
   static createEffect(config: SpellEffectConfig): IEffect {
-    switch (config.type) {
-      case 'damage':
-        return new DamageEffect(config.value);
-      case 'heal':
-        return new HealEffect(config.value);
-      case 'buff_ap':
-        return new BuffApEffect(config.value, config.duration!, config.sourceSpell);
-      case 'drain_ap':
-        return new DrainApEffect(config.value, config.duration!);
-      case 'teleport':
-        return new TeleportEffect(config.value);
-      case 'push':
-        return new PushEffect(config.value, (config as any).radius || 1);
-      // Future effect types can be added here:
-      // case 'pull':
-      //   return new PullEffect(config.value, config.radius);
-      // case 'area_heal':
-      //   return new AreaHealEffect(config.value, config.radius);
-      // case 'swap':
-      //   return new SwapEffect();
-      default:
-        throw new Error(`Unknown effect type: ${config.type}`);
-    }
+    return effectRegistry.create(config);
   }
 }
 
 export class EffectEngine {
   /**
    * Returns the color for a given effect type for floating feedback text.
-   * This method is kept for backward compatibility but is now handled by individual effects.
-   * @deprecated Use individual effect classes for color management
+   * This method is kept for backward compatibility; colors now come from the effect registry.
+   * @deprecated Use effectRegistry.getColor
    */
   static getEffectColor(effectType: EffectType): string {
-    switch (effectType) {
-      case 'damage':
-        return '#ff4444'; // Red
-      case 'heal':
-        return '#3ecf4a'; // Green
-      case 'buff_ap':
-        return '#3a8fff'; // Light blue
-      case 'drain_ap':
-        return '#6a5acd'; // Purple/blue (debuff)
-      case 'teleport':
-        return '#f1c40f'; // Yellow
-      // Add more cases for new effect types as needed
-      default:
-        return '#ff4444'; // Default to red
-    }
+    return effectRegistry.getColor(effectType) ?? '#ff4444'; // Default to red
   }
 
   /**
@@ -97,19 +66,28 @@ export class EffectEngine {
 
   /**
    * Apply all effects of a spell, subtracting AP once
-   * Maintains the same public API as before
-   * @param spell The spell object containing effects and cost
+   * Spells with an area apply every effect to each unit in the area around the target cell
+   * (needs context.map and a target cell); otherwise effects hit the single target.
+   * An area with no unit in it, or effects whose pre-check (IEffect.canApply) refuses every target,
+   * fail before any AP is spent
+   * @param spell The spell object containing effects, cost and optional area
    * @param caster The unit casting the spell
    * @param target The target unit (or null for cell effects)
    * @param context Additional context (map, scene, cellPosition, etc)
    * @returns true if any effect was applied, false otherwise
    */
   static applySpell(
-    spell: { effects: SpellEffectConfig[]; cost: number },
+    spell: { effects: SpellEffectConfig[]; cost: number; area?: AreaDescriptor },
     caster: Unit,
     target: Unit | null,
     context?: EffectContext
   ): boolean {
+    const cell = context?.cellPosition ?? target?.position;
+    const targets = spell.area && context?.map && cell
+      ? getUnitsInArea(spell.area, caster, cell, context.map)
+      : [target];
+    if (targets.length === 0 || !this.canApplyAny(spell.effects, caster, targets, context)) return false;
+
     // Subtract AP once, even if effects are null
     if (spell.cost > 0) {
       if (caster.ap < spell.cost) return false;
@@ -118,10 +96,32 @@ export class EffectEngine {
 
     let anyEffect = false;
     for (const effectConfig of spell.effects) {
-      // Allow null target if the spell permits it
-      const result = this.applyEffect(effectConfig, caster, target, context);
-      anyEffect = anyEffect || result;
+      for (const effectTarget of targets) {
+        // Allow null target if the spell permits it
+        const result = this.applyEffect(effectConfig, caster, effectTarget, context);
+        anyEffect = anyEffect || result;
+      }
     }
     return anyEffect;
   }
-} 
\ No newline at end of file
+
+  /** False only when every effect has a pre-check and none of them accepts any of the targets */
+  private static canApplyAny(
+    effects: SpellEffectConfig[],
+    caster: Unit,
+    targets: (Unit | null)[],
+    context?: EffectContext
+  ): boolean {
+    for (const config of effects) {
+      let effect: IEffect;
+      try {
+        effect = EffectFactory.createEffect(config);
+      } catch {
+        // Unknown types are reported by applyEffect
+        return true;
+      }
+      if (!effect.canApply || targets.some(target => effect.canApply!(caster, target, context))) return true;
+    }
+    return false;
+  }
+}
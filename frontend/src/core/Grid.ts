@@ -8,6 +8,11 @@ export interface Position {
   y: number;
 }
 
+/** Extra MP to step out of a cell, e.g. tackle by adjacent enemies (see core/Tackle.ts) */
+export type LeaveCost = (pos: Position) => number;
+
+const NO_LEAVE_COST: LeaveCost = () => 0;
+
 export class Grid {
   width: number;
   height: number;
@@ -18,34 +23,27 @@ export class Grid {
   }
 
   /**
-   * Returns the reachable cells from a position with a given movement points (orthogonal movement, cost 1),
+   * Returns the reachable cells from a position with a given movement points (orthogonal movement).
+   * Dijkstra over the terrain move costs: a cell is reachable if the cheapest way there costs at most pm,
    * solo celdas walkable y no ocupadas
+   * @param leaveCost Extra MP paid when stepping out of each cell (tackle); none by default
    */
-  getReachableCells(from: Position, pm: number, map: MapGrid): Position[] {
-    const visited = Array.from({ length: this.height }, () => Array(this.width).fill(false));
+  getReachableCells(from: Position, pm: number, map: MapGrid, leaveCost: LeaveCost = NO_LEAVE_COST): Position[] {
+    const best = this.costGrid();
     const reachable: Position[] = [];
-    const queue: { pos: Position; cost: number }[] = [{ pos: from, cost: 0 }];
-    visited[from.y][from.x] = true;
+    const open: { pos: Position; cost: number }[] = [{ pos: from, cost: 0 }];
+    best[from.y][from.x] = 0;
 
-    while (queue.length > 0) {
-      const { pos, cost } = queue.shift()!;
+    while (open.length > 0) {
+      const { pos, cost } = this.popLowest(open, n => n.cost);
+      if (cost > best[pos.y][pos.x]) continue; // stale entry
       if (cost > 0) reachable.push(pos);
-      if (cost === pm) continue;
-      for (const [dx, dy] of [
-        [0, -1], [0, 1], [-1, 0], [1, 0],
-      ]) {
-        const nx = pos.x + dx;
-        const ny = pos.y + dy;
-        const npos = { x: nx, y: ny };
-        if (
-          nx >= 0 && nx < this.width &&
-          ny >= 0 && ny < this.height &&
-          !visited[ny][nx] &&
-          map.isWalkable(npos) &&
-          !map.isOccupied(npos)
-        ) {
-          visited[ny][nx] = true;
-          queue.push({ pos: npos, cost: cost + 1 });
+      const leave = leaveCost(pos);
+      for (const npos of this.neighbors(pos)) {
+        const next = cost + leave + this.stepCost(npos, map);
+        if (next <= pm && next < best[npos.y][npos.x]) {
+          best[npos.y][npos.x] = next;
+          open.push({ pos: npos, cost: next });
         }
       }
     }
@@ -53,40 +51,79 @@ export class Grid {
   }
 
   /**
-   * Finds the shortest path (BFS) between two positions, only orthogonal, no obstacles ni ocupados
+   * Finds the cheapest path (A*, Manhattan heuristic) between two positions, only orthogonal,
+   * sin obstáculos ni ocupados. The returned path excludes the start cell.
+   * @param maxCost Maximum total MP the path may cost
+   * @param leaveCost Extra MP paid when stepping out of each cell (tackle); none by default
+   * @returns null if the target cannot be reached within maxCost
    */
-  findPath(from: Position, to: Position, maxCost: number, map: MapGrid): Position[] | null {
+  findPath(from: Position, to: Position, maxCost: number, map: MapGrid, leaveCost: LeaveCost = NO_LEAVE_COST): Position[] | null {
     if (from.x === to.x && from.y === to.y) return [];
-    const visited = Array.from({ length: this.height }, () => Array(this.width).fill(false));
-    const queue: { pos: Position; path: Position[]; cost: number }[] = [
-      { pos: from, path: [], cost: 0 },
+    const best = this.costGrid();
+    const cameFrom = new Map<string, Position>();
+    const heuristic = (p: Position) => Math.abs(p.x - to.x) + Math.abs(p.y - to.y);
+    const open: { pos: Position; cost: number; estimate: number }[] = [
+      { pos: from, cost: 0, estimate: heuristic(from) },
     ];
-    visited[from.y][from.x] = true;
+    best[from.y][from.x] = 0;
 
-    while (queue.length > 0) {
-      const { pos, path, cost } = queue.shift()!;
-      if (cost === maxCost) continue;
-      for (const [dx, dy] of [
-        [0, -1], [0, 1], [-1, 0], [1, 0],
-      ]) {
-        const nx = pos.x + dx;
-        const ny = pos.y + dy;
-        const npos = { x: nx, y: ny };
-        if (nx === to.x && ny === to.y && map.isWalkable(npos) && !map.isOccupied(npos)) {
-          return [...path, pos, npos].slice(1);
+    while (open.length > 0) {
+      const { pos, cost } = this.popLowest(open, n => n.estimate);
+      if (cost > best[pos.y][pos.x]) continue; // stale entry
+      if (pos.x === to.x && pos.y === to.y) {
+        const path: Position[] = [];
+        for (let p: Position | undefined = pos; p && (p.x !== from.x || p.y !== from.y); p = cameFrom.get(`${p.x},${p.y}`)) {
+          path.unshift(p);
         }
-        if (
-          nx >= 0 && nx < this.width &&
-          ny >= 0 && ny < this.height &&
-          !visited[ny][nx] &&
-          map.isWalkable(npos) &&
-          !map.isOccupied(npos)
-        ) {
-          visited[ny][nx] = true;
-          queue.push({ pos: npos, path: [...path, pos], cost: cost + 1 });
+        return path;
+      }
+      const leave = leaveCost(pos);
+      for (const npos of this.neighbors(pos)) {
+        const next = cost + leave + this.stepCost(npos, map);
+        if (next <= maxCost && next < best[npos.y][npos.x]) {
+          best[npos.y][npos.x] = next;
+          cameFrom.set(`${npos.x},${npos.y}`, pos);
+          open.push({ pos: npos, cost: next, estimate: next + heuristic(npos) });
         }
       }
     }
     return null;
   }
-} 
\ No newline at end of file
+
+  /** Total MP cost of walking a path (the start cell is not part of the path); tackle is not included */
+  getPathCost(path: Position[], map: MapGrid): number {
+    return path.reduce((total, step) => total + this.stepCost(step, map), 0);
+  }
+
+  /** MP to step into a cell: terrain cost, Infinity for blocked or occupied cells */
+  private stepCost(pos: Position, map: MapGrid): number {
+    return map.isOccupied(pos) ? Infinity : map.getMoveCost(pos);
+  }
+
+  private neighbors(pos: Position): Position[] {
+    const result: Position[] = [];
+    for (const [dx, dy] of [
+      [0, -1], [0, 1], [-1, 0], [1, 0],
+    ]) {
+      const nx = pos.x + dx;
+      const ny = pos.y + dy;
+      if (nx >= 0 && nx < this.width && ny >= 0 && ny < this.height) {
+        result.push({ x: nx, y: ny });
+      }
+    }
+    return result;
+  }
+
+  private costGrid(): number[][] {
+    return Array.from({ length: this.height }, () => Array(this.width).fill(Infinity));
+  }
+
+  // Boards are small: a linear scan is cheaper than maintaining a heap
+  private popLowest<T>(open: T[], key: (node: T) => number): T {
+    let idx = 0;
+    for (let i = 1; i < open.length; i++) {
+      if (key(open[i]) < key(open[idx])) idx = i;
+    }
+    return open.splice(idx, 1)[0];
+  }
+}
@@ -1,4 +1,6 @@
 // MapGrid.ts
+import { TERRAIN_TYPES } from './Terrain';
+import type { TerrainKind } from './Terrain';
 import type { Unit } from './Unit';
 
 export interface Position {
@@ -7,8 +9,17 @@ export interface Position {
 }
 
 export class MapCell {
-  walkable: boolean = true;
+  terrain: TerrainKind = 'floor';
   occupiedBy: Unit | null = null;
+
+  /** Derived from the terrain; setting it toggles between floor and wall */
+  get walkable(): boolean {
+    return TERRAIN_TYPES[this.terrain].walkable;
+  }
+
+  set walkable(value: boolean) {
+    this.terrain = value ? 'floor' : 'wall';
+  }
 }
 
 export class MapGrid {
@@ -28,6 +39,23 @@ export class MapGrid {
     return this.inBounds(pos) && this.cells[pos.y][pos.x].walkable;
   }
 
+  /** Terrain of the cell; cells outside the map count as walls */
+  getTerrain(pos: Position): TerrainKind {
+    return this.inBounds(pos) ? this.cells[pos.y][pos.x].terrain : 'wall';
+  }
+
+  setTerrain(pos: Position, terrain: TerrainKind) {
+    if (this.inBounds(pos)) {
+      this.cells[pos.y][pos.x].terrain = terrain;
+    }
+  }
+
+  /** MP needed to step into the cell (Infinity if it cannot be walked on); occupancy is not considered */
+  getMoveCost(pos: Position): number {
+    const terrain = TERRAIN_TYPES[this.getTerrain(pos)];
+    return terrain.walkable ? terrain.moveCost : Infinity;
+  }
+
   isOccupied(pos: Position): boolean {
     return this.inBounds(pos) && this.cells[pos.y][pos.x].occupiedBy !== null;
   }
@@ -42,6 +70,49 @@ export class MapGrid {
     }
   }
 
+  /**
+   * Grid raycast from the center of one cell to the center of another.
+   * Sight-blocking terrain (walls, not pits) and occupied cells block sight; both end cells are ignored.
+   * When the ray passes exactly through a corner it only gets blocked if both side cells block.
+   */
+  hasLineOfSight(from: Position, to: Position): boolean {
+    const nx = Math.abs(to.x - from.x);
+    const ny = Math.abs(to.y - from.y);
+    const sx = Math.sign(to.x - from.x);
+    const sy = Math.sign(to.y - from.y);
+    let x = from.x;
+    let y = from.y;
+    let ix = 0;
+    let iy = 0;
+    while (ix < nx || iy < ny) {
+      // Compares where the ray crosses the next vertical vs horizontal cell border
+      const decision = (1 + 2 * ix) * ny - (1 + 2 * iy) * nx;
+      if (decision === 0) {
+        if (this.blocksLineOfSight({ x: x + sx, y }) && this.blocksLineOfSight({ x, y: y + sy })) {
+          return false;
+        }
+        x += sx;
+        y += sy;
+        ix++;
+        iy++;
+      } else if (decision < 0) {
+        x += sx;
+        ix++;
+      } else {
+        y += sy;
+        iy++;
+      }
+      if ((x !== to.x || y !== to.y) && this.blocksLineOfSight({ x, y })) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private blocksLineOfSight(pos: Position): boolean {
+    return TERRAIN_TYPES[this.getTerrain(pos)].blocksLineOfSight || this.isOccupied(pos);
+  }
+
   inBounds(pos: Position): boolean {
     return (
       pos.x >= 0 && pos.x < this.width &&
@@ -0,0 +1,39 @@
+// Passive.ts
+// Class passives: effects a unit applies by itself when something happens in battle (it is hit, it kills,
+// its turn starts...). The data lives with the class (config/classes.json); core/battle/PassiveSystem.ts
+// listens to the battle events and applies the effects.
+
+import type { SpellEffectConfig } from './Spell';
+
+/**
+ * What sets a passive off, always relative to the unit that has it:
+ * - damaged: it lost HP or shield to a hit or a damage-over-time tick
+ * - kill: one of its hits brought a unit to 0 HP
+ * - turnStart: its turn started
+ * - allyHealed: a teammate (not itself) was healed
+ * - enemyMovedAdjacent: an enemy stepped next to it (it was not adjacent before)
+ */
+export type PassiveTrigger = 'damaged' | 'kill' | 'turnStart' | 'allyHealed' | 'enemyMovedAdjacent';
+
+export const PASSIVE_TRIGGERS: PassiveTrigger[] = ['damaged', 'kill', 'turnStart', 'allyHealed', 'enemyMovedAdjacent'];
+
+/**
+ * Who receives the effects:
+ * - self: the unit that has the passive
+ * - other: the other unit of the trigger (attacker, unit killed, ally healed, enemy that moved);
+ *   nothing happens when there is none (damage over time, turn start)
+ * - adjacentAllies / adjacentEnemies: alive units on the 4 cells next to it
+ */
+export type PassiveTarget = 'self' | 'other' | 'adjacentAllies' | 'adjacentEnemies';
+
+export const PASSIVE_TARGETS: PassiveTarget[] = ['self', 'other', 'adjacentAllies', 'adjacentEnemies'];
+
+export interface Passive {
+  name: string;
+  /** Shown to players, e.g. "+1 AP on its next turn after being hit" */
+  description?: string;
+  trigger: PassiveTrigger;
+  target: PassiveTarget;
+  /** Applied with the unit as caster, like the effects of a spell */
+  effects: SpellEffectConfig[];
+}
@@ -0,0 +1,42 @@
+// Random.ts
+// Seeded pseudo-random generator (mulberry32) for every roll that affects battle rules.
+// Two battles built with the same seed roll the same numbers, which keeps tests, replays and multiplayer in sync.
+
+export class SeededRandom {
+  readonly seed: number;
+  private state: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /** Returns a float in [0, 1) */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Internal position in the sequence; saved with the battle so a loaded game keeps rolling the same numbers */
+  getState(): number {
+    return this.state;
+  }
+
+  /** Jumps to a position previously returned by getState() */
+  setState(state: number) {
+    this.state = state >>> 0;
+  }
+
+  /** Returns an integer in [0, max) */
+  nextInt(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+}
+
+/** Picks a seed for a new battle when none is given */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
@@ -1,10 +1,14 @@
 // Spell.ts
 // Handles spell configuration, targeting validation, and effect delegation
 
-import type { Unit } from './Unit';
+import { getAreaCells } from './Area';
+import type { AreaDescriptor } from './Area';
+import type { DamageElement } from './Damage';
 import type { EffectType } from './EffectEngine';
 import { EffectEngine } from './EffectEngine';
 import type { EffectContext } from './effects';
+import type { MapGrid, Position } from './MapGrid';
+import type { TurnBoundary, Unit } from './Unit';
 
 export type SpellEffectType = 'damage' | 'heal' | 'drain_ap' | 'teleport';
 
@@ -20,9 +24,16 @@ export interface SpellEffectConfig {
   type: EffectType;
   value: number;
   duration?: number;
-  // Add more effect params as needed
+  // For damage effects: element checked against the target's resistances (default 'neutral')
+  element?: DamageElement;
+  // For ticking effects (poison, regen): turn boundary at which they tick
+  tickAt?: TurnBoundary;
+  // For push effects: how many cells the target is pushed
+  radius?: number;
   // New: for effects that need to know the spell origin
   sourceSpell?: string;
+  // Parameters of effects registered at runtime, checked against their declaration (see EffectRegistry)
+  params?: Record<string, unknown>;
 }
 
 export interface SpellConfig {
@@ -34,6 +45,10 @@ export interface SpellConfig {
   targetType: string;
   effects: SpellEffectConfig[];
   cooldown?: number;
+  /** If true, walls and units between caster and target cell prevent the cast */
+  requiresLineOfSight?: boolean;
+  /** Area of effect around the target cell; without it only the target is hit */
+  area?: AreaDescriptor;
 }
 
 /**
@@ -49,6 +64,8 @@ export class Spell {
   effects: SpellEffectConfig[];
   cooldown?: number;
   cooldownCounter: number = 0;
+  requiresLineOfSight: boolean;
+  area?: AreaDescriptor;
 
   constructor(config: SpellConfig) {
     this.name = config.name;
@@ -60,12 +77,14 @@ export class Spell {
     this.effects = config.effects;
     this.cooldown = config.cooldown;
     this.cooldownCounter = 0;
+    this.requiresLineOfSight = config.requiresLineOfSight ?? false;
+    this.area = config.area;
   }
 
   /**
    * Validates if the spell can be cast on the target (targeting logic only).
    */
-  canCast(caster: Unit, target: Unit | null, context?: { map?: any, cellPosition?: { x: number, y: number } }): boolean {
+  canCast(caster: Unit, target: Unit | null, context?: EffectContext): boolean {
     // For selfOnly, if target is null, use caster for validation
     let actualTarget = target;
     if (this.targetType === 'selfOnly' && !actualTarget) {
@@ -87,6 +106,8 @@ export class Spell {
       const dist = dx + dy;
       if (dist > this.range || dist < this.minRange) return false;
       if (caster.ap < this.cost) return false;
+      // Line of sight can only be checked when the map is known
+      if (!this.hasLineOfSight(caster, pos, context)) return false;
     }
     // Target type validation
     switch (this.targetType) {
@@ -123,6 +144,24 @@ export class Spell {
     }
   }
 
+  /**
+   * Returns false if the spell requires line of sight and the map blocks it.
+   * Always true when no map is provided in the context.
+   */
+  hasLineOfSight(caster: Unit, cell: Position, context?: EffectContext): boolean {
+    if (!this.requiresLineOfSight || !context?.map) return true;
+    return context.map.hasLineOfSight(caster.position, cell);
+  }
+
+  /**
+   * Returns the cells affected when casting on the given cell (just that cell without area).
+   * Used for hover highlighting.
+   */
+  getAffectedCells(caster: Unit, cell: Position, map?: MapGrid): Position[] {
+    if (!this.area) return [{ ...cell }];
+    return getAreaCells(this.area, caster.position, cell, map);
+  }
+
   /**
    * Returns all valid targets for this spell given a caster and a list of units.
    * Used for area highlighting and UI.
@@ -0,0 +1,58 @@
+// Tackle.ts
+// Dodge versus lock: stepping out of a cell next to enemies costs extra MP and AP when their lock beats
+// the mover's agility. It is paid on every step out of such a cell, so walking along an enemy keeps paying.
+
+import type { LeaveCost } from './Grid';
+import type { MapGrid, Position } from './MapGrid';
+import type { Unit } from './Unit';
+
+/** MP and AP lost to tackle */
+export interface TackleCost {
+  mp: number;
+  ap: number;
+}
+
+export const NO_TACKLE: TackleCost = { mp: 0, ap: 0 };
+
+/**
+ * Tackle formula: each point of lock above the agility costs 1 MP, and every 2 points cost 1 AP as well.
+ * @param lock Lock of every adjacent enemy added up, so two enemies hold harder than one
+ */
+export function getTackleCost(agility: number, lock: number): TackleCost {
+  const excess = Math.max(0, lock - agility);
+  return { mp: excess, ap: Math.floor(excess / 2) };
+}
+
+/** Lock of the alive enemies of a unit on the 4 cells next to a position */
+export function getLockAround(unit: Unit, pos: Position, map: MapGrid): number {
+  let lock = 0;
+  for (const [dx, dy] of [[0, -1], [0, 1], [-1, 0], [1, 0]]) {
+    const occupant = map.getOccupant({ x: pos.x + dx, y: pos.y + dy });
+    if (occupant && occupant !== unit && occupant.isAlive() && occupant.isEnemyOf(unit)) lock += occupant.lock;
+  }
+  return lock;
+}
+
+/** What the unit pays to step out of a cell */
+export function getLeaveCost(unit: Unit, pos: Position, map: MapGrid): TackleCost {
+  const lock = getLockAround(unit, pos, map);
+  return lock > 0 ? getTackleCost(unit.agility, lock) : NO_TACKLE;
+}
+
+/** Extra MP to step out of each cell for a unit, for the pathfinding in Grid */
+export function getTackleLeaveCost(unit: Unit, map: MapGrid): LeaveCost {
+  return pos => getLeaveCost(unit, pos, map).mp;
+}
+
+/**
+ * Tackle paid on each step of a path starting from the unit's cell (the step into path[i] pays for
+ * leaving the cell before it)
+ */
+export function getPathTackle(unit: Unit, path: Position[], map: MapGrid): TackleCost[] {
+  return path.map((_step, i) => getLeaveCost(unit, i === 0 ? unit.position : path[i - 1], map));
+}
+
+/** Total of the costs of several steps */
+export function sumTackle(costs: TackleCost[]): TackleCost {
+  return costs.reduce((total, cost) => ({ mp: total.mp + cost.mp, ap: total.ap + cost.ap }), NO_TACKLE);
+}
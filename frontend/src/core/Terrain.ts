@@ -0,0 +1,28 @@
+// Terrain.ts
+// Terrain kinds of the map cells: movement cost and whether they block walking or line of sight
+
+export type TerrainKind = 'floor' | 'wall' | 'water' | 'mud' | 'pit';
+
+export interface TerrainDefinition {
+  /** Units can stand on and walk through the cell */
+  walkable: boolean;
+  /** MP spent to step into the cell (ignored when not walkable) */
+  moveCost: number;
+  /** The cell stops line-of-sight rays */
+  blocksLineOfSight: boolean;
+}
+
+export const TERRAIN_TYPES: Record<TerrainKind, TerrainDefinition> = {
+  floor: { walkable: true, moveCost: 1, blocksLineOfSight: false },
+  wall: { walkable: false, moveCost: Infinity, blocksLineOfSight: true },
+  water: { walkable: true, moveCost: 3, blocksLineOfSight: false },
+  mud: { walkable: true, moveCost: 2, blocksLineOfSight: false },
+  // Holes stop walkers but spells fly over them
+  pit: { walkable: false, moveCost: Infinity, blocksLineOfSight: false },
+};
+
+export const TERRAIN_KINDS = Object.keys(TERRAIN_TYPES) as TerrainKind[];
+
+export function isTerrainKind(value: unknown): value is TerrainKind {
+  return typeof value === 'string' && value in TERRAIN_TYPES;
+}
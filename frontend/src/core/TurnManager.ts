@@ -1,38 +1,83 @@
 // TurnManager.ts
 // Controla el flujo de turnos entre varias unidades
+// El orden sigue la iniciativa (mayor primero); los empates se resuelven con una tirada con semilla
+import type { BattleEventBus } from './battle/BattleEvents';
+import type { SeededRandom } from './Random';
 import type { Unit } from './Unit';
 
 export type TurnPhase = 'start' | 'main' | 'end';
 
-type TurnManagerEvent = 'onTurnStart' | 'onTurnEnd' | 'onPhaseChange' | 'onTimerStart';
-type TurnManagerListener = (unit: Unit, phase?: TurnPhase) => void;
+/** Everything needed to resume the turn rotation where it was (see BattleSave) */
+export interface TurnManagerSnapshot {
+  /** Unit ids in turn order */
+  order: string[];
+  currentIndex: number;
+  phase: TurnPhase;
+  turnNumber: number;
+  roundNumber: number;
+  started: boolean;
+  stopped: boolean;
+  /** Initiative tie-break roll of each unit, by id */
+  rolls: Record<string, number>;
+}
 
 export class TurnManager {
   private units: Unit[];
+  /** Units in turn order; dead units are dropped when the order is refreshed */
+  private order: Unit[] = [];
+  /** Tie-break roll of each unit, drawn once when it joins the battle */
+  private rolls: Map<Unit, number> = new Map();
+  private rng: SeededRandom | null;
   private currentIndex: number = 0;
   private phase: TurnPhase = 'start';
-  private listeners: Partial<Record<TurnManagerEvent, TurnManagerListener[]>> = {};
+  private events: BattleEventBus | null;
+  private turnNumber: number = 0;
+  private roundNumber: number = 1;
+  private stopped: boolean = false;
+  private started: boolean = false;
   private turnTimer: number | null = null;
   private turnTimeLimit: number = 0; // seconds, 0 = no limit
 
-  constructor(units: Unit[]) {
+  /**
+   * @param units Units taking part in the battle
+   * @param events Optional battle event bus where TurnStarted/TurnEnded/PhaseChanged/TurnOrderChanged are published
+   * @param rng Generator for initiative tie-breaks; without it, tied units keep their order in `units`
+   * @param autoStart Starts the first turn right away; pass false to call begin() later (e.g. after a placement phase)
+   */
+  constructor(units: Unit[], events?: BattleEventBus, rng?: SeededRandom, autoStart: boolean = true) {
     this.units = units;
+    this.events = events ?? null;
+    this.rng = rng ?? null;
+    for (const unit of this.units) this.rollInitiative(unit);
+    this.order = this.units.filter(u => u.isAlive()).sort(this.compareInitiative);
     this.currentIndex = 0;
-    if (this.units.length > 0) {
-      this.startTurn();
-    }
+    // Dead units leave the timeline
+    this.events?.on('UnitDied', () => this.refreshOrder());
+    if (autoStart) this.begin();
+  }
+
+  /** Starts the first turn; does nothing if the first turn already started */
+  begin() {
+    if (this.started || this.order.length === 0) return;
+    this.started = true;
+    this.startTurn();
+  }
+
+  /** Returns true once the first turn started */
+  hasStarted(): boolean {
+    return this.started;
   }
 
   /** Returns the unit whose turn is active, skipping dead units. */
   getCurrentUnit(): Unit | null {
     // Loop to find the next alive unit
     let checked = 0;
-    while (checked < this.units.length) {
-      const unit = this.units[this.currentIndex];
+    while (checked < this.order.length) {
+      const unit = this.order[this.currentIndex];
       if (unit.isAlive && typeof unit.isAlive === 'function' ? unit.isAlive() : unit.hp > 0) {
         return unit;
       }
-      this.currentIndex = (this.currentIndex + 1) % this.units.length;
+      this.currentIndex = (this.currentIndex + 1) % this.order.length;
       checked++;
     }
     // No alive units found
@@ -44,44 +89,54 @@ export class TurnManager {
     return this.phase;
   }
 
-  /** Register an event listener (onTurnStart, onTurnEnd, etc) */
-  on(event: TurnManagerEvent, listener: TurnManagerListener) {
-    if (!this.listeners[event]) this.listeners[event] = [];
-    this.listeners[event]!.push(listener);
+  /** Returns how many turns have started since the battle began (1 for the first turn) */
+  getTurnNumber(): number {
+    return this.turnNumber;
   }
 
-  /** Internal: trigger an event */
-  private trigger(event: TurnManagerEvent, unit: Unit, phase?: TurnPhase) {
-    if (this.listeners[event]) {
-      for (const cb of this.listeners[event]!) {
-        cb(unit, phase);
-      }
-    }
+  /** Returns the current round (1 for the first round); a round ends when the order wraps around */
+  getRoundNumber(): number {
+    return this.roundNumber;
+  }
+
+  /** Stops turn rotation for good (e.g. when the battle has ended) */
+  stop() {
+    this.stopped = true;
+    this.phase = 'end';
+  }
+
+  /** Returns true once stop() has been called */
+  isStopped(): boolean {
+    return this.stopped;
   }
 
   /** Starts the turn for the current unit */
   startTurn() {
+    if (this.stopped) return;
     this.phase = 'start';
     const unit = this.getCurrentUnit();
     if (unit) {
       // Restore AP/MP only if allowed by states
       unit.startTurn();
+      this.turnNumber++;
       // Trigger start-of-turn effects (states, passives, etc)
       if (typeof unit.triggerStartOfTurnEffects === 'function') {
         unit.triggerStartOfTurnEffects();
       }
-      this.trigger('onTurnStart', unit, 'start');
-      // (Optional) Start timer for turn (not implemented, just hook)
-      if (this.turnTimeLimit > 0) {
-        this.trigger('onTimerStart', unit, 'start');
+      // A start-of-turn tick (poison, etc.) may kill the unit: skip to the next one
+      if (!unit.isAlive()) {
+        this.advance();
+        this.startTurn();
+        return;
       }
+      this.events?.emit('TurnStarted', { unit, turnNumber: this.turnNumber });
       // Move to main phase
       this.mainPhase();
     } else {
       // No alive units, end game or handle appropriately
       console.log('No alive units to start turn.');
       this.phase = 'end'; // Force end phase if no units
-      // Do not trigger onTurnEnd with null
+      // Do not publish TurnEnded with null
     }
   }
 
@@ -90,13 +145,13 @@ export class TurnManager {
     this.phase = 'main';
     const unit = this.getCurrentUnit();
     if (unit) {
-      this.trigger('onPhaseChange', unit, 'main');
+      this.events?.emit('PhaseChanged', { unit, phase: 'main' });
       // No logic here: BattleScene handles player actions
     } else {
       // No alive units, end game or handle appropriately
       console.log('No alive units to start main phase.');
       this.phase = 'end'; // Force end phase if no units
-      // Do not trigger onTurnEnd with null
+      // Do not publish TurnEnded with null
     }
   }
 
@@ -107,22 +162,123 @@ export class TurnManager {
    */
   endTurn() {
     this.phase = 'end';
-    const unit = this.getCurrentUnit();
-    if (unit) {
-      this.trigger('onTurnEnd', unit, 'end');
+    // Read the slot directly: if the acting unit just died (end-of-turn tick),
+    // getCurrentUnit() would skip ahead and end the wrong unit's turn
+    const unit = this.order[this.currentIndex];
+    if (unit && unit.isAlive()) {
+      this.events?.emit('TurnEnded', { unit, turnNumber: this.turnNumber });
     }
-    // Advance to next alive unit
+    this.advance();
+    // Start turn for the next alive unit
+    this.startTurn();
+  }
+
+  /** Moves to the next alive unit; going past the end of the order starts a new round */
+  private advance() {
     let checked = 0;
-    do {
-      this.currentIndex = (this.currentIndex + 1) % this.units.length;
+    let wrapped = false;
+    while (checked < this.order.length) {
+      this.currentIndex = (this.currentIndex + 1) % this.order.length;
+      if (this.currentIndex === 0) wrapped = true;
       checked++;
-      const nextUnit = this.units[this.currentIndex];
+      const nextUnit = this.order[this.currentIndex];
       if (nextUnit.isAlive && typeof nextUnit.isAlive === 'function' ? nextUnit.isAlive() : nextUnit.hp > 0) {
         break;
       }
-    } while (checked < this.units.length);
-    // Start turn for the next alive unit
-    this.startTurn();
+    }
+    if (wrapped) {
+      this.roundNumber++;
+      // Listeners may stop the battle here (e.g. a "survive N rounds" objective), before the next turn starts
+      this.events?.emit('RoundStarted', { round: this.roundNumber });
+    }
+  }
+
+  /** Returns the alive units in turn order, starting from the first unit of a round */
+  getOrder(): Unit[] {
+    return this.order.filter(u => u.isAlive());
+  }
+
+  /**
+   * Returns the next `count` turns, starting with the current one.
+   * Units appear several times when count exceeds the number of alive units.
+   */
+  getUpcomingTurns(count: number): Unit[] {
+    const upcoming: Unit[] = [];
+    const alive = this.order.filter(u => u.isAlive()).length;
+    if (alive === 0) return upcoming;
+    let index = this.currentIndex;
+    while (upcoming.length < count) {
+      const unit = this.order[index];
+      if (unit.isAlive()) upcoming.push(unit);
+      index = (index + 1) % this.order.length;
+    }
+    return upcoming;
+  }
+
+  /**
+   * Adds a unit that joins the battle (e.g. a summon) and places it in the order by initiative.
+   * It plays when its slot comes up, which may be in the next round.
+   */
+  addUnit(unit: Unit) {
+    if (!this.units.includes(unit)) this.units.push(unit);
+    this.rollInitiative(unit);
+    this.refreshOrder();
+  }
+
+  /**
+   * Recomputes the turn order from the units' initiative, dropping dead units.
+   * The current unit keeps its turn (even if it just died, until the turn ends).
+   */
+  refreshOrder() {
+    const current = this.order[this.currentIndex];
+    this.order = this.units.filter(u => u.isAlive() || u === current).sort(this.compareInitiative);
+    this.currentIndex = current ? Math.max(0, this.order.indexOf(current)) : 0;
+    this.events?.emit('TurnOrderChanged', { order: this.getOrder() });
+  }
+
+  private rollInitiative(unit: Unit) {
+    if (!this.rolls.has(unit)) this.rolls.set(unit, this.rng ? this.rng.next() : 0);
+  }
+
+  // Higher initiative first, then higher roll; Array.sort is stable so full ties keep insertion order
+  private compareInitiative = (a: Unit, b: Unit): number =>
+    (b.initiative - a.initiative) || ((this.rolls.get(b) ?? 0) - (this.rolls.get(a) ?? 0));
+
+  /** Captures the rotation state; unit references are stored as ids */
+  snapshot(): TurnManagerSnapshot {
+    const rolls: Record<string, number> = {};
+    for (const [unit, roll] of this.rolls) rolls[unit.id] = roll;
+    return {
+      order: this.order.map(u => u.id),
+      currentIndex: this.currentIndex,
+      phase: this.phase,
+      turnNumber: this.turnNumber,
+      roundNumber: this.roundNumber,
+      started: this.started,
+      stopped: this.stopped,
+      rolls
+    };
+  }
+
+  /**
+   * Puts the rotation back in a snapshotted state without starting any turn or publishing events.
+   * @throws Error if the snapshot references a unit this manager does not know
+   */
+  restore(snapshot: TurnManagerSnapshot) {
+    const byId = new Map(this.units.map(u => [u.id, u]));
+    const find = (id: string) => {
+      const unit = byId.get(id);
+      if (!unit) throw new Error(`Turn order references unknown unit "${id}"`);
+      return unit;
+    };
+    this.order = snapshot.order.map(find);
+    this.rolls = new Map(Object.entries(snapshot.rolls).map(([id, roll]) => [find(id), roll]));
+    this.currentIndex = snapshot.currentIndex;
+    this.phase = snapshot.phase;
+    this.turnNumber = snapshot.turnNumber;
+    this.roundNumber = snapshot.roundNumber;
+    this.started = snapshot.started;
+    this.stopped = snapshot.stopped;
   }
 
   /** For future: set a time limit per turn (in seconds) */
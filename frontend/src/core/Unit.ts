@@ -1,6 +1,9 @@
 // Unit.ts
 // Represents a unit (player or enemy) on the board
 
+import type { BattleEventBus } from './battle/BattleEvents';
+import type { DamageElement, Resistances } from './Damage';
+import type { Passive } from './Passive';
 import { Spell } from './Spell';
 import type { UnitClass } from './unitClasses';
 
@@ -11,14 +14,24 @@ export interface Position {
   y: number;
 }
 
+/** Outcome of Unit.takeDamage: how much a shield absorbed and how much reached HP */
+export interface DamageResult {
+  absorbed: number;
+  damage: number;
+}
+
+/** Turn boundary at which a ticking state (poison, regen) is processed */
+export type TurnBoundary = 'start' | 'end';
+
 // State type for extensible effects
 export interface State {
   id: string; // Unique identifier
-  type: 'ap_loss' | 'mp_loss' | 'poison' | 'buff' | 'debuff' | string;
+  type: 'ap_loss' | 'mp_loss' | 'poison' | 'regen' | 'shield' | 'buff' | 'debuff' | string;
   duration: number; // Turns remaining
   value?: number;
   source?: string;
   stackable?: boolean;
+  tickAt?: TurnBoundary; // For ticking states: when the tick happens (default 'start')
   applyEffect?: (unit: Unit) => void;
 }
 
@@ -42,10 +55,24 @@ export class Unit {
   castsThisTurn: Record<string, number> = {};
   shouldRestoreAP: boolean = true;
   team: number;
+  /** Turn order stat: higher acts first (see TurnManager) */
+  initiative: number = 0;
+  /** Tackle stats (see Tackle.ts): agility to leave enemies, lock to hold them */
+  agility: number = 0;
+  lock: number = 0;
+  /** Class color, used by portraits and the turn timeline */
+  color?: number;
+  /** Per-element resistances (and weaknesses), copied from the unit class */
+  resistances: Resistances = {};
+  /** Class passive, run by PassiveSystem */
+  passive?: Passive;
 
   /** List of active states on this unit */
   public states: State[] = [];
 
+  /** Battle event bus this unit publishes state changes to (set by BattleState) */
+  public events: BattleEventBus | null = null;
+
   constructor(id: string, name: string, type: UnitType, position: Position, arg5?: number | UnitClass, arg6?: UnitClass) {
     this.id = id;
     this.name = name;
@@ -62,6 +89,12 @@ export class Unit {
       this.maxMP = unitClass.maxMP;
       this.mp = unitClass.maxMP;
       this.spells = unitClass.spells.map(s => Object.assign(Object.create(Object.getPrototypeOf(s)), s));
+      this.resistances = { ...unitClass.resistances };
+      this.initiative = unitClass.initiative ?? 0;
+      this.agility = unitClass.agility ?? 0;
+      this.lock = unitClass.lock ?? 0;
+      this.color = unitClass.color;
+      this.passive = unitClass.passive;
     } else if (typeof arg5 === 'number') {
       // (id, name, type, position, maxMP)
       this.team = 1;
@@ -140,12 +173,39 @@ export class Unit {
     return this.hp > 0;
   }
 
+  /** Total shield points currently absorbing damage (sum of all shield states). */
+  get shield(): number {
+    return this.states.reduce((sum, s) => (s.type === 'shield' ? sum + (s.value ?? 0) : sum), 0);
+  }
+
+  /** Returns the flat and percent resistance against an element (0 when none) */
+  public getResistance(element: DamageElement): { flat: number; percent: number } {
+    const res = this.resistances[element];
+    return { flat: res?.flat ?? 0, percent: res?.percent ?? 0 };
+  }
+
   /**
    * Called by EffectEngine to apply damage.
+   * Shield states absorb damage first (oldest first); depleted shields are removed.
+   * @returns How much was absorbed by shields and how much was taken from HP
    */
-  public takeDamage(amount: number) {
-    this.hp -= amount;
-    if (this.hp < 0) this.hp = 0;
+  public takeDamage(amount: number): DamageResult {
+    let remaining = Math.max(0, amount);
+    let absorbed = 0;
+    for (const state of this.states.filter(s => s.type === 'shield')) {
+      if (remaining <= 0) break;
+      const used = Math.min(state.value ?? 0, remaining);
+      state.value = (state.value ?? 0) - used;
+      remaining -= used;
+      absorbed += used;
+      if (state.value <= 0) {
+        this.removeState(state.id);
+        this.events?.emit('StateExpired', { unit: this, state });
+      }
+    }
+    const hpBefore = this.hp;
+    this.hp = Math.max(0, this.hp - remaining);
+    return { absorbed, damage: hpBefore - this.hp };
   }
 
   canCastSpell(target: Unit): boolean {
@@ -181,7 +241,9 @@ export class Unit {
     if (!state.stackable) {
       this.states = this.states.filter(s => s.type !== state.type);
     }
-    this.states.push({ ...state });
+    const applied = { ...state };
+    this.states.push(applied);
+    this.events?.emit('StateApplied', { unit: this, state: applied });
   }
 
   /**
@@ -219,6 +281,7 @@ export class Unit {
           this.ap = this.maxAP; // Restore AP when ap_loss expires
         }
         this.states.splice(i, 1);
+        this.events?.emit('StateExpired', { unit: this, state });
       }
     }
   }
@@ -226,20 +289,56 @@ export class Unit {
 
   /**
    * Hook: called at the start of the unit's turn (for passives, states, etc).
-   * Extend as needed for future effects.
+   * Processes ticking states (poison, regen) configured to tick at turn start.
    */
   public triggerStartOfTurnEffects() {
-    // Example: apply start-of-turn poison, buffs, etc.
-    // (No-op for now)
+    this.processTickingStates('start');
   }
 
   /**
-   * Hook: called at the end of the unit's turn (for passives, states, etc).
-   * Extend as needed for future effects.
+   * Hook: called at the end of the unit's turn, before state durations are decremented.
+   * Processes ticking states (poison, regen) configured to tick at turn end.
    */
   public triggerEndOfTurnEffects() {
-    // Example: apply end-of-turn poison, buffs, etc.
-    // (No-op for now)
+    this.processTickingStates('end');
+  }
+
+  /**
+   * Applies one tick of every damage/heal-over-time state matching the boundary.
+   * Publishes DamageDealt/HealApplied and then StateTicked for each tick.
+   * Stops as soon as a tick kills the unit.
+   */
+  private processTickingStates(boundary: TurnBoundary) {
+    for (const state of [...this.states]) {
+      if (!this.isAlive()) return;
+      if ((state.tickAt ?? 'start') !== boundary || !state.value) continue;
+      const hpBefore = this.hp;
+      if (state.type === 'poison') {
+        const { absorbed } = this.takeDamage(state.value);
+        this.events?.emit('DamageDealt', {
+          source: null,
+          target: this,
+          amount: hpBefore - this.hp,
+          absorbed,
+          hpBefore,
+          hpAfter: this.hp,
+          sourceSpell: state.source
+        });
+      } else if (state.type === 'regen') {
+        this.heal(state.value);
+        this.events?.emit('HealApplied', {
+          source: null,
+          target: this,
+          amount: this.hp - hpBefore,
+          hpBefore,
+          hpAfter: this.hp,
+          sourceSpell: state.source
+        });
+      } else {
+        continue;
+      }
+      this.events?.emit('StateTicked', { unit: this, state, amount: this.hp - hpBefore });
+    }
   }
 
   /**
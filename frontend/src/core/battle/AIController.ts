@@ -0,0 +1,272 @@
+// AIController.ts
+// Plays the turns of computer-controlled units through the BattleSimulator, like a player would.
+// Each step picks the best move/cast from the reachable cells (Grid.getReachableCells) and the
+// castable spells (Spell.canCast), waits a bit so the action can be followed on screen, then applies it.
+
+import { getUnitsInArea } from '@core/Area';
+import { computeDamage } from '@core/Damage';
+import type { Position } from '@core/Grid';
+import type { Spell, SpellEffectConfig } from '@core/Spell';
+import { getPathTackle, getTackleLeaveCost, sumTackle } from '@core/Tackle';
+import type { Unit } from '@core/Unit';
+
+import type { BattleSimulator } from './BattleSimulator';
+import { getAITeams } from './TeamComposition';
+import type { TeamComposition } from './TeamComposition';
+
+/** Something that can end the current turn (BattleLogic in the scene) */
+export interface TurnEnder {
+  endTurn(): void;
+}
+
+export type AIAction =
+  | { kind: 'move'; path: Position[] }
+  | { kind: 'cast'; spell: string; cell: Position };
+
+export interface AIControllerOptions {
+  /** Decides which units the AI plays; takes precedence over `composition` */
+  controls?: (unit: Unit) => boolean;
+  /** The AI plays the units of the teams whose controller is 'ai'; without it, units of type 'enemy' */
+  composition?: TeamComposition;
+  /** Pause before each action and before ending the turn (ms) */
+  actionDelayMs?: number;
+  /** Extra pause per walked cell so the move animation can finish (ms) */
+  moveStepMs?: number;
+}
+
+interface CastOption {
+  score: number;
+  spell: Spell;
+  cell: Position;
+  /** Cell the caster casts from and the path to get there (empty when casting in place) */
+  from: Position;
+  path: Position[];
+  /** MP spent on the path */
+  moveCost: number;
+}
+
+// Safety net against plans that never converge
+const MAX_ACTIONS_PER_TURN = 20;
+// Bonus for finishing off an enemy, so kills beat slightly higher raw damage elsewhere
+const KILL_BONUS = 50;
+
+const wait = (ms: number) => (ms > 0 ? new Promise<void>(res => setTimeout(res, ms)) : Promise.resolve());
+
+/** Units of the composition's AI teams, or of type 'enemy' without a composition */
+function defaultControls(composition?: TeamComposition): (unit: Unit) => boolean {
+  if (!composition) return unit => unit.type === 'enemy';
+  const teams = new Set(getAITeams(composition));
+  return unit => teams.has(unit.team);
+}
+
+export class AIController {
+  private controls: (unit: Unit) => boolean;
+  private actionDelayMs: number;
+  private moveStepMs: number;
+  private unsubscribe: () => void;
+  private disposed: boolean = false;
+
+  constructor(
+    private simulator: BattleSimulator,
+    private turns: TurnEnder,
+    options: AIControllerOptions = {}
+  ) {
+    this.controls = options.controls ?? defaultControls(options.composition);
+    this.actionDelayMs = options.actionDelayMs ?? 600;
+    this.moveStepMs = options.moveStepMs ?? 200;
+    this.unsubscribe = this.simulator.on('TurnStarted', ({ unit }) => {
+      if (this.controls(unit)) void this.playTurn(unit);
+    });
+  }
+
+  /** Returns true if the unit's turns are played by this controller */
+  isControlling(unit: Unit): boolean {
+    return this.controls(unit);
+  }
+
+  /** Stops reacting to new turns; a turn being played stops at its next step */
+  dispose() {
+    this.disposed = true;
+    this.unsubscribe();
+  }
+
+  /**
+   * Plays the whole turn of a unit: actions one by one with pacing, then ends the turn.
+   * Stops early if the battle ends or the turn is no longer this unit's.
+   */
+  async playTurn(unit: Unit): Promise<void> {
+    let approached = false;
+    for (let i = 0; i < MAX_ACTIONS_PER_TURN; i++) {
+      if (!this.isActing(unit)) return;
+      const action = this.chooseNextAction(unit, approached);
+      if (!action) break;
+      await wait(this.actionDelayMs);
+      if (!this.isActing(unit)) return;
+      if (action.kind === 'move') {
+        approached = true;
+        if (!this.simulator.move(unit.id, action.path)) break;
+        await wait(this.moveStepMs * action.path.length);
+      } else if (!this.simulator.cast(unit.id, action.spell, action.cell)) {
+        break;
+      }
+    }
+    await wait(this.actionDelayMs);
+    if (this.isActing(unit)) this.turns.endTurn();
+  }
+
+  /**
+   * Picks the next action for the unit:
+   * the best cast reachable this turn (walking first if needed), otherwise a step towards the nearest enemy.
+   * @param approached true once the unit already walked without casting (so it does not wander)
+   * @returns null when there is nothing useful left to do
+   */
+  chooseNextAction(unit: Unit, approached: boolean = false): AIAction | null {
+    const best = this.findBestCast(unit);
+    if (best) {
+      if (best.path.length > 0) return { kind: 'move', path: best.path };
+      return { kind: 'cast', spell: best.spell.name, cell: best.cell };
+    }
+    if (approached || unit.mp <= 0) return null;
+    const path = this.findApproachPath(unit);
+    return path ? { kind: 'move', path } : null;
+  }
+
+  private isActing(unit: Unit): boolean {
+    return !this.disposed && !this.simulator.isEnded() && this.simulator.state.currentUnit === unit && unit.isAlive();
+  }
+
+  /** Evaluates every usable spell on every cell, from the current cell and every reachable cell */
+  private findBestCast(unit: Unit): CastOption | null {
+    const { grid, map } = this.simulator.state;
+    const spells = unit.spells.filter(spell => this.isSpellReady(unit, spell));
+    if (spells.length === 0) return null;
+
+    const origin = { ...unit.position };
+    const leaveCost = getTackleLeaveCost(unit, map);
+    const standingCells = [origin, ...grid.getReachableCells(origin, unit.mp, map, leaveCost)];
+    let best: CastOption | null = null;
+
+    for (const from of standingCells) {
+      const path = from === origin ? [] : grid.findPath(origin, from, unit.mp, map, leaveCost);
+      if (!path) continue;
+      // AP lost to tackle on the way is not available for the cast
+      const tackle = sumTackle(getPathTackle(unit, path, map));
+      const moveCost = grid.getPathCost(path, map) + tackle.mp;
+      this.withUnitAt(unit, from, () => {
+        for (const spell of spells) {
+          if (spell.cost > unit.ap - tackle.ap) continue;
+          for (const cell of this.candidateCells(unit, spell)) {
+            const score = this.scoreCast(unit, spell, cell);
+            if (score <= 0) continue;
+            // Prefer higher scores, then cheaper walks
+            if (!best || score > best.score || (score === best.score && moveCost < best.moveCost)) {
+              best = { score, spell, cell, from, path, moveCost };
+            }
+          }
+        }
+      });
+    }
+    return best;
+  }
+
+  private isSpellReady(unit: Unit, spell: Spell): boolean {
+    if (unit.ap < spell.cost) return false;
+    if (spell.cooldownCounter && spell.cooldownCounter > 0) return false;
+    const casts = unit.castsThisTurn[spell.name] ?? 0;
+    return spell.maxCastsPerTurn === -1 || casts < spell.maxCastsPerTurn;
+  }
+
+  /** Cells worth evaluating: every unit's cell (spells here target units), within range */
+  private candidateCells(unit: Unit, spell: Spell): Position[] {
+    return this.simulator.state.getAliveUnits()
+      .map(u => u.position)
+      .filter(pos => {
+        const dist = Math.abs(pos.x - unit.position.x) + Math.abs(pos.y - unit.position.y);
+        return dist >= spell.minRange && dist <= spell.range;
+      });
+  }
+
+  /** Expected value of casting a spell on a cell from the unit's current position (0 if it cannot be cast) */
+  private scoreCast(unit: Unit, spell: Spell, cell: Position): number {
+    const { map } = this.simulator.state;
+    const target = this.simulator.state.getUnitAt(cell);
+    if (!spell.canCast(unit, target, { map, cellPosition: cell })) return 0;
+
+    const targets = spell.area ? getUnitsInArea(spell.area, unit, cell, map) : target ? [target] : [];
+    let score = 0;
+    for (const affected of targets) {
+      for (const effect of spell.effects) {
+        score += this.scoreEffect(unit, affected, effect);
+      }
+    }
+    return score;
+  }
+
+  /** Rough value of one effect on one unit: positive when it helps the caster's team */
+  private scoreEffect(caster: Unit, target: Unit, effect: SpellEffectConfig): number {
+    const enemy = caster.isEnemyOf(target);
+    const sign = enemy ? 1 : -1;
+    switch (effect.type) {
+      case 'damage': {
+        const { final } = computeDamage({ base: effect.value, element: effect.element ?? 'neutral', caster, target });
+        const dealt = Math.min(final, target.hp + target.shield);
+        const kill = final >= target.hp + target.shield ? KILL_BONUS : 0;
+        return sign * (dealt + kill);
+      }
+      case 'poison':
+        return sign * effect.value * (effect.duration ?? 1) * 0.5;
+      case 'drain_ap':
+        return sign * effect.value * 5;
+      case 'push':
+      case 'pull':
+        return sign * 2;
+      case 'heal':
+        return -sign * Math.min(effect.value, target.maxHP - target.hp);
+      case 'regen':
+        return -sign * Math.min(effect.value, target.maxHP - target.hp) * 0.5;
+      case 'shield':
+        return -sign * effect.value * 0.5;
+      case 'buff_ap':
+        return -sign * effect.value * 5;
+      default:
+        return 0;
+    }
+  }
+
+  /** Path to the reachable cell closest to an enemy, or null if the unit cannot get any closer */
+  private findApproachPath(unit: Unit): Position[] | null {
+    const { grid, map } = this.simulator.state;
+    const enemies = this.simulator.state.getAliveUnits().filter(u => unit.isEnemyOf(u));
+    if (enemies.length === 0) return null;
+    const distance = (pos: Position) =>
+      Math.min(...enemies.map(e => Math.abs(e.position.x - pos.x) + Math.abs(e.position.y - pos.y)));
+
+    let bestCell: Position | null = null;
+    let bestDistance = distance(unit.position);
+    const leaveCost = getTackleLeaveCost(unit, map);
+    for (const cell of grid.getReachableCells(unit.position, unit.mp, map, leaveCost)) {
+      const d = distance(cell);
+      if (d < bestDistance) {
+        bestDistance = d;
+        bestCell = cell;
+      }
+    }
+    return bestCell ? grid.findPath(unit.position, bestCell, unit.mp, map, leaveCost) : null;
+  }
+
+  /** Runs fn with the unit temporarily standing on another cell (for range and line of sight checks) */
+  private withUnitAt(unit: Unit, cell: Position, fn: () => void) {
+    const { map } = this.simulator.state;
+    const original = unit.position;
+    map.setOccupied(original, null);
+    unit.position = cell;
+    map.setOccupied(cell, unit);
+    try {
+      fn();
+    } finally {
+      map.setOccupied(cell, null);
+      unit.position = original;
+      map.setOccupied(original, unit);
+    }
+  }
+}
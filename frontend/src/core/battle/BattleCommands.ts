@@ -0,0 +1,52 @@
+// BattleCommands.ts
+// Player actions as plain data: what a unit did, not how it was input (pointer, AI, network).
+// BattleSimulator publishes every accepted command (CommandExecuted) and can execute them,
+// which is what the command log and replays are built on.
+
+import type { Position } from '@core/Grid';
+
+export type BattleCommand =
+  | { type: 'move'; unitId: string; path: Position[] }
+  | { type: 'cast'; unitId: string; spell: string; cell: Position }
+  | { type: 'endTurn'; unitId: string }
+  /** Takes back the unit's last move of the turn (see BattleSimulator.undoMove) */
+  | { type: 'undoMove'; unitId: string };
+
+export type BattleCommandType = BattleCommand['type'];
+
+/** Deep copy, so a logged command never shares positions with the battle */
+export function cloneCommand(command: BattleCommand): BattleCommand {
+  switch (command.type) {
+    case 'move':
+      return { ...command, path: command.path.map(p => ({ ...p })) };
+    case 'cast':
+      return { ...command, cell: { ...command.cell } };
+    case 'endTurn':
+    case 'undoMove':
+      return { ...command };
+  }
+}
+
+function isCell(value: unknown): value is Position {
+  if (typeof value !== 'object' || value === null) return false;
+  const { x, y } = value as Record<string, unknown>;
+  return Number.isInteger(x) && Number.isInteger(y);
+}
+
+/** True if untrusted data (e.g. a command received over the network) has the shape of a command */
+export function isBattleCommand(data: unknown): data is BattleCommand {
+  if (typeof data !== 'object' || data === null) return false;
+  const command = data as Record<string, unknown>;
+  if (typeof command.unitId !== 'string') return false;
+  switch (command.type) {
+    case 'move':
+      return Array.isArray(command.path) && command.path.every(isCell);
+    case 'cast':
+      return typeof command.spell === 'string' && isCell(command.cell);
+    case 'endTurn':
+    case 'undoMove':
+      return true;
+    default:
+      return false;
+  }
+}
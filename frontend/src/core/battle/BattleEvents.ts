@@ -0,0 +1,139 @@
+// BattleEvents.ts
+// Strongly typed event bus for every gameplay occurrence in a battle.
+// Effects, Unit and the turn systems publish here; UI, logging, replays and AI subscribe.
+
+import type { DamageElement } from '@core/Damage';
+import type { Position } from '@core/Grid';
+import type { Spell } from '@core/Spell';
+import type { TackleCost } from '@core/Tackle';
+import type { TurnPhase } from '@core/TurnManager';
+import type { State, Unit } from '@core/Unit';
+
+import type { BattleCommand } from './BattleCommands';
+import type { BattleStats } from './BattleStats';
+import type { VictoryReason } from './VictoryConditions';
+
+/** How a unit changed cells: walking step by step or being displaced by an effect. */
+export type UnitMoveKind = 'walk' | 'teleport' | 'push' | 'pull' | 'swap' | 'dash';
+
+/** Payload of each battle event, keyed by event type. */
+export interface BattleEventMap {
+  /**
+   * A player action was accepted. Published right after the action's own event (UnitMoved, SpellCast)
+   * and before its consequences (deaths, next turn), so logs keep commands in order.
+   */
+  CommandExecuted: { command: BattleCommand };
+  UnitMoved: {
+    unit: Unit;
+    from: Position;
+    to: Position;
+    path: Position[];
+    kind: UnitMoveKind;
+    /** MP and AP lost to enemy lock on the way, when any (walks only; the MP are part of what the walk cost) */
+    tackle?: TackleCost;
+  };
+  /** The acting unit took back its last move: it is back on `to` with `mp` MP and `ap` AP refunded */
+  MoveUndone: { unit: Unit; from: Position; to: Position; mp: number; ap: number };
+  SpellCast: { caster: Unit; spell: Spell; cell: Position; target: Unit | null };
+  DamageDealt: {
+    source: Unit | null;
+    target: Unit;
+    /** HP actually lost */
+    amount: number;
+    /** Damage absorbed by shields before reaching HP */
+    absorbed: number;
+    /** Element of the hit; omitted for damage over time */
+    element?: DamageElement;
+    hpBefore: number;
+    hpAfter: number;
+    sourceSpell?: string;
+  };
+  HealApplied: {
+    source: Unit | null;
+    target: Unit;
+    amount: number;
+    hpBefore: number;
+    hpAfter: number;
+    sourceSpell?: string;
+  };
+  StateApplied: { unit: Unit; state: State };
+  StateExpired: { unit: Unit; state: State };
+  /** A damage/heal-over-time state ticked; amount is the HP change (negative for damage) */
+  StateTicked: { unit: Unit; state: State; amount: number };
+  UnitDied: { unit: Unit; position: Position };
+  /** A class passive went off; published once its effects were applied to the targets */
+  PassiveTriggered: { unit: Unit; passive: string; targets: Unit[] };
+  /** Placement phase: a unit was put on a start cell; swappedWith is the teammate that took its old cell */
+  UnitPlaced: { unit: Unit; from: Position; to: Position; swappedWith: Unit | null };
+  /** Placement phase: a team confirmed its placement */
+  PlacementLocked: { team: number };
+  /** Every team locked its placement; the first turn starts next */
+  PlacementEnded: { teams: number[] };
+  /** A unit joined the battle after it started (summons) */
+  UnitSummoned: { unit: Unit; position: Position };
+  /** The turn order was recomputed (death, summon); order starts from the first unit of a round */
+  TurnOrderChanged: { order: Unit[] };
+  TurnStarted: { unit: Unit; turnNumber: number };
+  TurnEnded: { unit: Unit; turnNumber: number };
+  /** Every alive unit played once; published before the first turn of the new round (not for round 1) */
+  RoundStarted: { round: number };
+  PhaseChanged: { unit: Unit; phase: TurnPhase };
+  /** winnerTeam is null for a draw */
+  BattleEnded: { winnerTeam: number | null; reason: VictoryReason; stats: BattleStats };
+}
+
+export type BattleEventType = keyof BattleEventMap;
+export type BattleEventListener<K extends BattleEventType> = (payload: BattleEventMap[K]) => void;
+
+/** Discriminated union of all events, used by catch-all subscribers (logs, replays). */
+export type BattleEvent = {
+  [K in BattleEventType]: { type: K; payload: BattleEventMap[K] };
+}[BattleEventType];
+
+export class BattleEventBus {
+  private listeners: { [K in BattleEventType]?: BattleEventListener<K>[] } = {};
+  private anyListeners: ((event: BattleEvent) => void)[] = [];
+
+  /** Subscribes to one event type. Returns a function that removes the listener. */
+  on<K extends BattleEventType>(type: K, listener: BattleEventListener<K>): () => void {
+    const list = (this.listeners[type] ??= []) as BattleEventListener<K>[];
+    list.push(listener);
+    return () => this.off(type, listener);
+  }
+
+  /** Removes a listener previously registered with on() */
+  off<K extends BattleEventType>(type: K, listener: BattleEventListener<K>) {
+    const list = this.listeners[type] as BattleEventListener<K>[] | undefined;
+    if (!list) return;
+    const idx = list.indexOf(listener);
+    if (idx >= 0) list.splice(idx, 1);
+  }
+
+  /** Subscribes to every event. Returns a function that removes the listener. */
+  onAny(listener: (event: BattleEvent) => void): () => void {
+    this.anyListeners.push(listener);
+    return () => {
+      const idx = this.anyListeners.indexOf(listener);
+      if (idx >= 0) this.anyListeners.splice(idx, 1);
+    };
+  }
+
+  /** Publishes an event to its listeners, then to catch-all listeners */
+  emit<K extends BattleEventType>(type: K, payload: BattleEventMap[K]) {
+    const list = this.listeners[type] as BattleEventListener<K>[] | undefined;
+    if (list) {
+      for (const cb of [...list]) {
+        cb(payload);
+      }
+    }
+    for (const cb of [...this.anyListeners]) {
+      cb({ type, payload } as BattleEvent);
+    }
+  }
+
+  /** Removes every listener (used when a battle is torn down) */
+  clear() {
+    this.listeners = {};
+    this.anyListeners = [];
+  }
+}
@@ -1,63 +1,121 @@
 // BattleLogic.ts
-// Handles turn flow, unit death, and unit interaction for the tactical RPG battle system.
-// This class is responsible for managing the current unit, skipping dead units, and handling unit death events.
+// Bridges the headless BattleSimulator and the battle scene.
+// This class subscribes to battle events (turn start, unit death, stat changes) and refreshes the visuals accordingly.
+// All rule checks and state mutations live in BattleSimulator.
 
 import type { Unit } from '@core/Unit';
-import type { TurnManager } from '@core/TurnManager';
-import type { MapGrid } from '@core/MapGrid';
 import type { BattleScene } from '@scenes/BattleScene';
 
+import type { BattleResult, BattleSimulator } from './BattleSimulator';
+
 export class BattleLogic {
+  private unsubscribers: (() => void)[] = [];
+
   constructor(
     private scene: BattleScene,
-    private turnManager: TurnManager,
-    private map: MapGrid
-  ) {}
+    private simulator: BattleSimulator
+  ) {
+    // HP/AP bars (and the timeline's HP) follow every stat change, whoever caused it
+    const refreshBars = () => {
+      this.scene.battleUI.updateUnitSprites();
+      this.scene.updateTimeline();
+    };
+    this.unsubscribers.push(
+      this.simulator.on('TurnStarted', () => this.refreshTurnVisuals()),
+      this.simulator.on('UnitDied', ({ unit }) => this.handleUnitDeath(unit)),
+      this.simulator.on('BattleEnded', result => this.showBattleResult(result)),
+      this.simulator.on('TurnOrderChanged', () => this.scene.updateTimeline()),
+      // Once every team is ready the first turn starts
+      this.simulator.on('PlacementEnded', () => this.startTurn()),
+      this.simulator.on('DamageDealt', refreshBars),
+      this.simulator.on('HealApplied', refreshBars),
+      this.simulator.on('StateApplied', refreshBars),
+      this.simulator.on('StateExpired', refreshBars),
+      // AI casts do not go through the spell bar, so AP and cooldowns are refreshed here
+      this.simulator.on('SpellCast', () => {
+        this.scene.updateTurnLabel();
+        this.scene.createSpellBar();
+      }),
+      this.simulator.on('StateTicked', ({ unit, state, amount }) => this.showStateTick(unit, state.type, amount)),
+      // Passives can change AP outside of the acting unit's own spells
+      this.simulator.on('PassiveTriggered', ({ unit, passive }) => {
+        this.scene.battleUI.showFloatingText(unit, passive, '#f1c40f');
+        this.scene.updateTurnLabel();
+        this.scene.createSpellBar();
+      }),
+      // An undone move snaps the unit back to its cell with its MP refunded
+      this.simulator.on('MoveUndone', () => {
+        this.scene.battleUI.updateUnitSprites();
+        this.scene.updateTurnLabel();
+        this.scene.updateReachableAndHighlights();
+      }),
+      // Every action can make the moves of the turn final (or undoable again)
+      this.simulator.on('CommandExecuted', () => this.scene.battleUI.updateUndoButton())
+    );
+  }
+
+  /** Stops following the simulator (the scene is being destroyed) */
+  dispose() {
+    for (const unsubscribe of this.unsubscribers) unsubscribe();
+    this.unsubscribers = [];
+  }
 
   handleUnitDeath(unit: Unit) {
+    // Map occupancy is already released by the simulator
     this.scene.removeUnitVisuals(unit);
-    this.map.setOccupied(unit.position, null);
     // Future: trigger death animation, effects, etc.
   }
 
-  skipDeadUnits() {
-    // Ensures the current unit is alive, otherwise skips turn
-    let unit = this.turnManager.getCurrentUnit();
-    while (unit && !unit.isAlive()) {
-      this.turnManager.endTurn();
-      unit = this.turnManager.getCurrentUnit();
-    }
-  }
-
   /**
-   * Orchestrates the start of the turn: skips dead units, calls unit.startTurn(), and updates UI/visuals.
-   * This method should be called at the beginning of each turn.
+   * Announces the current turn so the scene renders it.
+   * This method should be called once, after the scene is fully set up.
    */
   public startTurn() {
-    this.skipDeadUnits();
-    const unit = this.turnManager.getCurrentUnit();
-    if (unit && unit.isAlive()) {
-      unit.startTurn();
+    // A replay can be shown at a position where the battle is already over
+    const result = this.simulator.getResult();
+    if (result) {
+      this.showBattleResult(result);
+      return;
     }
-    // Ensure UI reflects AP/HP changes immediately after logic update
-    this.scene.battleUI.updateUnitSprites();
-    this.scene.updateTurnLabel();
-    this.scene.createSpellBar();
-    this.scene.updateReachableAndHighlights();
-    this.scene.ui.setEndTurnButtonVisible(true);
+    this.simulator.start();
   }
 
   /**
-   * Ends the turn for the current unit and advances to the next, skipping dead units.
-   * Calls startTurn() for the next unit.
-   * Decrements state durations only at the end of the turn.
+   * Ends the turn for the current unit and advances to the next, skipping dead units
+   * (online, once the server accepts it). The next turn is rendered through the TurnStarted event.
    */
   public endTurn() {
-    const unit = this.turnManager.getCurrentUnit();
-    if (unit && unit.isAlive()) {
-      unit.updateEndOfTurnStates();
-    }
-    this.turnManager.endTurn();
-    this.startTurn();
+    const unit = this.simulator.state.currentUnit;
+    if (unit) this.scene.submitCommand({ type: 'endTurn', unitId: unit.id });
+  }
+
+  /** Freezes the board; the scene then hands over to the results scene */
+  private showBattleResult(result: BattleResult) {
+    this.scene.ui.setEndTurnButtonVisible(false);
+    this.scene.ui.setUndoButtonVisible(false);
+    this.scene.gridView.clearHighlights();
+    this.scene.spellRangeLayer.clear();
+    this.scene.moveRangeLayer.clear();
+    this.scene.showResults(result);
+  }
+
+  /** Floating text for damage/heal-over-time ticks (the tick happens outside of any effect) */
+  private showStateTick(unit: Unit, stateType: string, amount: number) {
+    const color = stateType === 'poison' ? '#8e44ad' : '#3ecf4a';
+    const text = amount < 0 ? `${amount} HP` : `+${amount} HP`;
+    this.scene.battleUI.showFloatingText(unit, text, color);
+  }
+
+  /** Ensures UI reflects AP/HP changes immediately after a turn starts */
+  private refreshTurnVisuals() {
+    const unit = this.simulator.state.currentUnit;
+    this.scene.battleUI.updateUnitSprites();
+    this.scene.updateTurnLabel();
+    this.scene.createSpellBar();
+    this.scene.updateTimeline();
+    this.scene.updateReachableAndHighlights();
+    // The AI ends its own turns
+    this.scene.ui.setEndTurnButtonVisible(!unit || !this.scene.isAIControlled(unit));
+    this.scene.battleUI.updateUndoButton();
   }
-} 
\ No newline at end of file
+}
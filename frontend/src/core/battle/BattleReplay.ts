@@ -0,0 +1,149 @@
+// BattleReplay.ts
+// Deterministic command log of a battle and its replay. The log is the battle as it was when the first
+// turn started (a BattleSave, which holds the seed and RNG position) plus every accepted command in order.
+// Replaying loads that save and executes the commands again through the same rules (BattleSimulator).
+
+import type { EffectContext } from '@core/effects';
+
+import { cloneCommand, isBattleCommand } from './BattleCommands';
+import type { BattleCommand } from './BattleCommands';
+import { loadBattle, saveBattle } from './BattleSave';
+import type { BattleSave, SaveExtras } from './BattleSave';
+import { BattleSimulator } from './BattleSimulator';
+import type { BattleState } from './BattleState';
+
+/** Version of the log wrapper; the initial state has its own (BattleSave.version) */
+export const REPLAY_VERSION = 1;
+
+export interface BattleReplayLog {
+  replayVersion: number;
+  initial: BattleSave;
+  commands: BattleCommand[];
+}
+
+/** Thrown when a command of the log is rejected on replay (the log does not match the rules or the setup) */
+export class ReplayError extends Error {
+  constructor(
+    public readonly index: number,
+    public readonly command: BattleCommand
+  ) {
+    super(`Replay diverged: command #${index} (${command.type} by ${command.unitId}) was rejected`);
+    this.name = 'ReplayError';
+  }
+}
+
+/** True if the data looks like a replay log rather than a plain save and every command has a valid shape */
+export function isReplayLog(data: unknown): data is BattleReplayLog {
+  if (typeof data !== 'object' || data === null || !('replayVersion' in data)) return false;
+  const { commands } = data as { commands?: unknown };
+  return Array.isArray(commands) && commands.every(isBattleCommand);
+}
+
+/**
+ * Records the commands of a battle. The initial state is captured when the recorder is created if the
+ * turns already started, otherwise when the placement phase ends (placement itself is part of the setup).
+ * Create it before anything else subscribes to the simulator so it captures the state before the first turn.
+ */
+export class CommandRecorder {
+  private initial: BattleSave | null = null;
+  private commands: BattleCommand[] = [];
+  private unsubscribers: (() => void)[] = [];
+
+  constructor(
+    private simulator: BattleSimulator,
+    private extras: SaveExtras = {}
+  ) {
+    if (simulator.state.turnManager.hasStarted()) {
+      this.capture();
+    } else {
+      this.unsubscribers.push(simulator.on('PlacementEnded', () => this.capture()));
+    }
+    this.unsubscribers.push(
+      simulator.on('CommandExecuted', ({ command }) => {
+        if (this.initial) this.commands.push(cloneCommand(command));
+      })
+    );
+  }
+
+  /** The log so far, or null before the initial state was captured */
+  getLog(): BattleReplayLog | null {
+    if (!this.initial) return null;
+    return {
+      replayVersion: REPLAY_VERSION,
+      initial: this.initial,
+      commands: this.commands.map(cloneCommand)
+    };
+  }
+
+  /** Stops recording */
+  dispose() {
+    for (const unsubscribe of this.unsubscribers) unsubscribe();
+    this.unsubscribers = [];
+  }
+
+  private capture() {
+    if (this.initial) return;
+    this.initial = saveBattle(this.simulator.state, { ...this.extras, victoryConditions: this.simulator.victoryConditions });
+  }
+}
+
+/**
+ * Headless replay of a log. Nothing happens until the first step (or start()), so a scene can subscribe
+ * to the simulator first. Steps only go forward; seeking backwards means building a new replay.
+ */
+export class BattleReplay {
+  readonly state: BattleState;
+  readonly simulator: BattleSimulator;
+  private position: number = 0;
+
+  /** @throws BattleSaveError if the initial state of the log is invalid */
+  constructor(
+    readonly log: BattleReplayLog,
+    options: { effectContext?: Partial<EffectContext> } = {}
+  ) {
+    const loaded = loadBattle(log.initial);
+    this.state = loaded.state;
+    this.simulator = new BattleSimulator(this.state, {
+      effectContext: options.effectContext,
+      victoryConditions: loaded.victoryConditions
+    });
+  }
+
+  /** Number of commands already executed */
+  getPosition(): number {
+    return this.position;
+  }
+
+  getLength(): number {
+    return this.log.commands.length;
+  }
+
+  isFinished(): boolean {
+    return this.position >= this.log.commands.length;
+  }
+
+  /** Starts the first turn (or announces the saved one); steps call it if needed */
+  start() {
+    if (!this.state.turnManager.hasStarted()) this.simulator.start();
+  }
+
+  /**
+   * Executes the next command.
+   * @returns the command, or null at the end of the log
+   * @throws ReplayError if the command is rejected
+   */
+  step(): BattleCommand | null {
+    if (this.isFinished()) return null;
+    this.start();
+    const command = this.log.commands[this.position];
+    if (!this.simulator.execute(cloneCommand(command))) throw new ReplayError(this.position, command);
+    this.position++;
+    return command;
+  }
+
+  /** Executes commands until `position` commands were played (clamped to the log) */
+  stepTo(position: number) {
+    const target = Math.min(position, this.log.commands.length);
+    while (this.position < target) this.step();
+  }
+}
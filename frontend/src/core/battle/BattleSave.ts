@@ -0,0 +1,345 @@
+// BattleSave.ts
+// Saves a battle to plain JSON and rebuilds it: units (stats, states, spell usage and cooldowns, positions),
+// terrain, turn rotation and the RNG position. Saves are self-contained (spells and passives are stored with their
+// definitions) so a tester's save replays the same battle even if the class data changed since.
+// Every save has a version; older saves are upgraded step by step by SAVE_MIGRATIONS before loading.
+
+import type { Arena } from '@core/Arena';
+import type { Resistances } from '@core/Damage';
+import { parsePassive, parseSpell } from '@core/data/ClassLoader';
+import { Checker } from '@core/data/DataChecker';
+import type { DataIssue, Json } from '@core/data/DataChecker';
+import { MapGrid } from '@core/MapGrid';
+import type { Position } from '@core/MapGrid';
+import type { Passive } from '@core/Passive';
+import { Spell } from '@core/Spell';
+import type { SpellConfig } from '@core/Spell';
+import { isTerrainKind } from '@core/Terrain';
+import type { TerrainKind } from '@core/Terrain';
+import type { TurnManagerSnapshot } from '@core/TurnManager';
+import { Unit } from '@core/Unit';
+import type { State, UnitType } from '@core/Unit';
+
+import { BattleState } from './BattleState';
+import { checkCompositionData } from './TeamComposition';
+import type { TeamComposition } from './TeamComposition';
+import type { VictoryCondition } from './VictoryConditions';
+
+/** Version written by saveBattle; bump it (and add a migration) whenever the format changes */
+export const SAVE_VERSION = 1;
+
+/**
+ * Upgrades a save from version N to N+1, keyed by N.
+ * Migrations work on raw JSON so they never depend on the current classes.
+ */
+export type SaveMigration = (save: Json) => Json;
+export const SAVE_MIGRATIONS: Record<number, SaveMigration> = {};
+
+export interface SavedSpell extends SpellConfig {
+  cooldownCounter: number;
+}
+
+export interface SavedUnit {
+  id: string;
+  name: string;
+  type: UnitType;
+  team: number;
+  position: Position;
+  hp: number;
+  maxHP: number;
+  ap: number;
+  maxAP: number;
+  mp: number;
+  maxMP: number;
+  initiative: number;
+  /** Tackle stats; 0 when missing */
+  agility?: number;
+  lock?: number;
+  color?: number;
+  resistances: Resistances;
+  shouldRestoreAP: boolean;
+  /** Active states without their runtime hooks */
+  states: State[];
+  castsThisTurn: Record<string, number>;
+  spells: SavedSpell[];
+  passive?: Passive;
+}
+
+export interface BattleSave {
+  version: number;
+  /** ISO date, informative only */
+  savedAt: string;
+  seed: number;
+  /** Position of the seeded generator (see SeededRandom.getState) */
+  rngState: number;
+  map: { width: number; height: number; terrain: TerrainKind[][] };
+  units: SavedUnit[];
+  turns: TurnManagerSnapshot;
+  victoryConditions?: VictoryCondition[];
+  /** Arena the battle is played in, so the scene can draw its decorations and start cells */
+  arena?: Arena;
+  /** Teams drafted for the battle (who plays them and their classes), for the AI and rematches */
+  composition?: TeamComposition;
+}
+
+export interface SaveExtras {
+  victoryConditions?: VictoryCondition[];
+  arena?: Arena;
+  composition?: TeamComposition;
+}
+
+export interface LoadedBattle {
+  state: BattleState;
+  victoryConditions?: VictoryCondition[];
+  arena?: Arena;
+  composition?: TeamComposition;
+}
+
+/** Thrown when a save cannot be migrated or loaded; lists every issue found, one per line */
+export class BattleSaveError extends Error {
+  constructor(
+    public readonly issues: DataIssue[]
+  ) {
+    super('Invalid battle save:\n' + issues.map(i => `  ${i.path}: ${i.message}`).join('\n'));
+    this.name = 'BattleSaveError';
+  }
+}
+
+/** Captures a battle as JSON-compatible data */
+export function saveBattle(state: BattleState, extras: SaveExtras = {}): BattleSave {
+  const { map } = state;
+  const terrain: TerrainKind[][] = [];
+  for (let y = 0; y < map.height; y++) {
+    terrain.push(Array.from({ length: map.width }, (_, x) => map.getTerrain({ x, y })));
+  }
+  const save: BattleSave = {
+    version: SAVE_VERSION,
+    savedAt: new Date().toISOString(),
+    seed: state.seed,
+    rngState: state.rng.getState(),
+    map: { width: map.width, height: map.height, terrain },
+    units: state.units.map(saveUnit),
+    turns: state.turnManager.snapshot()
+  };
+  if (extras.victoryConditions) save.victoryConditions = extras.victoryConditions;
+  if (extras.arena) save.arena = extras.arena;
+  if (extras.composition) save.composition = extras.composition;
+  // Deep copy so later changes to the battle do not leak into the save
+  return JSON.parse(JSON.stringify(save));
+}
+
+/** Same as saveBattle, as indented JSON text */
+export function stringifyBattle(state: BattleState, extras: SaveExtras = {}): string {
+  return JSON.stringify(saveBattle(state, extras), null, 2);
+}
+
+/**
+ * Upgrades a save to the given version by running the migrations in order.
+ * @throws BattleSaveError if the save is newer than the target or a migration is missing
+ */
+export function migrateSave(data: unknown, migrations: Record<number, SaveMigration> = SAVE_MIGRATIONS, target: number = SAVE_VERSION): Json {
+  const checker = new Checker();
+  if (!checker.isObject(data, '$')) throw new BattleSaveError(checker.issues);
+  const version = checker.number(data, 'version', '$', { min: 1, integer: true });
+  if (version === undefined) throw new BattleSaveError(checker.issues);
+  if (version > target) {
+    throw new BattleSaveError([{ path: '$.version', message: `save version ${version} is newer than supported version ${target}` }]);
+  }
+  let save = data;
+  for (let v = version; v < target; v++) {
+    const migrate = migrations[v];
+    if (!migrate) {
+      throw new BattleSaveError([{ path: '$.version', message: `no migration from version ${v} to ${v + 1}` }]);
+    }
+    save = { ...migrate(save), version: v + 1 };
+  }
+  return save;
+}
+
+/**
+ * Rebuilds a battle from a save (migrating it first). The turn rotation resumes where it was saved:
+ * no turn is started and no event is published, call BattleSimulator.start() to announce the current turn.
+ * @throws BattleSaveError if the save is invalid
+ */
+export function loadBattle(data: unknown): LoadedBattle {
+  const save = migrateSave(data) as unknown as BattleSave;
+  checkSave(save);
+  try {
+    const map = new MapGrid(save.map.width, save.map.height);
+    save.map.terrain.forEach((row, y) => row.forEach((terrain, x) => map.setTerrain({ x, y }, terrain)));
+    const units = save.units.map(loadUnit);
+    const state = new BattleState({
+      width: save.map.width,
+      height: save.map.height,
+      map,
+      units,
+      seed: save.seed,
+      deferTurns: true
+    });
+    state.turnManager.restore(save.turns);
+    state.rng.setState(save.rngState);
+    return { state, victoryConditions: save.victoryConditions, arena: save.arena, composition: save.composition };
+  } catch (error) {
+    if (error instanceof BattleSaveError) throw error;
+    throw new BattleSaveError([{ path: '$', message: (error as Error).message }]);
+  }
+}
+
+/** Parses JSON text then loads it; syntax errors are reported as BattleSaveError too */
+export function parseBattle(text: string): LoadedBattle {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new BattleSaveError([{ path: '$', message: `invalid JSON (${(error as Error).message})` }]);
+  }
+  return loadBattle(data);
+}
+
+function saveUnit(unit: Unit): SavedUnit {
+  return {
+    id: unit.id,
+    name: unit.name,
+    type: unit.type,
+    team: unit.team,
+    position: { ...unit.position },
+    hp: unit.hp,
+    maxHP: unit.maxHP,
+    ap: unit.ap,
+    maxAP: unit.maxAP,
+    mp: unit.mp,
+    maxMP: unit.maxMP,
+    initiative: unit.initiative,
+    agility: unit.agility,
+    lock: unit.lock,
+    ...(unit.color !== undefined && { color: unit.color }),
+    resistances: unit.resistances,
+    shouldRestoreAP: unit.shouldRestoreAP,
+    states: unit.states.map(saveState),
+    castsThisTurn: { ...unit.castsThisTurn },
+    spells: unit.spells.map(spell => ({
+      name: spell.name,
+      cost: spell.cost,
+      range: spell.range,
+      minRange: spell.minRange,
+      maxCastsPerTurn: spell.maxCastsPerTurn,
+      targetType: spell.targetType,
+      effects: spell.effects,
+      ...(spell.cooldown !== undefined && { cooldown: spell.cooldown }),
+      requiresLineOfSight: spell.requiresLineOfSight,
+      ...(spell.area && { area: spell.area }),
+      cooldownCounter: spell.cooldownCounter
+    })),
+    ...(unit.passive && { passive: unit.passive })
+  };
+}
+
+/** applyEffect hooks are functions and cannot be saved */
+function saveState(state: State): State {
+  const saved = { ...state };
+  delete saved.applyEffect;
+  return saved;
+}
+
+function loadUnit(saved: SavedUnit): Unit {
+  const spells = saved.spells.map(({ cooldownCounter, ...config }) => {
+    const spell = new Spell(config);
+    spell.cooldownCounter = cooldownCounter;
+    return spell;
+  });
+  const unit = new Unit(saved.id, saved.name, saved.type, { ...saved.position }, saved.team, {
+    name: saved.name,
+    maxHP: saved.maxHP,
+    maxAP: saved.maxAP,
+    maxMP: saved.maxMP,
+    initiative: saved.initiative,
+    agility: saved.agility,
+    lock: saved.lock,
+    color: saved.color,
+    resistances: saved.resistances,
+    spells,
+    passive: saved.passive
+  });
+  unit.hp = saved.hp;
+  unit.ap = saved.ap;
+  unit.mp = saved.mp;
+  unit.shouldRestoreAP = saved.shouldRestoreAP;
+  unit.states = saved.states.map(state => ({ ...state }));
+  unit.castsThisTurn = { ...saved.castsThisTurn };
+  return unit;
+}
+
+/** Structural checks of a migrated save; reports every issue at once */
+function checkSave(save: BattleSave) {
+  const checker = new Checker();
+  const data = save as unknown as Json;
+  checker.number(data, 'seed', '$', { min: 0, integer: true });
+  checker.number(data, 'rngState', '$', { min: 0, integer: true });
+  let width: number | undefined;
+  let height: number | undefined;
+  if (checker.isObject(data.map, 'map')) {
+    width = checker.number(data.map, 'width', 'map', { min: 1, integer: true });
+    height = checker.number(data.map, 'height', 'map', { min: 1, integer: true });
+    const terrain = data.map.terrain;
+    if (checker.isArray(terrain, 'map.terrain') && width !== undefined && height !== undefined) {
+      const valid = terrain.length === height &&
+        terrain.every(row => Array.isArray(row) && row.length === width && row.every(isTerrainKind));
+      if (!valid) checker.fail('map.terrain', `must be ${height} rows of ${width} terrain kinds`);
+    }
+  }
+  if (checker.isArray(data.units, 'units')) {
+    const ids = new Set<string>();
+    // Cells of the living units, so two of them cannot share one
+    const cells = new Set<string>();
+    data.units.forEach((unit, i) => {
+      const path = `units[${i}]`;
+      if (!checker.isObject(unit, path)) return;
+      const id = checker.string(unit, 'id', path);
+      if (id !== undefined && ids.has(id)) checker.fail(`${path}.id`, `duplicate unit id "${id}"`);
+      if (id !== undefined) ids.add(id);
+      checker.number(unit, 'team', path, { min: 1, integer: true });
+      for (const stat of ['hp', 'maxHP', 'ap', 'maxAP', 'mp', 'maxMP']) {
+        checker.number(unit, stat, path, { min: 0 });
+      }
+      if (checker.isObject(unit.position, `${path}.position`)) {
+        const posPath = `${path}.position`;
+        const x = checker.number(unit.position, 'x', posPath, { min: 0, integer: true });
+        const y = checker.number(unit.position, 'y', posPath, { min: 0, integer: true });
+        if (x !== undefined && y !== undefined) {
+          if ((width !== undefined && x >= width) || (height !== undefined && y >= height)) {
+            checker.fail(posPath, `cell (${x},${y}) is outside the ${width}x${height} map`);
+          } else if (typeof unit.hp === 'number' && unit.hp > 0) {
+            if (cells.has(`${x},${y}`)) checker.fail(posPath, `cell (${x},${y}) already holds a living unit`);
+            cells.add(`${x},${y}`);
+          }
+        }
+      }
+      if (checker.isArray(unit.states, `${path}.states`)) {
+        unit.states.forEach((state, j) => {
+          const statePath = `${path}.states[${j}]`;
+          if (!checker.isObject(state, statePath)) return;
+          checker.string(state, 'id', statePath);
+          checker.string(state, 'type', statePath);
+          checker.number(state, 'duration', statePath);
+        });
+      }
+      if (checker.isArray(unit.spells, `${path}.spells`)) {
+        unit.spells.forEach((spell, j) => {
+          const spellPath = `${path}.spells[${j}]`;
+          if (!checker.isObject(spell, spellPath)) return;
+          // Same rules as the class data, plus the cooldown the spell was at
+          const { cooldownCounter, ...config } = spell;
+          checker.number({ cooldownCounter }, 'cooldownCounter', spellPath, { min: 0, integer: true });
+          parseSpell(checker, config, spellPath);
+        });
+      }
+      parsePassive(checker, unit, path);
+    });
+  }
+  if (checker.isObject(data.turns, 'turns')) {
+    checker.isArray(data.turns.order, 'turns.order');
+    checker.number(data.turns, 'currentIndex', 'turns', { min: 0, integer: true });
+  }
+  if (data.composition !== undefined) checkCompositionData(checker, data.composition, 'composition');
+  if (checker.issues.length > 0) throw new BattleSaveError(checker.issues);
+}
@@ -0,0 +1,49 @@
+// BattleSetup.ts
+// Builds the state of a new battle from an arena and the drafted teams (see TeamComposition).
+// Shared by the battle scene (local games) and the match server (online games).
+
+import { createMapGrid, getStartCells } from '@core/Arena';
+import type { Arena } from '@core/Arena';
+import type { ClassRegistry } from '@core/data/ClassRegistry';
+import { Unit } from '@core/Unit';
+
+import { BattleState } from './BattleState';
+import type { TeamComposition } from './TeamComposition';
+
+export interface BattleSetupOptions {
+  seed?: number;
+  /** Leaves the first turn to a placement phase (see PlacementPhase) */
+  deferTurns?: boolean;
+}
+
+/**
+ * One unit per drafted class, on the start cells of its team in order. Units of AI teams are of type
+ * 'enemy', the others 'player'. Ids are `t<team>-<n>` (n from 1, in draft order).
+ * @throws Error if a class is unknown or a team has more units than start cells
+ */
+export function createTeamBattleState(
+  arena: Arena,
+  registry: ClassRegistry,
+  composition: TeamComposition,
+  options: BattleSetupOptions = {}
+): BattleState {
+  const units = composition.teams.flatMap(plan => {
+    const cells = getStartCells(arena, plan.team);
+    if (plan.classes.length > cells.length) {
+      throw new Error(`Team ${plan.team} has ${plan.classes.length} units but ${arena.name} only has ${cells.length} start cells for it`);
+    }
+    return plan.classes.map((name, i) => {
+      const unitClass = registry.require(name);
+      const type = plan.controller === 'ai' ? 'enemy' : 'player';
+      return new Unit(`t${plan.team}-${i + 1}`, `${unitClass.name} (Team ${plan.team})`, type, { ...cells[i] }, plan.team, unitClass);
+    });
+  });
+  return new BattleState({
+    width: arena.width,
+    height: arena.height,
+    map: createMapGrid(arena),
+    units,
+    seed: options.seed ?? Date.now(),
+    deferTurns: options.deferTurns
+  });
+}
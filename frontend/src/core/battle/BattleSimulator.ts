@@ -0,0 +1,324 @@
+// BattleSimulator.ts
+// Headless rules engine for a battle. Validates and applies player actions on a BattleState
+// and publishes domain events on the state's BattleEventBus. It has no PixiJS or scene dependencies:
+// BattleScene (or a test, an AI, a server) subscribes to the events and reacts to them.
+
+import type { EffectContext } from '@core/effects';
+import type { Position } from '@core/Grid';
+import { getPathTackle, sumTackle } from '@core/Tackle';
+import type { Unit } from '@core/Unit';
+
+import type { BattleCommand } from './BattleCommands';
+import type { BattleEvent, BattleEventListener, BattleEventMap, BattleEventType } from './BattleEvents';
+import type { BattleState } from './BattleState';
+import { BattleStatsTracker } from './BattleStats';
+import { PassiveSystem } from './PassiveSystem';
+import { DEFAULT_VICTORY_CONDITIONS, evaluateVictory } from './VictoryConditions';
+import type { VictoryCondition } from './VictoryConditions';
+
+export interface BattleSimulatorOptions {
+  /**
+   * Extra context merged into every effect application (e.g. the scene for floating text).
+   * Leave empty to run fully headless.
+   */
+  effectContext?: Partial<EffectContext>;
+  /** Objectives checked after every death and at each new round; team elimination by default */
+  victoryConditions?: VictoryCondition[];
+}
+
+export type BattleResult = BattleEventMap['BattleEnded'];
+
+/** A move that can still be taken back: where the unit came from and the MP and AP it spent */
+interface UndoableMove {
+  unitId: string;
+  from: Position;
+  to: Position;
+  cost: number;
+  ap: number;
+}
+
+/**
+ * Events that keep the moves of the turn undoable: walking and undoing themselves.
+ * Anything else (a cast, an effect, a death, the end of the turn, revealed information...) may depend
+ * on where units stood, so it makes the moves before it final.
+ */
+function keepsMovesUndoable(event: BattleEvent): boolean {
+  switch (event.type) {
+    case 'UnitMoved':
+      return event.payload.kind === 'walk';
+    case 'MoveUndone':
+      return true;
+    case 'CommandExecuted':
+      return event.payload.command.type === 'move' || event.payload.command.type === 'undoMove';
+    default:
+      return false;
+  }
+}
+
+export class BattleSimulator {
+  readonly state: BattleState;
+  private effectContext: Partial<EffectContext>;
+  readonly victoryConditions: VictoryCondition[];
+  private stats: BattleStatsTracker;
+  private passives: PassiveSystem;
+  private ended: boolean = false;
+  private result: BattleResult | null = null;
+  private undoStack: UndoableMove[] = [];
+
+  constructor(state: BattleState, options: BattleSimulatorOptions = {}) {
+    this.state = state;
+    this.effectContext = options.effectContext ?? {};
+    this.victoryConditions = options.victoryConditions ?? DEFAULT_VICTORY_CONDITIONS;
+    this.stats = new BattleStatsTracker(this.state.events);
+    this.passives = new PassiveSystem(this.state, () => this.effectContext);
+    // Round-based objectives are checked before the first turn of the new round starts
+    this.state.events.on('RoundStarted', () => this.checkVictory());
+    // Damage over time can kill outside of a cast (at turn boundaries)
+    this.state.events.on('StateTicked', ({ unit }) => {
+      if (!unit.isAlive()) this.resolveDeaths();
+    });
+    this.state.events.onAny(event => {
+      if (!keepsMovesUndoable(event)) this.undoStack = [];
+    });
+  }
+
+  /** Subscribes to a battle event. Returns a function that removes the listener. */
+  on<K extends BattleEventType>(type: K, listener: BattleEventListener<K>): () => void {
+    return this.state.events.on(type, listener);
+  }
+
+  /**
+   * Announces the current turn to subscribers.
+   * Unless turns were deferred, TurnManager already started the first turn when the state was built
+   * (before anyone could subscribe), so this only publishes TurnStarted again. With deferred turns
+   * (placement phase) this starts the first turn.
+   * Turn start passives only go off for turns that actually start, not for the announcement.
+   */
+  start() {
+    if (!this.state.turnManager.hasStarted()) {
+      this.state.turnManager.begin();
+      this.resolvePassives();
+      return;
+    }
+    const unit = this.state.currentUnit;
+    if (unit) {
+      this.state.events.emit('TurnStarted', {
+        unit,
+        turnNumber: this.state.turnManager.getTurnNumber(),
+      });
+      this.passives.discard();
+    }
+  }
+
+  /**
+   * Moves a unit along a path of orthogonal steps, consuming the terrain's MP cost for each step.
+   * Steps out of cells next to enemies also cost the tackle (see Tackle.ts): its MP must be paid,
+   * its AP is lost as far as the unit has any.
+   * @returns true if the move was valid and applied
+   */
+  move(unitId: string, path: Position[]): boolean {
+    const unit = this.getActingUnit(unitId);
+    if (!unit || this.ended || path.length === 0) return false;
+
+    let prev = unit.position;
+    for (const step of path) {
+      const dist = Math.abs(step.x - prev.x) + Math.abs(step.y - prev.y);
+      if (dist !== 1) return false;
+      if (!this.state.map.isWalkable(step) || this.state.map.isOccupied(step)) return false;
+      prev = step;
+    }
+    const tackle = sumTackle(getPathTackle(unit, path, this.state.map));
+    const cost = this.state.grid.getPathCost(path, this.state.map) + tackle.mp;
+    if (cost > unit.mp) return false;
+
+    const from = { ...unit.position };
+    const to = path[path.length - 1];
+    const apLost = Math.min(unit.ap, tackle.ap);
+    this.state.map.setOccupied(unit.position, null);
+    unit.position = { ...to };
+    unit.mp -= cost;
+    unit.ap -= apLost;
+    this.state.map.setOccupied(unit.position, unit);
+    this.undoStack.push({ unitId, from: { ...from }, to: { ...to }, cost, ap: apLost });
+
+    this.state.events.emit('UnitMoved', {
+      unit,
+      from,
+      to: { ...to },
+      path: path.map(p => ({ ...p })),
+      kind: 'walk',
+      ...(tackle.mp + apLost > 0 && { tackle: { mp: tackle.mp, ap: apLost } }),
+    });
+    this.state.events.emit('CommandExecuted', { command: { type: 'move', unitId, path: path.map(p => ({ ...p })) } });
+    this.resolvePassives();
+    return true;
+  }
+
+  /** True if the unit is acting and its last move of the turn can still be taken back */
+  canUndoMove(unitId: string): boolean {
+    const last = this.undoStack[this.undoStack.length - 1];
+    return !this.ended && !!last && last.unitId === unitId && !!this.getActingUnit(unitId);
+  }
+
+  /**
+   * Takes back the unit's last move of the turn: position, MP, AP lost to tackle and map occupancy are restored.
+   * Moves can be undone one after the other, until a cast or any effect made them final.
+   * @returns false if there is nothing to undo
+   */
+  undoMove(unitId: string): boolean {
+    if (!this.canUndoMove(unitId)) return false;
+    const unit = this.getActingUnit(unitId);
+    const move = this.undoStack[this.undoStack.length - 1];
+    if (!unit || this.state.map.isOccupied(move.from)) return false;
+    this.undoStack.pop();
+
+    this.state.map.setOccupied(unit.position, null);
+    unit.position = { ...move.from };
+    unit.mp += move.cost;
+    unit.ap += move.ap;
+    this.state.map.setOccupied(unit.position, unit);
+
+    this.state.events.emit('MoveUndone', { unit, from: { ...move.to }, to: { ...move.from }, mp: move.cost, ap: move.ap });
+    this.state.events.emit('CommandExecuted', { command: { type: 'undoMove', unitId } });
+    return true;
+  }
+
+  /**
+   * Casts one of the unit's spells on a cell. The target unit (if any) is resolved from the cell.
+   * @returns true if the spell was valid and at least one effect was applied
+   */
+  cast(unitId: string, spellName: string, cell: Position): boolean {
+    const caster = this.getActingUnit(unitId);
+    if (!caster || this.ended) return false;
+    const spell = caster.spells.find(s => s.name === spellName);
+    if (!spell || caster.ap < spell.cost) return false;
+
+    // Cooldown and casts-per-turn limits
+    const casts = caster.castsThisTurn[spell.name] ?? 0;
+    if (spell.cooldownCounter && spell.cooldownCounter > 0) return false;
+    if (spell.maxCastsPerTurn !== -1 && casts >= spell.maxCastsPerTurn) return false;
+
+    const target = this.state.getUnitAt(cell);
+    const context: EffectContext = {
+      ...this.effectContext,
+      events: this.state.events,
+      map: this.state.map,
+      cellPosition: { ...cell },
+    };
+    if (!spell.canCast(caster, target, context)) return false;
+
+    const result = spell.cast(caster, target, context);
+    if (!result) return false;
+
+    caster.castsThisTurn[spell.name] = casts + 1;
+    this.state.events.emit('SpellCast', { caster, spell, cell: { ...cell }, target });
+    this.state.events.emit('CommandExecuted', { command: { type: 'cast', unitId, spell: spellName, cell: { ...cell } } });
+    this.resolveDeaths();
+    this.resolvePassives();
+    return true;
+  }
+
+  /**
+   * Ends the current unit's turn: applies end-of-turn ticks, processes its state durations
+   * and cooldowns, then advances TurnManager to the next alive unit.
+   */
+  endTurn() {
+    if (this.ended) return;
+    const unit = this.state.currentUnit;
+    if (unit) {
+      this.state.events.emit('CommandExecuted', { command: { type: 'endTurn', unitId: unit.id } });
+      unit.triggerEndOfTurnEffects();
+      if (unit.isAlive()) {
+        unit.updateEndOfTurnStates();
+      }
+    }
+    if (this.ended) return;
+    // TurnManager publishes TurnEnded and the next TurnStarted
+    this.state.turnManager.endTurn();
+    this.resolvePassives();
+  }
+
+  /**
+   * Executes a command as if its unit had performed it (replays, remote players).
+   * @returns false if the command was rejected (not the unit's turn, invalid path or target...)
+   */
+  execute(command: BattleCommand): boolean {
+    switch (command.type) {
+      case 'move':
+        return this.move(command.unitId, command.path);
+      case 'cast':
+        return this.cast(command.unitId, command.spell, command.cell);
+      case 'undoMove':
+        return this.undoMove(command.unitId);
+      case 'endTurn': {
+        if (this.ended || !this.getActingUnit(command.unitId)) return false;
+        this.endTurn();
+        return true;
+      }
+    }
+  }
+
+  /** Replaces the extra effect context, e.g. once a battle simulated headless is shown in a scene */
+  setEffectContext(effectContext: Partial<EffectContext>) {
+    this.effectContext = effectContext;
+  }
+
+  /** Returns true once the battle has ended (no more actions are accepted) */
+  isEnded(): boolean {
+    return this.ended;
+  }
+
+  /** Returns the winner and stats once the battle has ended, null before */
+  getResult(): BattleResult | null {
+    return this.result;
+  }
+
+  /** Returns the unit if it exists, is alive and is the one whose turn is active. */
+  private getActingUnit(unitId: string): Unit | null {
+    if (!this.state.turnManager.hasStarted()) return null;
+    const current = this.state.currentUnit;
+    if (!current || current.id !== unitId || !current.isAlive()) return null;
+    return current;
+  }
+
+  /**
+   * Frees the cells of units that died and publishes UnitDied once per death,
+   * then checks the victory conditions.
+   */
+  private resolveDeaths() {
+    for (const unit of this.state.units) {
+      if (unit.isAlive()) continue;
+      if (this.state.map.getOccupant(unit.position) !== unit) continue;
+      this.state.map.setOccupied(unit.position, null);
+      this.state.events.emit('UnitDied', { unit, position: { ...unit.position } });
+    }
+    this.checkVictory();
+  }
+
+  /**
+   * Applies the passives set off by the last action (after its deaths, so kills are known),
+   * then resolves the deaths they caused
+   */
+  private resolvePassives() {
+    if (this.ended) {
+      this.passives.discard();
+      return;
+    }
+    if (this.passives.resolve()) this.resolveDeaths();
+  }
+
+  /** Ends the battle and publishes BattleEnded if a victory condition is met */
+  private checkVictory() {
+    if (this.ended) return;
+    const { turnManager } = this.state;
+    const outcome = evaluateVictory(this.victoryConditions, this.state, turnManager.getRoundNumber());
+    if (!outcome) return;
+    this.ended = true;
+    turnManager.stop();
+    this.result = {
+      ...outcome,
+      stats: this.stats.snapshot(this.state.units, turnManager.getRoundNumber(), turnManager.getTurnNumber()),
+    };
+    this.state.events.emit('BattleEnded', this.result);
+  }
+}
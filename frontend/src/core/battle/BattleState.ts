@@ -0,0 +1,91 @@
+// BattleState.ts
+// Pure battle state: owns the units, the logical map, the pathfinding grid and the turn order.
+// This class has no rendering dependencies so it can be used in Node tests, AI search or on a server.
+
+import { Grid } from '@core/Grid';
+import type { Position } from '@core/Grid';
+import { MapGrid } from '@core/MapGrid';
+import { SeededRandom, randomSeed } from '@core/Random';
+import { TurnManager } from '@core/TurnManager';
+import type { Unit } from '@core/Unit';
+
+import { BattleEventBus } from './BattleEvents';
+
+export interface BattleStateOptions {
+  width: number;
+  height: number;
+  units: Unit[];
+  /** Event bus to publish to; a new one is created when omitted */
+  events?: BattleEventBus;
+  /** Seed for every roll of the battle (initiative ties...); random when omitted */
+  seed?: number;
+  /** Prebuilt map with its terrain (see Arena.createMapGrid); must be width x height. An empty floor map when omitted */
+  map?: MapGrid;
+  /** Keeps turns from starting until BattleSimulator.start(), so units can be placed first (see PlacementPhase) */
+  deferTurns?: boolean;
+}
+
+export class BattleState {
+  readonly units: Unit[];
+  readonly map: MapGrid;
+  readonly grid: Grid;
+  readonly turnManager: TurnManager;
+  readonly events: BattleEventBus;
+  readonly rng: SeededRandom;
+
+  constructor(options: BattleStateOptions) {
+    this.units = options.units;
+    this.events = options.events ?? new BattleEventBus();
+    this.rng = new SeededRandom(options.seed ?? randomSeed());
+    if (options.map && (options.map.width !== options.width || options.map.height !== options.height)) {
+      throw new Error(`Map is ${options.map.width}x${options.map.height}, expected ${options.width}x${options.height}`);
+    }
+    this.map = options.map ?? new MapGrid(options.width, options.height);
+    this.grid = new Grid(options.width, options.height);
+    for (const unit of this.units) {
+      // Dead units (loaded saves) stay in the list but free their cell
+      if (unit.isAlive()) this.map.setOccupied(unit.position, unit);
+      unit.events = this.events;
+    }
+    this.turnManager = new TurnManager(this.units, this.events, this.rng, !options.deferTurns);
+  }
+
+  /** Seed the battle was created with (saved with the battle to replay the same rolls) */
+  get seed(): number {
+    return this.rng.seed;
+  }
+
+  /** Returns the unit whose turn is active, or null if no unit is alive. */
+  get currentUnit(): Unit | null {
+    return this.turnManager.getCurrentUnit();
+  }
+
+  /** Returns the unit with the given id, if any. */
+  getUnit(id: string): Unit | undefined {
+    return this.units.find(u => u.id === id);
+  }
+
+  /** Returns the alive unit standing on the given cell, if any. */
+  getUnitAt(pos: Position): Unit | null {
+    const occupant = this.map.getOccupant(pos);
+    return occupant && occupant.isAlive() ? occupant : null;
+  }
+
+  /**
+   * Adds a unit after the battle started (summons): places it on the map and in the turn order.
+   * @returns false if the cell is not walkable or already occupied
+   */
+  addUnit(unit: Unit): boolean {
+    if (!this.map.isWalkable(unit.position) || this.map.isOccupied(unit.position)) return false;
+    this.map.setOccupied(unit.position, unit);
+    unit.events = this.events;
+    this.turnManager.addUnit(unit);
+    this.events.emit('UnitSummoned', { unit, position: { ...unit.position } });
+    return true;
+  }
+
+  /** Returns all units that are still alive. */
+  getAliveUnits(): Unit[] {
+    return this.units.filter(u => u.isAlive());
+  }
+}
@@ -0,0 +1,67 @@
+// BattleStats.ts
+// Collects per-unit statistics from battle events for the end-of-battle results.
+
+import type { Unit } from '@core/Unit';
+
+import type { BattleEventBus } from './BattleEvents';
+
+export interface UnitBattleStats {
+  unitId: string;
+  name: string;
+  team: number;
+  alive: boolean;
+  damageDealt: number;
+  damageTaken: number;
+  healingDone: number;
+  kills: number;
+}
+
+export interface BattleStats {
+  rounds: number;
+  turns: number;
+  units: UnitBattleStats[];
+}
+
+export class BattleStatsTracker {
+  private byUnit: Map<string, Omit<UnitBattleStats, 'name' | 'team' | 'alive'>> = new Map();
+  // Last unit that damaged each unit, credited with the kill when it dies
+  private lastHitBy: Map<string, Unit> = new Map();
+
+  constructor(events: BattleEventBus) {
+    events.on('DamageDealt', ({ source, target, amount }) => {
+      if (source) this.entry(source).damageDealt += amount;
+      this.entry(target).damageTaken += amount;
+      if (source && amount > 0 && source !== target) this.lastHitBy.set(target.id, source);
+    });
+    events.on('HealApplied', ({ source, amount }) => {
+      if (source) this.entry(source).healingDone += amount;
+    });
+    events.on('UnitDied', ({ unit }) => {
+      const killer = this.lastHitBy.get(unit.id);
+      if (killer) this.entry(killer).kills++;
+    });
+  }
+
+  /** Returns the stats of every unit, in the given order */
+  snapshot(units: Unit[], rounds: number, turns: number): BattleStats {
+    return {
+      rounds,
+      turns,
+      units: units.map(unit => ({
+        ...this.entry(unit),
+        name: unit.name,
+        team: unit.team,
+        alive: unit.isAlive()
+      }))
+    };
+  }
+
+  private entry(unit: Unit) {
+    let stats = this.byUnit.get(unit.id);
+    if (!stats) {
+      stats = { unitId: unit.id, damageDealt: 0, damageTaken: 0, healingDone: 0, kills: 0 };
+      this.byUnit.set(unit.id, stats);
+    }
+    return stats;
+  }
+}
@@ -1,7 +1,9 @@
 // BattleUI.ts
+import type { Position } from '@core/Grid';
 import type { Unit } from '@core/Unit';
-import type { UIManager } from '@ui/UIManager';
 import type { BattleScene } from '@scenes/BattleScene';
+import { FloatingText } from '@ui/FloatingText';
+import type { UIManager } from '@ui/UIManager';
 import { Container, Graphics, Text, Texture, Sprite } from 'pixi.js';
 
 export class BattleUI {
@@ -16,51 +18,87 @@ export class BattleUI {
 
     for (const unit of this.scene.units) {
       if (!unit.isAlive()) continue;
-      const sprite = this.scene.unitSprites.get(unit.id);
-      if (!sprite) continue;
-
-      sprite.x = unit.position.x * 64 + 32;
-      sprite.y = unit.position.y * 64 + 32;
-      sprite.alpha = unit.id === activeId ? 1 : 0.7;
-      sprite.tint  = unit.id === activeId ? 0xffffff : 0xcccccc;
-
-      const bar = this.scene.unitBars.get(unit.id);
-      if (!bar || !(bar instanceof Container)) continue;
-      bar.removeChildren();
-
-      const barWidth  = 44;
-      const barHeight = 6;
-      const barX      = sprite.x - barWidth / 2;
-      let   barY      = sprite.y - 38;
-
-      const drawBar = (ratio: number, color: number) => {
-        const bg = new Sprite(Texture.WHITE);
-        bg.tint = 0x222222;
-        bg.alpha = 1;
-        bg.width = barWidth;
-        bg.height = barHeight;
-        bg.x = barX;
-        bg.y = barY;
-      
-        const fg = new Sprite(Texture.WHITE);
-        fg.tint = color;
-        fg.alpha = 1;
-        fg.width = barWidth * ratio;
-        fg.height = barHeight;
-        fg.x = barX;
-        fg.y = barY;
-      
-        const group = new Container();
-        group.addChild(bg);
-        group.addChild(fg);
-      
-        bar.addChild(group);
-      };
-      
-
-      drawBar(unit.hp / unit.maxHP, 0x3ecf4a);
+      this.placeUnit(unit, unit.position, activeId);
+    }
+  }
+
+  /**
+   * Moves a unit's sprite and bars cell by cell along a path, waiting stepMs between cells.
+   * Only the visuals move; the logical position is owned by the simulator.
+   */
+  public async animateUnitAlongPath(unit: Unit, path: Position[], stepMs: number = 200) {
+    const activeId = this.scene.turnManager.getCurrentUnit()?.id ?? '';
+    for (const step of path) {
+      if (this.scene.destroyed) return;
+      this.placeUnit(unit, step, activeId);
+      await new Promise(res => setTimeout(res, stepMs));
+    }
+  }
+
+  /** Positions a unit's sprite on a cell and redraws its HP/AP (and shield, if any) bars above it. */
+  private placeUnit(unit: Unit, pos: Position, activeId: string) {
+    const sprite = this.scene.unitSprites.get(unit.id);
+    if (!sprite) return;
+
+    const { cellSize } = this.scene.layout;
+    sprite.position.copyFrom(this.scene.layout.cellCenter(pos));
+    // Every unit is shown as active during the placement phase
+    const isActive = unit.id === activeId || this.scene.isPlacing();
+    sprite.alpha = isActive ? 1 : 0.7;
+    sprite.tint  = isActive ? 0xffffff : 0xcccccc;
+
+    const bar = this.scene.unitBars.get(unit.id);
+    if (!bar || !(bar instanceof Container)) return;
+    bar.removeChildren();
+
+    // Bars sized relative to the cell (44px wide, 38px above the center on 64px cells)
+    const barWidth  = Math.round(cellSize * 0.69);
+    const barHeight = 6;
+    const barOffset = Math.round(cellSize * 0.6);
+    const barX      = sprite.x - barWidth / 2;
+    let   barY      = sprite.y - barOffset;
+
+    const drawBar = (ratio: number, color: number) => {
+      const bg = new Sprite(Texture.WHITE);
+      bg.tint = 0x222222;
+      bg.alpha = 1;
+      bg.width = barWidth;
+      bg.height = barHeight;
+      bg.x = barX;
+      bg.y = barY;
+
+      const fg = new Sprite(Texture.WHITE);
+      fg.tint = color;
+      fg.alpha = 1;
+      fg.width = barWidth * ratio;
+      fg.height = barHeight;
+      fg.x = barX;
+      fg.y = barY;
+
+      const group = new Container();
+      group.addChild(bg);
+      group.addChild(fg);
+
+      bar.addChild(group);
+    };
+
+    drawBar(unit.hp / unit.maxHP, 0x3ecf4a);
+    barY -= barHeight + 2;
+    drawBar(unit.ap / unit.maxAP, 0x3a8fff);
+
+    // Shield bar, scaled against max HP, only while a shield is active
+    if (unit.shield > 0) {
       barY -= barHeight + 2;
-      drawBar(unit.ap / unit.maxAP, 0x3a8fff);
+      drawBar(Math.min(1, unit.shield / unit.maxHP), 0x9fd8ff);
+    }
+
+    // Gold diamond next to the HP bar on units marked by a "defeat the unit" objective
+    if (this.scene.isMarkedUnit(unit)) {
+      const hpBarY = sprite.y - barOffset + barHeight / 2;
+      const marker = new Graphics()
+        .poly([barX - 8, hpBarY - 5, barX - 3, hpBarY, barX - 8, hpBarY + 5, barX - 13, hpBarY])
+        .fill({ color: 0xffd54f });
+      bar.addChild(marker);
     }
   }
 
@@ -79,7 +117,7 @@ export class BattleUI {
     const btnW       = 120;
     const btnH       = 40;
     const spacing    = 24;
-    const canvasW    = 720;
+    const canvasW    = this.scene.screenSize.width;
     const totalWidth = spells.length * btnW + (spells.length - 1) * spacing;
 
     this.scene.spellBar.removeChildren();
@@ -96,7 +134,7 @@ export class BattleUI {
       const onCD         = !!(spell.cooldownCounter && spell.cooldownCounter > 0);
       const casts        = unit.castsThisTurn[spell.name] ?? 0;
       const maxReached   = spell.maxCastsPerTurn !== -1 && casts >= spell.maxCastsPerTurn;
-      const isEnabled    = hasAP && !onCD && !maxReached;
+      const isEnabled    = hasAP && !onCD && !maxReached && !this.scene.isAIControlled(unit);
       const isSelected   = i === unit.selectedSpellIdx;
 
       const btn = new Container();
@@ -155,7 +193,7 @@ export class BattleUI {
   }
 
   public positionSpellBar() {
-    let h = 880;
+    let h = this.scene.screenSize.height;
     const renderer = (this.scene.parent as any)?.renderer
                   || (this.scene as any).renderer;
     if (renderer?.screen) h = renderer.screen.height;
@@ -179,7 +217,7 @@ export class BattleUI {
     });
     dmg.anchor.set(0.5);
     dmg.x = sprite.x;
-    dmg.y = sprite.y - 32;
+    dmg.y = sprite.y - this.scene.layout.cellSize / 2;
     this.scene.unitLayer.addChild(dmg);
 
     setTimeout(() => {
@@ -187,7 +225,21 @@ export class BattleUI {
     }, 700);
   }
 
+  /** Shows floating feedback text above a unit (used for event-driven feedback such as state ticks) */
+  public showFloatingText(unit: Unit, text: string, color: string) {
+    const sprite = this.scene.unitSprites.get(unit.id);
+    const { x, y } = sprite ?? this.scene.layout.cellCenter(unit.position);
+    FloatingText.show(this.scene.unitLayer, text, x, y - this.scene.layout.cellSize / 2, color);
+  }
+
   public updateEndTurnButton() {
-    this.ui.setEndTurnButtonVisible(true);
+    const unit = this.scene.turnManager.getCurrentUnit();
+    this.ui.setEndTurnButtonVisible(!unit || !this.scene.isAIControlled(unit));
+  }
+
+  /** Shows the undo button while the local player's last move of the turn can be taken back */
+  public updateUndoButton() {
+    const unit = this.scene.turnManager.getCurrentUnit();
+    this.ui.setUndoButtonVisible(!!unit && !this.scene.isAIControlled(unit) && this.scene.simulator.canUndoMove(unit.id));
   }
 }
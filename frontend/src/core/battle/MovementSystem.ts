@@ -2,18 +2,62 @@
 // Handles movement and pathfinding logic for the tactical RPG battle system.
 // This class is responsible for calculating reachable cells and moving units along paths.
 
-import type { Unit } from '@core/Unit';
 import type { Position, Grid } from '@core/Grid';
 import type { MapGrid } from '@core/MapGrid';
+import type { Spell } from '@core/Spell';
+import { getPathTackle, getTackleLeaveCost } from '@core/Tackle';
+import type { Unit } from '@core/Unit';
 import type { BattleScene } from '@scenes/BattleScene';
-import { BattleVisuals } from '../../scenes/BattleVisuals';
+
+import { BattleVisuals, BlockedLineOfSightColor } from '../../scenes/BattleVisuals';
+
+/** Forced movements are quicker than walking */
+const FORCED_MOVE_STEP_MS = 90;
 
 export class MovementSystem {
+  private unsubscribe: () => void;
+
   constructor(
     private scene: BattleScene,
     private grid: Grid,
     private map: MapGrid
-  ) {}
+  ) {
+    this.unsubscribe = this.scene.simulator.on('UnitMoved', ({ unit, path, kind, tackle }) => {
+      if (kind === 'walk') {
+        if (tackle) this.showTackle(unit, tackle.mp, tackle.ap);
+        void this.animateMove(unit, path);
+      } else if (kind === 'teleport') {
+        // Teleports snap to the destination cell
+        this.scene.battleUI.updateUnitSprites();
+      } else {
+        // Pushes, pulls, swaps and dashes slide cell by cell along their path
+        void this.animateMove(unit, path, FORCED_MOVE_STEP_MS);
+      }
+    });
+  }
+
+  /** Stops animating the simulator's moves (the scene is being destroyed) */
+  public dispose() {
+    this.unsubscribe();
+  }
+
+  /** Animates a unit sprite cell by cell along a path already applied by the simulator. */
+  private async animateMove(unit: Unit, path: Position[], stepMs?: number) {
+    this.scene.isMoving = true;
+    await this.scene.battleUI.animateUnitAlongPath(unit, path, stepMs);
+    // The scene may have been left during the animation
+    if (this.scene.destroyed) return;
+    this.scene.battleUI.updateUnitSprites();
+    this.updateReachableAndHighlights();
+    this.scene.isMoving = false;
+    this.scene.battleUI.updateEndTurnButton();
+  }
+
+  /** Floating text for the MP/AP a unit lost to enemy lock when it started walking */
+  private showTackle(unit: Unit, mp: number, ap: number) {
+    const lost = [mp > 0 ? `-${mp} MP` : '', ap > 0 ? `-${ap} AP` : ''].filter(Boolean).join(' ');
+    this.scene.battleUI.showFloatingText(unit, `Tackle ${lost}`, '#e67e22');
+  }
 
   /** Returns true if a cell is reachable for the given unit. */
   public isCellReachable(pos: Position, unit: Unit): boolean {
@@ -23,49 +67,50 @@ export class MovementSystem {
   /** Updates the reachable cells and highlights for the current unit/spell. Used by BattleScene. */
   public updateReachableAndHighlights() {
     const caster = this.scene.turnManager.getCurrentUnit();
-    const spell = caster.selectedSpell;
     this.scene.spellRangeLayer.clear();
     this.scene.moveRangeLayer.clear();
     this.scene.reachable = [];
+    if (!caster) return;
+    const spell = caster.selectedSpell;
     if (spell && caster.ap >= spell.cost) {
       // First, show all cells in spell range (Manhattan distance)
-      for (let x = 0; x < 10; x++) {
-        for (let y = 0; y < 10; y++) {
-          const pos = { x, y };
-          if (!this.isCellInSpellRange(caster, spell, pos)) continue;
-          // Show area of effect (all in range) with low alpha
-          BattleVisuals.highlightTargetCell(this.scene.spellRangeLayer, pos, 0x888888, 0.10);
+      for (const pos of this.scene.layout.cells()) {
+        if (!this.isCellInSpellRange(caster, spell, pos)) continue;
+        // Cells in range but hidden behind walls/units get their own tint
+        if (!spell.hasLineOfSight(caster, pos, { map: this.map })) {
+          BattleVisuals.highlightTargetCell(this.scene.spellRangeLayer, this.scene.layout, pos, BlockedLineOfSightColor, 0.30);
+          continue;
         }
+        // Show area of effect (all in range) with low alpha
+        BattleVisuals.highlightTargetCell(this.scene.spellRangeLayer, this.scene.layout, pos, 0x888888, 0.10);
       }
       // Now, highlight valid targets with effect color
-      for (let x = 0; x < 10; x++) {
-        for (let y = 0; y < 10; y++) {
-          const pos = { x, y };
-          if (!this.isCellInSpellRange(caster, spell, pos)) continue;
-          let isValid = false;
-          let color = 0xff4444;
-          let target = this.scene.units.find(u => u.position.x === x && u.position.y === y) || null;
-          // Handle empty cell targeting (teleport, etc.)
-          if ((spell.targetType === 'empty' || spell.targetType === 'unitOrEmpty') && !target && spell.canCast(caster, null, { map: this.map, cellPosition: pos })) {
-            isValid = true;
-            color = BattleVisuals.getTargetTint(spell.effects[0]?.type);
-          }
-          // Handle unit targeting (including self-heal)
-          if (target && spell.canCast(caster, target, { map: this.map, cellPosition: pos })) {
-            isValid = true;
-            const mainEffectType = spell.effects[0]?.type;
-            color = BattleVisuals.getTargetTint(mainEffectType);
-          }
-          if (isValid) {
-            this.scene.reachable.push({ x, y });
-            BattleVisuals.highlightTargetCell(this.scene.spellRangeLayer, pos, color, 0.32);
-          }
+      for (const pos of this.scene.layout.cells()) {
+        const { x, y } = pos;
+        if (!this.isCellInSpellRange(caster, spell, pos)) continue;
+        let isValid = false;
+        let color = 0xff4444;
+        let target = this.scene.units.find(u => u.position.x === x && u.position.y === y) || null;
+        // Handle empty cell targeting (teleport, etc.)
+        if ((spell.targetType === 'empty' || spell.targetType === 'unitOrEmpty') && !target && spell.canCast(caster, null, { map: this.map, cellPosition: pos })) {
+          isValid = true;
+          color = BattleVisuals.getTargetTint(spell.effects[0]?.type);
+        }
+        // Handle unit targeting (including self-heal)
+        if (target && spell.canCast(caster, target, { map: this.map, cellPosition: pos })) {
+          isValid = true;
+          const mainEffectType = spell.effects[0]?.type;
+          color = BattleVisuals.getTargetTint(mainEffectType);
+        }
+        if (isValid) {
+          this.scene.reachable.push({ x, y });
+          BattleVisuals.highlightTargetCell(this.scene.spellRangeLayer, this.scene.layout, pos, color, 0.32);
         }
       }
     } else {
-      this.scene.reachable = this.grid.getReachableCells(caster.position, caster.mp, this.map);
+      this.scene.reachable = this.grid.getReachableCells(caster.position, caster.mp, this.map, getTackleLeaveCost(caster, this.map));
       for (const cell of this.scene.reachable) {
-        BattleVisuals.highlightTargetCell(this.scene.moveRangeLayer, cell, 0x3a8fff, 0.18);
+        BattleVisuals.highlightTargetCell(this.scene.moveRangeLayer, this.scene.layout, cell, 0x3a8fff, 0.18);
       }
     }
     this.scene.gridView.showPath([]);
@@ -83,9 +128,9 @@ export class MovementSystem {
   public setupInteraction() {
     // Movement on the grid
     this.scene.gridView.on('pointermove', (e: any) => {
-      if (this.scene.isMoving) return;
+      if (this.scene.isMoving || this.scene.isPlacing()) return;
       const currentUnit = this.scene.turnManager.getCurrentUnit();
-      if (!currentUnit || !currentUnit.isAlive()) return;
+      if (!currentUnit || !currentUnit.isAlive() || this.scene.isAIControlled(currentUnit)) return;
       this.scene.battleUI.updateUnitSprites();
       this.updateReachableAndHighlights();
       const unit = currentUnit;
@@ -94,16 +139,23 @@ export class MovementSystem {
       const localY = e.global.y - this.scene.gameContainer.y;
       const mouseCell: Position | null = this.scene.gridView.getCellAtPixel(localX, localY);
       if (mouseCell) {
+        // Preview the area of effect around a valid target cell
+        if (selectedSpell?.area && this.isCellReachable(mouseCell, unit)) {
+          const color = BattleVisuals.getTargetTint(selectedSpell.effects[0]?.type);
+          for (const cell of selectedSpell.getAffectedCells(unit, mouseCell, this.map)) {
+            BattleVisuals.highlightTargetCell(this.scene.spellRangeLayer, this.scene.layout, cell, color, 0.45);
+          }
+        }
         // Highlight valid target using canCast
         if (selectedSpell && unit.ap >= selectedSpell.cost) {
           if (selectedSpell.effects[0]?.type === 'teleport') {
             const dummyTarget = { position: mouseCell } as Unit;
             if (selectedSpell.canCast(unit, dummyTarget)) {
-              BattleVisuals.highlightTargetCell(this.scene.spellRangeLayer, mouseCell, 0xf1c40f);
+              BattleVisuals.highlightTargetCell(this.scene.spellRangeLayer, this.scene.layout, mouseCell, 0xf1c40f);
             }
           } else {
             const target = this.scene.units.find(u => u.position.x === mouseCell.x && u.position.y === mouseCell.y);
-            if (target && target.isAlive() && selectedSpell.canCast(unit, target)) {
+            if (target && target.isAlive() && selectedSpell.canCast(unit, target, { map: this.map, cellPosition: mouseCell })) {
               const mainEffectType = selectedSpell.effects[0]?.type;
               let color = BattleVisuals.getTargetTint(mainEffectType);
               const sprite = this.scene.unitSprites.get(target.id);
@@ -113,10 +165,11 @@ export class MovementSystem {
         }
         // Path and movement highlights
         if (!selectedSpell && this.isCellReachable(mouseCell, unit)) {
-          const path = this.grid.findPath(unit.position, mouseCell, unit.mp, this.map);
+          const path = this.grid.findPath(unit.position, mouseCell, unit.mp, this.map, getTackleLeaveCost(unit, this.map));
           if (path && path.length > 0 && path.length <= unit.mp) {
             this.scene.currentPath = path;
-            this.scene.gridView.showPath(path);
+            // Steps out of enemy lock show what they cost
+            this.scene.gridView.showPath(path, getPathTackle(unit, path, this.map));
           } else {
             this.scene.gridView.showPath([]);
           }
@@ -129,16 +182,17 @@ export class MovementSystem {
     });
     // Clears spell range and highlights when leaving the grid
     this.scene.gridView.on('pointerout', () => {
+      if (this.scene.isPlacing()) return;
       this.scene.spellRangeLayer.clear();
       this.scene.moveRangeLayer.clear();
       this.scene.battleUI.updateUnitSprites();
       this.scene.gridView.showPath([]);
     });
     // Click on the grid for teleport, heal, or damage
-    this.scene.gridView.on('pointerdown', async (e: any) => {
-      if (this.scene.isMoving) return;
+    this.scene.gridView.on('pointerdown', (e: any) => {
+      if (this.scene.isMoving || this.scene.isPlacing()) return;
       const currentUnit = this.scene.turnManager.getCurrentUnit();
-      if (!currentUnit || !currentUnit.isAlive()) return;
+      if (!currentUnit || !currentUnit.isAlive() || this.scene.isAIControlled(currentUnit)) return;
       const caster = currentUnit;
       const spell = caster.selectedSpell;
       const localX = e.global.x - this.scene.gameContainer.x;
@@ -156,22 +210,10 @@ export class MovementSystem {
       }
       // Normal movement
       if (!spell && this.isCellReachable(pos, caster)) {
-        const path = this.grid.findPath(caster.position, pos, caster.mp, this.map);
+        const path = this.grid.findPath(caster.position, pos, caster.mp, this.map, getTackleLeaveCost(caster, this.map));
         if (path && path.length > 0 && path.length <= caster.mp) {
-          this.scene.isMoving = true;
-          this.map.setOccupied(caster.position, null);
-          let prevPos = caster.position;
-          await caster.moveTo(path, async (stepPos) => {
-            this.map.setOccupied(prevPos, null);
-            this.map.setOccupied(stepPos, caster);
-            prevPos = stepPos;
-            this.scene.battleUI.updateUnitSprites();
-            await new Promise(res => setTimeout(res, 200));
-          });
-          this.scene.battleUI.updateUnitSprites();
-          this.updateReachableAndHighlights();
-          this.scene.isMoving = false;
-          this.scene.battleUI.updateEndTurnButton();
+          // The simulator applies the move (online: once the server accepts it); the animation is driven by its UnitMoved event
+          this.scene.submitCommand({ type: 'move', unitId: caster.id, path });
         }
       }
     });
@@ -0,0 +1,59 @@
+// NetworkSystem.ts
+// Scene side of an online match: the scene's battle is a replica of the server's. Commands of the local
+// player are sent to the server (BattleScene.submitCommand) and only applied when the server broadcasts
+// them, through the scene's simulator so they are animated like local ones. After each one the replica
+// is compared with the server's hash; on a mismatch the scene is rebuilt from the server state.
+
+import type { MatchClient } from '@core/net/MatchClient';
+import { hashSave } from '@core/net/StateSync';
+import type { BattleScene } from '@scenes/BattleScene';
+
+import type { BattleCommand } from './BattleCommands';
+import { saveBattle } from './BattleSave';
+
+export class NetworkSystem {
+  private unsubscribers: (() => void)[] = [];
+
+  constructor(
+    private scene: BattleScene,
+    private client: MatchClient
+  ) {}
+
+  begin() {
+    this.unsubscribers.push(
+      this.client.on('update', ({ command, hash }) => {
+        const applied = this.scene.simulator.execute(command);
+        if (!applied || hashSave(saveBattle(this.scene.state)) !== hash) this.resync();
+      }),
+      // Reconnections and resyncs replace the whole state
+      this.client.on('snapshot', () => this.resync()),
+      this.client.on('rejected', ({ reason }) => this.scene.ui.showError(`Command rejected: ${reason}`)),
+      this.client.on('presence', ({ team, connected }) => {
+        this.scene.ui.showError(connected ? `Team ${team} is connected` : `Team ${team} lost its connection`);
+      }),
+      this.client.on('disconnected', ({ willReconnect }) => {
+        this.scene.ui.showError(willReconnect ? 'Connection lost, reconnecting...' : 'Connection lost');
+      })
+    );
+  }
+
+  /** Sends a command of the local player; false while disconnected */
+  send(command: BattleCommand): boolean {
+    return this.client.send(command);
+  }
+
+  /** Team played on this machine */
+  getLocalTeam(): number | null {
+    return this.client.team;
+  }
+
+  dispose() {
+    for (const unsubscribe of this.unsubscribers) unsubscribe();
+    this.unsubscribers = [];
+  }
+
+  private resync() {
+    this.dispose();
+    this.scene.requestOnline(this.client);
+  }
+}
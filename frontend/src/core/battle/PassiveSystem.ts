@@ -0,0 +1,123 @@
+// PassiveSystem.ts
+// Runs the class passives (see core/Passive.ts). Listeners only note which passives the battle events set
+// off; BattleSimulator calls resolve() once the action that caused them is over, so a passive never cuts
+// into the middle of a spell. Effects applied by passives do not set off other passives.
+
+import { EffectEngine } from '@core/EffectEngine';
+import type { EffectContext } from '@core/effects';
+import type { Position } from '@core/Grid';
+import type { PassiveTarget, PassiveTrigger } from '@core/Passive';
+import type { Unit } from '@core/Unit';
+
+import type { BattleState } from './BattleState';
+
+/** A passive waiting to be applied: its unit and the other unit of the trigger, if any */
+interface PendingPassive {
+  unit: Unit;
+  other: Unit | null;
+}
+
+function isAdjacent(a: Position, b: Position): boolean {
+  return Math.abs(a.x - b.x) + Math.abs(a.y - b.y) === 1;
+}
+
+export class PassiveSystem {
+  private pending: PendingPassive[] = [];
+  private resolving: boolean = false;
+
+  /**
+   * @param getEffectContext Extra context for the effects (e.g. the scene for floating text)
+   */
+  constructor(
+    private state: BattleState,
+    private getEffectContext: () => Partial<EffectContext> = () => ({})
+  ) {
+    const { events } = state;
+    events.on('DamageDealt', ({ source, target, amount, absorbed, hpBefore, hpAfter }) => {
+      if (amount + absorbed > 0) this.trigger('damaged', unit => unit === target, source);
+      if (source && hpBefore > 0 && hpAfter === 0) this.trigger('kill', unit => unit === source, target);
+    });
+    events.on('TurnStarted', ({ unit: current }) => this.trigger('turnStart', unit => unit === current, null));
+    events.on('HealApplied', ({ target, amount }) => {
+      if (amount <= 0) return;
+      this.trigger('allyHealed', unit => unit !== target && unit.isAllyOf(target), target);
+    });
+    events.on('UnitMoved', ({ unit: mover, from, to }) => {
+      this.trigger(
+        'enemyMovedAdjacent',
+        unit => unit.isEnemyOf(mover) && isAdjacent(unit.position, to) && !isAdjacent(unit.position, from),
+        mover
+      );
+    });
+  }
+
+  /**
+   * Applies the passives set off since the last call, in the order they were set off.
+   * @returns true if any passive went off
+   */
+  resolve(): boolean {
+    if (this.pending.length === 0) return false;
+    const pending = this.pending;
+    this.pending = [];
+    let applied = false;
+    this.resolving = true;
+    try {
+      for (const { unit, other } of pending) {
+        if (this.apply(unit, other)) applied = true;
+      }
+    } finally {
+      this.resolving = false;
+    }
+    return applied;
+  }
+
+  /** Forgets the passives set off so far (e.g. by a TurnStarted that only announces the current turn) */
+  discard() {
+    this.pending = [];
+  }
+
+  /** Notes the passives with this trigger of every alive unit matching `owns`; one per unit and other unit */
+  private trigger(trigger: PassiveTrigger, owns: (unit: Unit) => boolean, other: Unit | null) {
+    if (this.resolving) return;
+    for (const unit of this.state.units) {
+      if (unit.passive?.trigger !== trigger || !unit.isAlive() || !owns(unit)) continue;
+      if (this.pending.some(p => p.unit === unit && p.other === other)) continue;
+      this.pending.push({ unit, other });
+    }
+  }
+
+  private apply(unit: Unit, other: Unit | null): boolean {
+    const passive = unit.passive;
+    if (!passive || !unit.isAlive()) return false;
+    const targets = this.getTargets(unit, passive.target, other);
+    if (targets.length === 0) return false;
+
+    for (const target of targets) {
+      const context: EffectContext = {
+        ...this.getEffectContext(),
+        events: this.state.events,
+        map: this.state.map,
+        cellPosition: { ...target.position },
+        sourceSpell: passive.name,
+      };
+      for (const effect of passive.effects) {
+        EffectEngine.applyEffect(effect, unit, target, context);
+      }
+    }
+    this.state.events.emit('PassiveTriggered', { unit, passive: passive.name, targets });
+    return true;
+  }
+
+  private getTargets(unit: Unit, target: PassiveTarget, other: Unit | null): Unit[] {
+    switch (target) {
+      case 'self':
+        return [unit];
+      case 'other':
+        return other && other.isAlive() ? [other] : [];
+      case 'adjacentAllies':
+        return this.state.units.filter(u => u !== unit && u.isAlive() && u.isAllyOf(unit) && isAdjacent(u.position, unit.position));
+      case 'adjacentEnemies':
+        return this.state.units.filter(u => u.isAlive() && u.isEnemyOf(unit) && isAdjacent(u.position, unit.position));
+    }
+  }
+}
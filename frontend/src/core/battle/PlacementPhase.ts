@@ -0,0 +1,113 @@
+// PlacementPhase.ts
+// Headless pre-battle placement: each team puts its units on its start cells (moving or swapping them),
+// then locks its placement. Once every team is locked the phase ends and the first turn can start.
+// Requires a BattleState built with `deferTurns` so no turn is played while units are placed.
+
+import type { Position } from '@core/MapGrid';
+import type { Unit } from '@core/Unit';
+
+import type { BattleState } from './BattleState';
+
+export class PlacementPhase {
+  private startCells: Map<number, Position[]> = new Map();
+  private locked: Set<number> = new Set();
+  private ended: boolean = false;
+
+  /**
+   * Moves every unit that is not on one of its team's start cells onto the first free one.
+   * @param startCells Start cells by team (see Arena.startCells)
+   * @throws Error if a team has more units than start cells
+   */
+  constructor(
+    private state: BattleState,
+    startCells: Record<number, Position[]>
+  ) {
+    for (const team of this.getTeams()) {
+      const cells = (startCells[team] ?? []).map(c => ({ ...c }));
+      const units = this.getTeamUnits(team);
+      if (units.length > cells.length) {
+        throw new Error(`Team ${team} has ${units.length} units but only ${cells.length} start cells`);
+      }
+      this.startCells.set(team, cells);
+    }
+    for (const unit of this.state.getAliveUnits()) {
+      if (this.isStartCell(unit.team, unit.position)) continue;
+      const free = this.getStartCells(unit.team).find(c => !this.state.map.isOccupied(c));
+      if (free) this.relocate(unit, free);
+    }
+  }
+
+  /** Teams taking part in the battle, in ascending order */
+  getTeams(): number[] {
+    return [...new Set(this.state.units.map(u => u.team))].sort((a, b) => a - b);
+  }
+
+  /** Start cells of a team (empty for unknown teams) */
+  getStartCells(team: number): Position[] {
+    return this.startCells.get(team) ?? [];
+  }
+
+  isStartCell(team: number, cell: Position): boolean {
+    return this.getStartCells(team).some(c => c.x === cell.x && c.y === cell.y);
+  }
+
+  /** True while the unit may still be moved: placement running, unit alive and its team not locked */
+  canMove(unit: Unit): boolean {
+    return !this.ended && unit.isAlive() && !this.locked.has(unit.team);
+  }
+
+  /**
+   * Puts a unit on one of its team's start cells; a teammate already standing there takes the unit's old cell.
+   * @returns false if the unit cannot move or the cell is not a start cell of its team
+   */
+  place(unitId: string, cell: Position): boolean {
+    const unit = this.state.getUnit(unitId);
+    if (!unit || !this.canMove(unit) || !this.isStartCell(unit.team, cell)) return false;
+    if (unit.position.x === cell.x && unit.position.y === cell.y) return false;
+
+    const from = { ...unit.position };
+    const occupant = this.state.getUnitAt(cell);
+    if (occupant && occupant.team !== unit.team) return false;
+    this.state.map.setOccupied(from, null);
+    this.state.map.setOccupied(cell, null);
+    unit.position = { ...cell };
+    this.state.map.setOccupied(unit.position, unit);
+    if (occupant) {
+      occupant.position = { ...from };
+      this.state.map.setOccupied(occupant.position, occupant);
+    }
+    this.state.events.emit('UnitPlaced', { unit, from, to: { ...cell }, swappedWith: occupant });
+    return true;
+  }
+
+  /** Locks a team's placement; when the last team locks, the phase ends (PlacementEnded) */
+  lock(team: number) {
+    if (this.ended || this.locked.has(team) || !this.getTeams().includes(team)) return;
+    this.locked.add(team);
+    this.state.events.emit('PlacementLocked', { team });
+    if (this.getTeams().every(t => this.locked.has(t))) {
+      this.ended = true;
+      this.state.events.emit('PlacementEnded', { teams: this.getTeams() });
+    }
+  }
+
+  isLocked(team: number): boolean {
+    return this.locked.has(team);
+  }
+
+  /** True once every team locked its placement */
+  isOver(): boolean {
+    return this.ended;
+  }
+
+  private getTeamUnits(team: number): Unit[] {
+    return this.state.getAliveUnits().filter(u => u.team === team);
+  }
+
+  /** Moves a unit without publishing (initial spread onto the start cells) */
+  private relocate(unit: Unit, cell: Position) {
+    this.state.map.setOccupied(unit.position, null);
+    unit.position = { ...cell };
+    this.state.map.setOccupied(unit.position, unit);
+  }
+}
@@ -0,0 +1,125 @@
+// PlacementSystem.ts
+// Scene side of the pre-battle placement phase: highlights the start cells, lets players drag their units
+// onto them (dropping on a teammate swaps both) and locks each team with the Ready button.
+// Teams place one after the other; AI-controlled teams keep their initial placement and lock right away.
+
+import type { Position } from '@core/MapGrid';
+import type { Unit } from '@core/Unit';
+import type { BattleScene } from '@scenes/BattleScene';
+import type { FederatedPointerEvent } from 'pixi.js';
+
+import type { PlacementPhase } from './PlacementPhase';
+import { BattleVisuals } from '../../scenes/BattleVisuals';
+
+/** Start cell tint by team; other teams use the fallback */
+const TEAM_COLORS: Record<number, number> = { 1: 0x3a8fff, 2: 0xff5252 };
+const FALLBACK_TEAM_COLOR = 0xffd54f;
+
+export class PlacementSystem {
+  private dragged: Unit | null = null;
+  private unsubscribers: (() => void)[] = [];
+
+  constructor(
+    private scene: BattleScene,
+    private placement: PlacementPhase
+  ) {}
+
+  /** Team whose units can be dragged now: the first human team that has not locked yet */
+  public getPlacingTeam(): number | null {
+    return this.placement.getTeams().find(team => !this.placement.isLocked(team) && !this.isAITeam(team)) ?? null;
+  }
+
+  /** Shows the start cells and the Ready button; AI teams lock immediately */
+  public begin() {
+    this.unsubscribers.push(
+      this.scene.simulator.on('UnitPlaced', () => this.scene.battleUI.updateUnitSprites()),
+      this.scene.simulator.on('PlacementLocked', () => this.refresh()),
+      this.scene.simulator.on('PlacementEnded', () => this.end())
+    );
+    const gridView = this.scene.gridView;
+    gridView.on('pointerdown', this.onPointerDown);
+    gridView.on('pointermove', this.onPointerMove);
+    gridView.on('pointerup', this.onPointerUp);
+    gridView.on('pointerupoutside', this.onPointerUp);
+    this.scene.spellBar.visible = false;
+    this.scene.ui.onReadyClick(() => {
+      const team = this.getPlacingTeam();
+      if (team !== null) this.placement.lock(team);
+    });
+    this.refresh();
+    for (const team of this.placement.getTeams()) {
+      if (this.isAITeam(team)) this.placement.lock(team);
+    }
+  }
+
+  /** Redraws the start cells (the placing team's brighter) and updates the label and Ready button */
+  private refresh() {
+    const layer = this.scene.placementLayer;
+    layer.clear();
+    if (this.placement.isOver()) return;
+    const placing = this.getPlacingTeam();
+    for (const team of this.placement.getTeams()) {
+      const color = TEAM_COLORS[team] ?? FALLBACK_TEAM_COLOR;
+      for (const cell of this.placement.getStartCells(team)) {
+        BattleVisuals.highlightTargetCell(layer, this.scene.layout, cell, color, team === placing ? 0.4 : 0.15);
+      }
+    }
+    this.scene.battleUI.updateUnitSprites();
+    this.scene.ui.setReadyButtonVisible(placing !== null);
+    if (placing !== null) {
+      this.scene.ui.setTurnText(`Team ${placing}: drag your units onto the start cells`);
+    }
+  }
+
+  /** Removes the highlights and input handlers, and gives the board back to the battle */
+  private end() {
+    for (const unsubscribe of this.unsubscribers) unsubscribe();
+    this.unsubscribers = [];
+    const gridView = this.scene.gridView;
+    gridView.off('pointerdown', this.onPointerDown);
+    gridView.off('pointermove', this.onPointerMove);
+    gridView.off('pointerup', this.onPointerUp);
+    gridView.off('pointerupoutside', this.onPointerUp);
+    this.dragged = null;
+    this.scene.placementLayer.clear();
+    this.scene.spellBar.visible = true;
+    this.scene.ui.setReadyButtonVisible(false);
+  }
+
+  private isAITeam(team: number): boolean {
+    const units = this.scene.units.filter(u => u.team === team && u.isAlive());
+    return units.length > 0 && units.every(u => this.scene.isAIControlled(u));
+  }
+
+  /** Board pixel under the pointer */
+  private toBoard(e: FederatedPointerEvent): { x: number; y: number } {
+    return { x: e.global.x - this.scene.gameContainer.x, y: e.global.y - this.scene.gameContainer.y };
+  }
+
+  private cellAt(e: FederatedPointerEvent): Position | null {
+    const { x, y } = this.toBoard(e);
+    return this.scene.gridView.getCellAtPixel(x, y);
+  }
+
+  private onPointerDown = (e: FederatedPointerEvent) => {
+    const cell = this.cellAt(e);
+    const unit = cell ? this.scene.state.getUnitAt(cell) : null;
+    if (!unit || unit.team !== this.getPlacingTeam() || !this.placement.canMove(unit)) return;
+    this.dragged = unit;
+  };
+
+  private onPointerMove = (e: FederatedPointerEvent) => {
+    if (!this.dragged) return;
+    const sprite = this.scene.unitSprites.get(this.dragged.id);
+    if (sprite) sprite.position.copyFrom(this.toBoard(e));
+  };
+
+  private onPointerUp = (e: FederatedPointerEvent) => {
+    const unit = this.dragged;
+    if (!unit) return;
+    this.dragged = null;
+    const cell = this.cellAt(e);
+    // Invalid drops snap back to the unit's cell
+    if (!cell || !this.placement.place(unit.id, cell)) this.scene.battleUI.updateUnitSprites();
+  };
+}
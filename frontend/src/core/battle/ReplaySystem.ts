@@ -0,0 +1,85 @@
+// ReplaySystem.ts
+// Scene side of a replay: plays the command log through the scene's simulator with play/pause/step
+// controls, so the battle is rendered by the same event handlers as a live one.
+// Seeking rebuilds the scene at the requested position (see BattleScene.requestReplay).
+
+import type { BattleScene } from '@scenes/BattleScene';
+
+import type { BattleReplay } from './BattleReplay';
+
+// Pause between two commands while playing (ms); moves also wait for their animation
+const STEP_DELAY_MS = 700;
+const MOVE_POLL_MS = 100;
+
+export class ReplaySystem {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private scene: BattleScene,
+    private replay: BattleReplay
+  ) {}
+
+  /** Shows the replay controls; the scene announces the current turn itself */
+  begin() {
+    this.scene.ui.showReplayControls(this.replay.getLength(), {
+      onPlay: () => this.play(),
+      onPause: () => this.pause(),
+      onStep: () => {
+        this.pause();
+        this.step();
+      },
+      onSeek: position => this.scene.requestReplay(this.replay.log, position)
+    });
+    this.refresh();
+  }
+
+  isPlaying(): boolean {
+    return this.timer !== null;
+  }
+
+  play() {
+    if (this.isPlaying() || this.replay.isFinished()) return;
+    this.schedule(STEP_DELAY_MS);
+    this.refresh();
+  }
+
+  pause() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.refresh();
+  }
+
+  /** Executes the next command; errors (a log that does not match the rules) stop the replay */
+  step() {
+    if (this.scene.isMoving) return;
+    try {
+      this.replay.step();
+    } catch (error) {
+      this.pause();
+      this.scene.ui.showError((error as Error).message);
+    }
+    this.refresh();
+  }
+
+  /** Stops the playback timer */
+  dispose() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private schedule(delay: number) {
+    this.timer = setTimeout(() => {
+      if (this.scene.isMoving) {
+        this.schedule(MOVE_POLL_MS);
+        return;
+      }
+      this.step();
+      if (this.replay.isFinished()) this.pause();
+      else if (this.timer) this.schedule(STEP_DELAY_MS);
+    }, delay);
+  }
+
+  private refresh() {
+    this.scene.ui.setReplayProgress(this.replay.getPosition(), this.isPlaying());
+  }
+}
@@ -0,0 +1,170 @@
+// TeamComposition.ts
+// The teams drafted for a battle: who plays each team (a player or the AI) and the classes of its units.
+// Drafts follow TeamRules: a number of units per team, a point budget (UnitClass.draftCost) and at most
+// one unit of each class per team. Battle setup builds the units from it, saves keep it for rematches,
+// and the AIController plays the teams it marks as 'ai'.
+
+import type { ClassRegistry } from '@core/data/ClassRegistry';
+import type { Checker, DataIssue } from '@core/data/DataChecker';
+import type { UnitClass } from '@core/unitClasses';
+
+export type TeamController = 'player' | 'ai';
+
+export const TEAM_CONTROLLERS: TeamController[] = ['player', 'ai'];
+
+export interface TeamPlan {
+  team: number;
+  controller: TeamController;
+  /** Class name of each unit, in the order the units are created and placed */
+  classes: string[];
+}
+
+export interface TeamComposition {
+  teams: TeamPlan[];
+}
+
+export interface TeamRules {
+  minUnits: number;
+  maxUnits: number;
+  /** Points a team may spend on classes */
+  budget: number;
+  /** At most one unit of each class per team */
+  uniqueClasses: boolean;
+}
+
+export const DEFAULT_TEAM_RULES: TeamRules = { minUnits: 1, maxUnits: 4, budget: 10, uniqueClasses: true };
+
+/** Cost of classes that do not set draftCost */
+export const DEFAULT_DRAFT_COST = 3;
+
+/** Thrown when a composition breaks the rules; lists every issue found, one per line */
+export class TeamCompositionError extends Error {
+  constructor(
+    public readonly issues: DataIssue[]
+  ) {
+    super('Invalid team composition:\n' + issues.map(i => `  ${i.path}: ${i.message}`).join('\n'));
+    this.name = 'TeamCompositionError';
+  }
+}
+
+export function getDraftCost(unitClass: UnitClass): number {
+  return unitClass.draftCost ?? DEFAULT_DRAFT_COST;
+}
+
+/** Points spent by a team; unknown classes count as free (checkTeamComposition reports them) */
+export function getTeamCost(plan: TeamPlan, registry: ClassRegistry): number {
+  return plan.classes.reduce((sum, name) => {
+    const unitClass = registry.get(name);
+    return sum + (unitClass ? getDraftCost(unitClass) : 0);
+  }, 0);
+}
+
+/**
+ * Classes that can still be added to a team without breaking the rules (unit count, budget, uniqueness),
+ * in registry order
+ */
+export function getDraftableClasses(plan: TeamPlan, registry: ClassRegistry, rules: TeamRules = DEFAULT_TEAM_RULES): UnitClass[] {
+  if (plan.classes.length >= rules.maxUnits) return [];
+  const left = rules.budget - getTeamCost(plan, registry);
+  return registry.all().filter(unitClass =>
+    getDraftCost(unitClass) <= left && !(rules.uniqueClasses && plan.classes.includes(unitClass.name))
+  );
+}
+
+/** Every rule broken by a composition (an empty list when it is valid); at least two teams are required */
+export function checkTeamComposition(
+  composition: TeamComposition,
+  registry: ClassRegistry,
+  rules: TeamRules = DEFAULT_TEAM_RULES
+): DataIssue[] {
+  const issues: DataIssue[] = [];
+  if (composition.teams.length < 2) {
+    issues.push({ path: 'teams', message: `needs at least 2 teams, got ${composition.teams.length}` });
+  }
+  const teams = new Set<number>();
+  composition.teams.forEach((plan, i) => {
+    const path = `teams[${i}]`;
+    if (teams.has(plan.team)) issues.push({ path: `${path}.team`, message: `duplicate team ${plan.team}` });
+    teams.add(plan.team);
+    const count = plan.classes.length;
+    if (count < rules.minUnits || count > rules.maxUnits) {
+      issues.push({ path: `${path}.classes`, message: `must have ${rules.minUnits} to ${rules.maxUnits} units, got ${count}` });
+    }
+    plan.classes.forEach((name, j) => {
+      if (!registry.has(name)) {
+        issues.push({ path: `${path}.classes[${j}]`, message: `unknown class "${name}"` });
+      } else if (rules.uniqueClasses && plan.classes.indexOf(name) !== j) {
+        issues.push({ path: `${path}.classes[${j}]`, message: `class "${name}" is already in team ${plan.team}` });
+      }
+    });
+    const cost = getTeamCost(plan, registry);
+    if (cost > rules.budget) {
+      issues.push({ path: `${path}.classes`, message: `costs ${cost} points, the budget is ${rules.budget}` });
+    }
+  });
+  return issues;
+}
+
+/** @throws TeamCompositionError if the composition breaks the rules */
+export function validateTeamComposition(composition: TeamComposition, registry: ClassRegistry, rules: TeamRules = DEFAULT_TEAM_RULES) {
+  const issues = checkTeamComposition(composition, registry, rules);
+  if (issues.length > 0) throw new TeamCompositionError(issues);
+}
+
+/**
+ * Random classes for a team within the rules: draws draftable classes until the team has `size` units
+ * or nothing fits the budget any more
+ * @param random Returns numbers in [0, 1), Math.random by default
+ */
+export function draftTeam(
+  registry: ClassRegistry,
+  rules: TeamRules = DEFAULT_TEAM_RULES,
+  size: number = rules.maxUnits,
+  random: () => number = Math.random
+): string[] {
+  const plan: TeamPlan = { team: 0, controller: 'ai', classes: [] };
+  while (plan.classes.length < size) {
+    const options = getDraftableClasses(plan, registry, rules);
+    if (options.length === 0) break;
+    plan.classes.push(options[Math.floor(random() * options.length)].name);
+  }
+  return plan.classes;
+}
+
+/** Teams 1, 2, ... played by the given controllers, each with `size` random classes (see draftTeam) */
+export function randomTeamComposition(
+  registry: ClassRegistry,
+  controllers: TeamController[],
+  size: number = 1,
+  random: () => number = Math.random
+): TeamComposition {
+  return {
+    teams: controllers.map((controller, i) => ({ team: i + 1, controller, classes: draftTeam(registry, DEFAULT_TEAM_RULES, size, random) }))
+  };
+}
+
+/** Teams played by the AI */
+export function getAITeams(composition: TeamComposition): number[] {
+  return composition.teams.filter(plan => plan.controller === 'ai').map(plan => plan.team);
+}
+
+/** Structural checks of a composition read from a file (save, replay); the rules are not checked */
+export function checkCompositionData(checker: Checker, data: unknown, path: string) {
+  if (!checker.isObject(data, path) || !checker.isArray(data.teams, `${path}.teams`)) return;
+  data.teams.forEach((plan, i) => {
+    const planPath = `${path}.teams[${i}]`;
+    if (!checker.isObject(plan, planPath)) return;
+    checker.number(plan, 'team', planPath, { min: 1, integer: true });
+    checker.oneOf(plan, 'controller', TEAM_CONTROLLERS, planPath, true);
+    if (checker.isArray(plan.classes, `${planPath}.classes`)) {
+      plan.classes.forEach((name, j) => {
+        if (typeof name !== 'string') checker.fail(`${planPath}.classes[${j}]`, 'must be a class name');
+      });
+    }
+  });
+}
+
+/** Deep copy, so a composition kept for a rematch is not changed by the team builder */
+export function cloneComposition(composition: TeamComposition): TeamComposition {
+  return { teams: composition.teams.map(plan => ({ ...plan, classes: [...plan.classes] })) };
+}
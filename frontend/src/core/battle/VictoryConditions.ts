@@ -0,0 +1,74 @@
+// VictoryConditions.ts
+// Objectives that end a battle: team elimination, surviving a number of rounds, defeating a marked unit.
+// Conditions are plain descriptors so they can come from match setup, map files or saves.
+
+import type { BattleState } from './BattleState';
+
+/** Last team with units standing wins (the default objective) */
+export interface EliminationCondition {
+  type: 'elimination';
+}
+
+/** The team wins once `rounds` full rounds are over with at least one of its units alive */
+export interface SurviveRoundsCondition {
+  type: 'survive';
+  team: number;
+  rounds: number;
+}
+
+/**
+ * The battle ends as soon as the marked unit dies.
+ * winnerTeam defaults to the first other team that still has units alive.
+ */
+export interface DefeatUnitCondition {
+  type: 'defeatUnit';
+  unitId: string;
+  winnerTeam?: number;
+}
+
+export type VictoryCondition = EliminationCondition | SurviveRoundsCondition | DefeatUnitCondition;
+
+export type VictoryReason = 'elimination' | 'survived' | 'unitDefeated';
+
+export interface VictoryOutcome {
+  /** null for a draw (e.g. every unit died at once) */
+  winnerTeam: number | null;
+  reason: VictoryReason;
+}
+
+export const DEFAULT_VICTORY_CONDITIONS: VictoryCondition[] = [{ type: 'elimination' }];
+
+/**
+ * Checks the conditions in order and returns the first one that is met, or null while the battle goes on.
+ * @param round Current round number (see TurnManager.getRoundNumber)
+ */
+export function evaluateVictory(conditions: VictoryCondition[], state: BattleState, round: number): VictoryOutcome | null {
+  for (const condition of conditions) {
+    const outcome = evaluateCondition(condition, state, round);
+    if (outcome) return outcome;
+  }
+  return null;
+}
+
+/** Returns the ids of the units marked by defeatUnit conditions (drawn with a marker on the board) */
+export function getMarkedUnitIds(conditions: VictoryCondition[]): string[] {
+  return conditions.flatMap(c => (c.type === 'defeatUnit' ? [c.unitId] : []));
+}
+
+function evaluateCondition(condition: VictoryCondition, state: BattleState, round: number): VictoryOutcome | null {
+  const aliveTeams = [...new Set(state.getAliveUnits().map(u => u.team))].sort((a, b) => a - b);
+  switch (condition.type) {
+    case 'elimination':
+      if (aliveTeams.length > 1) return null;
+      return { winnerTeam: aliveTeams[0] ?? null, reason: 'elimination' };
+    case 'survive':
+      if (round <= condition.rounds || !aliveTeams.includes(condition.team)) return null;
+      return { winnerTeam: condition.team, reason: 'survived' };
+    case 'defeatUnit': {
+      const marked = state.getUnit(condition.unitId);
+      if (!marked || marked.isAlive()) return null;
+      const winnerTeam = condition.winnerTeam ?? aliveTeams.find(team => team !== marked.team) ?? null;
+      return { winnerTeam, reason: 'unitDefeated' };
+    }
+  }
+}
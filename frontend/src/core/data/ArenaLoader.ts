@@ -0,0 +1,292 @@
+// ArenaLoader.ts
+// Validates arena map files into Arena objects. Two formats are accepted:
+// - the native format (see config/arena.schema.json): terrain as rows of characters, optional cell size in pixels
+// - Tiled JSON exports (orthogonal maps, square tiles, CSV layers, embedded tilesets), using these conventions:
+//     * the tile size is the cell size
+//     * a tile layer named "terrain" whose tiles have a string property `terrain` (floor, wall, water, mud, pit);
+//       empty cells are floor
+//     * object layers with objects that have an integer property `team` mark start cells (the cell under
+//       the object's center)
+//     * every other tile layer is decorative; its tiles need a string property `texture` (an asset alias)
+// Every problem is reported with its path, e.g. `layers[0].data[12]: tile 7 has no "terrain" property`.
+
+import { MIN_CELL_SIZE } from '@core/Arena';
+import type { Arena, DecorationLayer } from '@core/Arena';
+import type { Position } from '@core/MapGrid';
+import { TERRAIN_KINDS, TERRAIN_TYPES, isTerrainKind } from '@core/Terrain';
+import type { TerrainKind } from '@core/Terrain';
+
+import { Checker } from './DataChecker';
+import type { DataIssue, Json } from './DataChecker';
+
+/** Characters of the native terrain rows */
+export const TERRAIN_CHARS: Record<string, TerrainKind> = {
+  '.': 'floor',
+  '#': 'wall',
+  '~': 'water',
+  ',': 'mud',
+  'O': 'pit',
+};
+
+// Tiled stores flip/rotation flags in the top bits of each gid
+const TILED_FLAGS_MASK = 0x1fffffff;
+
+/** Thrown when an arena file is invalid; lists every issue found, one per line */
+export class ArenaDataError extends Error {
+  constructor(
+    public readonly source: string,
+    public readonly issues: DataIssue[]
+  ) {
+    super(`Invalid arena data in ${source}:\n` + issues.map(i => `  ${i.path}: ${i.message}`).join('\n'));
+    this.name = 'ArenaDataError';
+  }
+}
+
+/** Returns true for documents that look like a Tiled JSON map export */
+export function isTiledMap(data: unknown): boolean {
+  return typeof data === 'object' && data !== null && (data as Json).type === 'map' && Array.isArray((data as Json).layers);
+}
+
+/**
+ * Validates a parsed arena document (native or Tiled) into an Arena.
+ * @param data The parsed JSON document
+ * @param source Name of the file, used in error messages and as the default arena name
+ * @throws ArenaDataError listing every issue found
+ */
+export function loadArenaData(data: unknown, source: string = 'arena data'): Arena {
+  const checker = new Checker();
+  const arena = isTiledMap(data) ? parseTiledMap(checker, data as Json, source) : parseNativeArena(checker, data, source);
+  if (arena) checkStartCells(checker, arena);
+  if (checker.issues.length > 0 || !arena) {
+    throw new ArenaDataError(source, checker.issues);
+  }
+  return arena;
+}
+
+/** Parses JSON text then validates it; syntax errors are reported as ArenaDataError too */
+export function parseArenaData(text: string, source: string = 'arena data'): Arena {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new ArenaDataError(source, [{ path: '$', message: `invalid JSON (${(error as Error).message})` }]);
+  }
+  return loadArenaData(data, source);
+}
+
+function parseNativeArena(checker: Checker, data: unknown, source: string): Arena | null {
+  if (!checker.isObject(data, '$')) return null;
+  checker.onlyKeys(data, ['$schema', 'name', 'width', 'height', 'cellSize', 'terrain', 'startCells', 'decorations'], '$');
+  const name = checker.string(data, 'name', '$', false) ?? source;
+  const width = checker.number(data, 'width', '$', { min: 1, integer: true });
+  const height = checker.number(data, 'height', '$', { min: 1, integer: true });
+  const cellSize = checker.number(data, 'cellSize', '$', { required: false, min: MIN_CELL_SIZE, integer: true });
+  if (width === undefined || height === undefined) return null;
+
+  const terrain: TerrainKind[][] = [];
+  if (data.terrain === undefined) {
+    checker.fail('terrain', 'is required');
+  } else if (checker.isArray(data.terrain, 'terrain')) {
+    if (data.terrain.length !== height) {
+      checker.fail('terrain', `must have ${height} rows, got ${data.terrain.length}`);
+    }
+    data.terrain.forEach((row, y) => {
+      if (typeof row !== 'string' || row.length !== width) {
+        checker.fail(`terrain[${y}]`, `must be a string of ${width} characters`);
+        return;
+      }
+      terrain.push([...row].map((char, x) => {
+        const kind = TERRAIN_CHARS[char];
+        if (!kind) {
+          const known = Object.entries(TERRAIN_CHARS).map(([c, k]) => `"${c}" ${k}`).join(', ');
+          checker.fail(`terrain[${y}][${x}]`, `unknown terrain "${char}" (expected ${known})`);
+        }
+        return kind ?? 'floor';
+      }));
+    });
+  }
+
+  const startCells: Record<number, Position[]> = {};
+  if (data.startCells === undefined) {
+    checker.fail('startCells', 'is required');
+  } else if (checker.isObject(data.startCells, 'startCells')) {
+    for (const [key, cells] of Object.entries(data.startCells)) {
+      const path = `startCells.${key}`;
+      const team = Number(key);
+      if (!Number.isInteger(team) || team < 1) {
+        checker.fail(path, 'team keys must be integers >= 1');
+        continue;
+      }
+      if (!checker.isArray(cells, path)) continue;
+      startCells[team] = cells.flatMap((cell, i) => {
+        const cellPath = `${path}[${i}]`;
+        if (!checker.isObject(cell, cellPath)) return [];
+        checker.onlyKeys(cell, ['x', 'y'], cellPath);
+        const x = checker.number(cell, 'x', cellPath, { min: 0, integer: true });
+        const y = checker.number(cell, 'y', cellPath, { min: 0, integer: true });
+        return x === undefined || y === undefined ? [] : [{ x, y }];
+      });
+    }
+  }
+
+  const decorations: DecorationLayer[] = [];
+  if (data.decorations !== undefined && checker.isArray(data.decorations, 'decorations')) {
+    data.decorations.forEach((layer, i) => {
+      const path = `decorations[${i}]`;
+      if (!checker.isObject(layer, path)) return;
+      checker.onlyKeys(layer, ['name', 'alpha', 'tiles'], path);
+      const layerName = checker.string(layer, 'name', path) ?? '';
+      const alpha = checker.number(layer, 'alpha', path, { required: false, min: 0 });
+      const tiles: DecorationLayer['tiles'] = [];
+      if (checker.isArray(layer.tiles, `${path}.tiles`)) {
+        layer.tiles.forEach((tile, j) => {
+          const tilePath = `${path}.tiles[${j}]`;
+          if (!checker.isObject(tile, tilePath)) return;
+          checker.onlyKeys(tile, ['x', 'y', 'texture'], tilePath);
+          const x = checker.number(tile, 'x', tilePath, { min: 0, integer: true });
+          const y = checker.number(tile, 'y', tilePath, { min: 0, integer: true });
+          const texture = checker.string(tile, 'texture', tilePath);
+          if (x !== undefined && y !== undefined && texture !== undefined) tiles.push({ x, y, texture });
+        });
+      }
+      decorations.push(alpha === undefined ? { name: layerName, tiles } : { name: layerName, alpha, tiles });
+    });
+  }
+
+  return { name, width, height, ...(cellSize !== undefined && { cellSize }), terrain, startCells, decorations };
+}
+
+/** Tile properties of the embedded tilesets, by global tile id */
+function collectTileProperties(checker: Checker, map: Json): Map<number, Record<string, unknown>> {
+  const byGid = new Map<number, Record<string, unknown>>();
+  if (!checker.isArray(map.tilesets, 'tilesets')) return byGid;
+  map.tilesets.forEach((tileset, i) => {
+    const path = `tilesets[${i}]`;
+    if (!checker.isObject(tileset, path)) return;
+    if (tileset.source !== undefined) {
+      checker.fail(`${path}.source`, 'external tilesets are not supported, embed the tileset in the map');
+      return;
+    }
+    const firstgid = checker.number(tileset, 'firstgid', path, { min: 1, integer: true });
+    if (firstgid === undefined || !Array.isArray(tileset.tiles)) return;
+    for (const tile of tileset.tiles as Json[]) {
+      const props: Record<string, unknown> = {};
+      for (const prop of (tile.properties as Json[] | undefined) ?? []) {
+        props[String(prop.name)] = prop.value;
+      }
+      byGid.set(firstgid + Number(tile.id), props);
+    }
+  });
+  return byGid;
+}
+
+function parseTiledMap(checker: Checker, map: Json, source: string): Arena | null {
+  if (map.orientation !== undefined && map.orientation !== 'orthogonal') {
+    checker.fail('orientation', `only orthogonal maps are supported, got ${JSON.stringify(map.orientation)}`);
+  }
+  const width = checker.number(map, 'width', '$', { min: 1, integer: true });
+  const height = checker.number(map, 'height', '$', { min: 1, integer: true });
+  const tileWidth = checker.number(map, 'tilewidth', '$', { min: 1 });
+  const tileHeight = checker.number(map, 'tileheight', '$', { min: 1 });
+  if (width === undefined || height === undefined || tileWidth === undefined || tileHeight === undefined) return null;
+  if (tileWidth !== tileHeight) {
+    checker.fail('tilewidth', `tiles must be square, got ${tileWidth}x${tileHeight}`);
+  } else if (tileWidth < MIN_CELL_SIZE) {
+    checker.fail('tilewidth', `must be >= ${MIN_CELL_SIZE}, got ${tileWidth}`);
+  }
+
+  const mapProps: Record<string, unknown> = {};
+  for (const prop of (map.properties as Json[] | undefined) ?? []) mapProps[String(prop.name)] = prop.value;
+  const name = typeof mapProps.name === 'string' && mapProps.name ? mapProps.name : source;
+
+  const tileProps = collectTileProperties(checker, map);
+  const terrain: TerrainKind[][] = Array.from({ length: height }, () => Array<TerrainKind>(width).fill('floor'));
+  const startCells: Record<number, Position[]> = {};
+  const decorations: DecorationLayer[] = [];
+  let hasTerrainLayer = false;
+
+  (map.layers as unknown[]).forEach((layer, i) => {
+    const path = `layers[${i}]`;
+    if (!checker.isObject(layer, path)) return;
+    const layerName = String(layer.name ?? '');
+
+    if (layer.type === 'tilelayer') {
+      if (layer.encoding !== undefined && layer.encoding !== 'csv') {
+        checker.fail(`${path}.encoding`, 'only CSV layer data is supported');
+        return;
+      }
+      if (!checker.isArray(layer.data, `${path}.data`)) return;
+      if (layer.data.length !== width * height) {
+        checker.fail(`${path}.data`, `must have ${width * height} tiles, got ${layer.data.length}`);
+        return;
+      }
+      const isTerrain = layerName.toLowerCase() === 'terrain';
+      hasTerrainLayer ||= isTerrain;
+      const tiles: DecorationLayer['tiles'] = [];
+      layer.data.forEach((raw, index) => {
+        const gid = Number(raw) & TILED_FLAGS_MASK;
+        if (gid === 0) return;
+        const x = index % width;
+        const y = Math.floor(index / width);
+        const props = tileProps.get(gid) ?? {};
+        if (isTerrain) {
+          if (isTerrainKind(props.terrain)) {
+            terrain[y][x] = props.terrain;
+          } else {
+            checker.fail(`${path}.data[${index}]`, `tile ${gid} has no valid "terrain" property (${TERRAIN_KINDS.join(', ')})`);
+          }
+        } else if (typeof props.texture === 'string' && props.texture) {
+          tiles.push({ x, y, texture: props.texture });
+        } else {
+          checker.fail(`${path}.data[${index}]`, `tile ${gid} has no "texture" property`);
+        }
+      });
+      if (!isTerrain) {
+        const alpha = typeof layer.opacity === 'number' && layer.opacity !== 1 ? layer.opacity : undefined;
+        decorations.push(alpha === undefined ? { name: layerName, tiles } : { name: layerName, alpha, tiles });
+      }
+    } else if (layer.type === 'objectgroup') {
+      if (!checker.isArray(layer.objects, `${path}.objects`)) return;
+      layer.objects.forEach((obj, j) => {
+        const objPath = `${path}.objects[${j}]`;
+        if (!checker.isObject(obj, objPath)) return;
+        const team = ((obj.properties as Json[] | undefined) ?? []).find(p => p.name === 'team')?.value;
+        if (team === undefined) return;
+        if (typeof team !== 'number' || !Number.isInteger(team) || team < 1) {
+          checker.fail(`${objPath}.properties.team`, `must be an integer >= 1, got ${JSON.stringify(team)}`);
+          return;
+        }
+        // Cell under the object's center (points have no size)
+        const cx = Number(obj.x) + Number(obj.width ?? 0) / 2;
+        const cy = Number(obj.y) + Number(obj.height ?? 0) / 2;
+        (startCells[team] ??= []).push({ x: Math.floor(cx / tileWidth), y: Math.floor(cy / tileHeight) });
+      });
+    }
+  });
+
+  if (!hasTerrainLayer) checker.fail('layers', 'needs a tile layer named "terrain"');
+  return { name, width, height, cellSize: tileWidth, terrain, startCells, decorations };
+}
+
+/** Start cells must exist, be inside the map, walkable and not shared */
+function checkStartCells(checker: Checker, arena: Arena) {
+  const teams = Object.keys(arena.startCells);
+  if (teams.length < 2) checker.fail('startCells', `needs start cells for at least 2 teams, got ${teams.length}`);
+  const seen = new Set<string>();
+  for (const team of teams) {
+    const cells = arena.startCells[Number(team)];
+    if (cells.length === 0) checker.fail(`startCells.${team}`, 'needs at least one cell');
+    cells.forEach((cell, i) => {
+      const path = `startCells.${team}[${i}]`;
+      const key = `${cell.x},${cell.y}`;
+      if (cell.x >= arena.width || cell.y >= arena.height || cell.x < 0 || cell.y < 0) {
+        checker.fail(path, `cell (${key}) is outside the ${arena.width}x${arena.height} map`);
+      } else if (!TERRAIN_TYPES[arena.terrain[cell.y]?.[cell.x] ?? 'floor'].walkable) {
+        checker.fail(path, `cell (${key}) is not walkable`);
+      } else if (seen.has(key)) {
+        checker.fail(path, `cell (${key}) is used twice`);
+      }
+      seen.add(key);
+    });
+  }
+}
@@ -0,0 +1,253 @@
+// ClassLoader.ts
+// Validates unit class/spell data files (see config/classes.schema.json) into UnitClass objects.
+// Every problem is reported with its path, e.g. `classes[1].spells[0].cost: must be >= 0`.
+
+import { DAMAGE_ELEMENTS } from '@core/Damage';
+import { effectRegistry } from '@core/effects';
+import { PASSIVE_TARGETS, PASSIVE_TRIGGERS } from '@core/Passive';
+import type { Passive } from '@core/Passive';
+import { Spell } from '@core/Spell';
+import type { SpellConfig, SpellEffectConfig } from '@core/Spell';
+import type { UnitClass } from '@core/unitClasses';
+
+import { Checker } from './DataChecker';
+import type { DataIssue, Json } from './DataChecker';
+
+export type { DataIssue } from './DataChecker';
+
+export const SPELL_TARGET_TYPES = ['selfOnly', 'allyOnly', 'ally', 'enemy', 'unit', 'empty', 'unitOrEmpty', 'none'];
+const AREA_SHAPES = ['circle', 'cross', 'line', 'cone'];
+const AREA_AFFECTS = ['all', 'enemies', 'allies'];
+
+/** Thrown when a data file is invalid; lists every issue found, one per line */
+export class ClassDataError extends Error {
+  constructor(
+    public readonly source: string,
+    public readonly issues: DataIssue[]
+  ) {
+    super(`Invalid class data in ${source}:\n` + issues.map(i => `  ${i.path}: ${i.message}`).join('\n'));
+    this.name = 'ClassDataError';
+  }
+}
+
+function parseColor(checker: Checker, obj: Json, path: string): number | undefined {
+  const value = obj.color;
+  if (value === undefined) return undefined;
+  if (typeof value === 'number' && Number.isInteger(value) && value >= 0) return value;
+  if (typeof value === 'string' && /^#[0-9a-fA-F]{6}$/.test(value)) return parseInt(value.slice(1), 16);
+  checker.fail(`${path}.color`, `must be a number or a "#rrggbb" string, got ${JSON.stringify(value)}`);
+  return undefined;
+}
+
+function parseResistances(checker: Checker, obj: Json, path: string): UnitClass['resistances'] {
+  const value = obj.resistances;
+  if (value === undefined) return undefined;
+  const resPath = `${path}.resistances`;
+  if (!checker.isObject(value, resPath)) return undefined;
+  const resistances: NonNullable<UnitClass['resistances']> = {};
+  for (const [element, res] of Object.entries(value)) {
+    const elPath = `${resPath}.${element}`;
+    if (!(DAMAGE_ELEMENTS as readonly string[]).includes(element)) {
+      checker.fail(elPath, `unknown element, expected one of ${DAMAGE_ELEMENTS.join(', ')}`);
+      continue;
+    }
+    if (!checker.isObject(res, elPath)) continue;
+    checker.onlyKeys(res, ['flat', 'percent'], elPath);
+    resistances[element as keyof typeof resistances] = {
+      flat: checker.number(res, 'flat', elPath, { required: false }),
+      percent: checker.number(res, 'percent', elPath, { required: false })
+    };
+  }
+  return resistances;
+}
+
+function parseEffect(checker: Checker, value: unknown, path: string): SpellEffectConfig | null {
+  if (!checker.isObject(value, path)) return null;
+  // Each registered effect declares its own parameters; unknown types fail here, not during a cast
+  const issues = effectRegistry.validate(value);
+  for (const issue of issues) {
+    checker.fail(`${path}.${issue.param}`, issue.message);
+  }
+  return issues.length === 0 ? ({ ...value } as unknown as SpellEffectConfig) : null;
+}
+
+/** Validates one spell definition; also used for the spells stored in battle saves */
+export function parseSpell(checker: Checker, value: unknown, path: string): SpellConfig | null {
+  if (!checker.isObject(value, path)) return null;
+  checker.onlyKeys(value, [
+    'name', 'cost', 'range', 'minRange', 'maxCastsPerTurn', 'targetType',
+    'cooldown', 'requiresLineOfSight', 'area', 'effects'
+  ], path);
+  const issuesBefore = checker.issues.length;
+
+  const name = checker.string(value, 'name', path);
+  const cost = checker.number(value, 'cost', path, { min: 0 });
+  const range = checker.number(value, 'range', path, { min: 0, integer: true });
+  const minRange = checker.number(value, 'minRange', path, { required: false, min: 0, integer: true });
+  if (range !== undefined && minRange !== undefined && minRange > range) {
+    checker.fail(`${path}.minRange`, `must be <= range (${range}), got ${minRange}`);
+  }
+  const maxCastsPerTurn = checker.number(value, 'maxCastsPerTurn', path, { required: false, min: -1, integer: true });
+  if (maxCastsPerTurn === 0) {
+    checker.fail(`${path}.maxCastsPerTurn`, 'must be -1 (unlimited) or at least 1');
+  }
+  const targetType = checker.oneOf(value, 'targetType', SPELL_TARGET_TYPES, path, true);
+  const cooldown = checker.number(value, 'cooldown', path, { required: false, min: 0, integer: true });
+  const requiresLineOfSight = checker.boolean(value, 'requiresLineOfSight', path);
+
+  let area: SpellConfig['area'];
+  if (value.area !== undefined && checker.isObject(value.area, `${path}.area`)) {
+    const areaPath = `${path}.area`;
+    checker.onlyKeys(value.area, ['shape', 'size', 'affects'], areaPath);
+    const shape = checker.oneOf(value.area, 'shape', AREA_SHAPES, areaPath, true);
+    const size = checker.number(value.area, 'size', areaPath, { min: 0, integer: true });
+    const affects = checker.oneOf(value.area, 'affects', AREA_AFFECTS, areaPath);
+    if (shape !== undefined && size !== undefined) {
+      area = { shape, size, ...(affects ? { affects } : {}) } as SpellConfig['area'];
+    }
+  }
+
+  const effects: SpellEffectConfig[] = [];
+  if (value.effects === undefined) {
+    checker.fail(`${path}.effects`, 'is required');
+  } else if (checker.isArray(value.effects, `${path}.effects`)) {
+    if (value.effects.length === 0) checker.fail(`${path}.effects`, 'must contain at least one effect');
+    value.effects.forEach((e, i) => {
+      const effect = parseEffect(checker, e, `${path}.effects[${i}]`);
+      if (effect) effects.push(effect);
+    });
+  }
+
+  if (checker.issues.length > issuesBefore) return null;
+  return {
+    name: name!,
+    cost: cost!,
+    range: range!,
+    minRange,
+    maxCastsPerTurn,
+    targetType: targetType!,
+    effects,
+    cooldown,
+    requiresLineOfSight,
+    area
+  };
+}
+
+/** Validates the optional `passive` of a class (or of a saved unit) */
+export function parsePassive(checker: Checker, obj: Json, path: string): Passive | undefined {
+  const value = obj.passive;
+  if (value === undefined) return undefined;
+  const passivePath = `${path}.passive`;
+  if (!checker.isObject(value, passivePath)) return undefined;
+  checker.onlyKeys(value, ['name', 'description', 'trigger', 'target', 'effects'], passivePath);
+  const issuesBefore = checker.issues.length;
+
+  const name = checker.string(value, 'name', passivePath);
+  const description = checker.string(value, 'description', passivePath, false);
+  const trigger = checker.oneOf(value, 'trigger', PASSIVE_TRIGGERS, passivePath, true);
+  const target = checker.oneOf(value, 'target', PASSIVE_TARGETS, passivePath, true);
+  const effects: SpellEffectConfig[] = [];
+  if (value.effects === undefined) {
+    checker.fail(`${passivePath}.effects`, 'is required');
+  } else if (checker.isArray(value.effects, `${passivePath}.effects`)) {
+    if (value.effects.length === 0) checker.fail(`${passivePath}.effects`, 'must contain at least one effect');
+    value.effects.forEach((e, i) => {
+      const effect = parseEffect(checker, e, `${passivePath}.effects[${i}]`);
+      if (effect) effects.push(effect);
+    });
+  }
+
+  if (checker.issues.length > issuesBefore) return undefined;
+  return { name: name!, ...(description !== undefined && { description }), trigger: trigger!, target: target!, effects };
+}
+
+function parseClass(checker: Checker, value: unknown, path: string): UnitClass | null {
+  if (!checker.isObject(value, path)) return null;
+  checker.onlyKeys(value, ['name', 'maxHP', 'maxAP', 'maxMP', 'initiative', 'agility', 'lock', 'draftCost', 'passive', 'color', 'resistances', 'spells'], path);
+  const issuesBefore = checker.issues.length;
+
+  const name = checker.string(value, 'name', path);
+  const maxHP = checker.number(value, 'maxHP', path, { min: 1, integer: true });
+  const maxAP = checker.number(value, 'maxAP', path, { min: 0, integer: true });
+  const maxMP = checker.number(value, 'maxMP', path, { min: 0, integer: true });
+  const initiative = checker.number(value, 'initiative', path, { required: false, min: 0, integer: true });
+  const agility = checker.number(value, 'agility', path, { required: false, min: 0, integer: true });
+  const lock = checker.number(value, 'lock', path, { required: false, min: 0, integer: true });
+  const draftCost = checker.number(value, 'draftCost', path, { required: false, min: 0, integer: true });
+  const passive = parsePassive(checker, value, path);
+  const color = parseColor(checker, value, path);
+  const resistances = parseResistances(checker, value, path);
+
+  const spells: Spell[] = [];
+  const spellNames = new Set<string>();
+  if (value.spells === undefined) {
+    checker.fail(`${path}.spells`, 'is required');
+  } else if (checker.isArray(value.spells, `${path}.spells`)) {
+    value.spells.forEach((s, i) => {
+      const spellPath = `${path}.spells[${i}]`;
+      const config = parseSpell(checker, s, spellPath);
+      if (!config) return;
+      if (spellNames.has(config.name)) {
+        checker.fail(`${spellPath}.name`, `duplicate spell name "${config.name}"`);
+        return;
+      }
+      spellNames.add(config.name);
+      spells.push(new Spell(config));
+    });
+  }
+
+  if (checker.issues.length > issuesBefore) return null;
+  const unitClass: UnitClass = { name: name!, maxHP: maxHP!, maxAP: maxAP!, maxMP: maxMP!, spells };
+  if (initiative !== undefined) unitClass.initiative = initiative;
+  if (agility !== undefined) unitClass.agility = agility;
+  if (lock !== undefined) unitClass.lock = lock;
+  if (draftCost !== undefined) unitClass.draftCost = draftCost;
+  if (passive !== undefined) unitClass.passive = passive;
+  if (color !== undefined) unitClass.color = color;
+  if (resistances !== undefined) unitClass.resistances = resistances;
+  return unitClass;
+}
+
+/**
+ * Validates a parsed data document (`{ "classes": [...] }`) into unit classes.
+ * @param data The parsed JSON document
+ * @param source Name of the file, used in error messages
+ * @throws ClassDataError listing every issue found
+ */
+export function loadClassData(data: unknown, source: string = 'class data'): UnitClass[] {
+  const checker = new Checker();
+  const classes: UnitClass[] = [];
+  if (checker.isObject(data, '$')) {
+    checker.onlyKeys(data, ['$schema', 'classes'], '$');
+    if (data.classes === undefined) {
+      checker.fail('classes', 'is required');
+    } else if (checker.isArray(data.classes, 'classes')) {
+      const names = new Set<string>();
+      data.classes.forEach((c, i) => {
+        const unitClass = parseClass(checker, c, `classes[${i}]`);
+        if (!unitClass) return;
+        if (names.has(unitClass.name)) {
+          checker.fail(`classes[${i}].name`, `duplicate class name "${unitClass.name}"`);
+          return;
+        }
+        names.add(unitClass.name);
+        classes.push(unitClass);
+      });
+    }
+  }
+  if (checker.issues.length > 0) {
+    throw new ClassDataError(source, checker.issues);
+  }
+  return classes;
+}
+
+/** Parses JSON text then validates it; syntax errors are reported as ClassDataError too */
+export function parseClassData(text: string, source: string = 'class data'): UnitClass[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new ClassDataError(source, [{ path: '$', message: `invalid JSON (${(error as Error).message})` }]);
+  }
+  return loadClassData(data, source);
+}
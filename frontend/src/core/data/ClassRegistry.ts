@@ -0,0 +1,62 @@
+// ClassRegistry.ts
+// Registry of the unit classes available to battles, filled from validated data files.
+
+import type { UnitClass } from '@core/unitClasses';
+
+import { loadClassData } from './ClassLoader';
+import classesData from '../../config/classes.json';
+
+export class ClassRegistry {
+  private classes = new Map<string, UnitClass>();
+
+  /** Builds a registry from a data document, validating it first (throws ClassDataError) */
+  static fromData(data: unknown, source?: string): ClassRegistry {
+    const registry = new ClassRegistry();
+    registry.registerAll(loadClassData(data, source));
+    return registry;
+  }
+
+  /** Adds a class; names must be unique */
+  register(unitClass: UnitClass) {
+    if (this.classes.has(unitClass.name)) {
+      throw new Error(`Unit class "${unitClass.name}" is already registered`);
+    }
+    this.classes.set(unitClass.name, unitClass);
+  }
+
+  registerAll(unitClasses: UnitClass[]) {
+    for (const unitClass of unitClasses) {
+      this.register(unitClass);
+    }
+  }
+
+  has(name: string): boolean {
+    return this.classes.has(name);
+  }
+
+  /** Returns the class with the given name, if any */
+  get(name: string): UnitClass | undefined {
+    return this.classes.get(name);
+  }
+
+  /** Returns the class with the given name or throws if it does not exist */
+  require(name: string): UnitClass {
+    const unitClass = this.classes.get(name);
+    if (!unitClass) {
+      throw new Error(`Unknown unit class "${name}" (available: ${this.names().join(', ')})`);
+    }
+    return unitClass;
+  }
+
+  /** Class names in registration order */
+  names(): string[] {
+    return [...this.classes.keys()];
+  }
+
+  all(): UnitClass[] {
+    return [...this.classes.values()];
+  }
+}
+
+/** Classes shipped with the game (config/classes.json) */
+export const classRegistry = ClassRegistry.fromData(classesData, 'config/classes.json');
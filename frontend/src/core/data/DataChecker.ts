@@ -0,0 +1,94 @@
+// DataChecker.ts
+// Small validation helper shared by the data loaders (classes, arenas).
+// Walks a parsed JSON document and collects every issue with its path instead of stopping at the first one.
+
+export interface DataIssue {
+  path: string;
+  message: string;
+}
+
+export type Json = Record<string, unknown>;
+
+/** Collects issues while walking a JSON document */
+export class Checker {
+  issues: DataIssue[] = [];
+
+  fail(path: string, message: string) {
+    this.issues.push({ path, message });
+  }
+
+  isObject(value: unknown, path: string): value is Json {
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) return true;
+    this.fail(path, 'must be an object');
+    return false;
+  }
+
+  isArray(value: unknown, path: string): value is unknown[] {
+    if (Array.isArray(value)) return true;
+    this.fail(path, 'must be an array');
+    return false;
+  }
+
+  onlyKeys(obj: Json, allowed: string[], path: string) {
+    for (const key of Object.keys(obj)) {
+      if (!allowed.includes(key)) this.fail(`${path}.${key}`, 'unknown property');
+    }
+  }
+
+  string(obj: Json, key: string, path: string, required = true): string | undefined {
+    const value = obj[key];
+    if (value === undefined) {
+      if (required) this.fail(`${path}.${key}`, 'is required');
+      return undefined;
+    }
+    if (typeof value !== 'string' || value.length === 0) {
+      this.fail(`${path}.${key}`, 'must be a non-empty string');
+      return undefined;
+    }
+    return value;
+  }
+
+  number(obj: Json, key: string, path: string, opts: { required?: boolean; min?: number; integer?: boolean } = {}): number | undefined {
+    const value = obj[key];
+    if (value === undefined) {
+      if (opts.required ?? true) this.fail(`${path}.${key}`, 'is required');
+      return undefined;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.fail(`${path}.${key}`, `must be a number, got ${JSON.stringify(value)}`);
+      return undefined;
+    }
+    if (opts.integer && !Number.isInteger(value)) {
+      this.fail(`${path}.${key}`, `must be an integer, got ${value}`);
+      return undefined;
+    }
+    if (opts.min !== undefined && value < opts.min) {
+      this.fail(`${path}.${key}`, `must be >= ${opts.min}, got ${value}`);
+      return undefined;
+    }
+    return value;
+  }
+
+  oneOf<T extends string>(obj: Json, key: string, allowed: readonly T[], path: string, required = false): T | undefined {
+    const value = obj[key];
+    if (value === undefined) {
+      if (required) this.fail(`${path}.${key}`, 'is required');
+      return undefined;
+    }
+    if (typeof value !== 'string' || !allowed.includes(value as T)) {
+      this.fail(`${path}.${key}`, `must be one of ${allowed.join(', ')}, got ${JSON.stringify(value)}`);
+      return undefined;
+    }
+    return value as T;
+  }
+
+  boolean(obj: Json, key: string, path: string): boolean | undefined {
+    const value = obj[key];
+    if (value === undefined) return undefined;
+    if (typeof value !== 'boolean') {
+      this.fail(`${path}.${key}`, 'must be true or false');
+      return undefined;
+    }
+    return value;
+  }
+}
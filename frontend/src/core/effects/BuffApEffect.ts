@@ -52,7 +52,7 @@ export class BuffApEffect extends BaseEffect {
     }
     
     // Show blue floating text feedback
-    this.showFeedback(`+${this.value} AP`, target, context, '#3a8fff');
+    this.showEffectFeedback('buff_ap', { value: this.value }, target, context);
     
     return true;
   }
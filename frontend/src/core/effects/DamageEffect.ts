@@ -2,23 +2,29 @@
 // Handles damage application to target units
 
 import { BaseEffect } from './Effect';
+import { computeDamage } from '../Damage';
+import type { DamageElement } from '../Damage';
 import type { Unit } from '../Unit';
 import type { EffectContext } from './Effect';
 
 /**
- * Effect that applies damage to a target unit
+ * Effect that applies elemental damage to a target unit
+ * Final damage goes through the shared damage formula (resistances), then shields absorb it before HP
  * Shows red floating text feedback when damage is dealt
  */
 export class DamageEffect extends BaseEffect {
-  constructor(value: number) {
+  private element: DamageElement;
+
+  constructor(value: number, element: DamageElement = 'neutral') {
     super(value);
+    this.element = element;
   }
 
   /**
    * Apply damage to the target unit
    * @param caster The unit casting the spell
    * @param target The target unit to damage
-   * @param context Additional context (unused for damage)
+   * @param context Additional context (event bus, scene for feedback)
    * @returns true if damage was applied, false if target is null or dead
    */
   apply(caster: Unit, target: Unit | null, context?: EffectContext): boolean {
@@ -26,11 +32,23 @@ export class DamageEffect extends BaseEffect {
       return false;
     }
 
-    // Apply damage to target
-    target.takeDamage(this.value);
+    // Resolve resistances, then apply damage to target
+    const { final } = computeDamage({ base: this.value, element: this.element, caster, target });
+    const hpBefore = target.hp;
+    const { absorbed, damage } = target.takeDamage(final);
+    this.publish(context, 'DamageDealt', {
+      source: caster,
+      target,
+      amount: damage,
+      absorbed,
+      element: this.element,
+      hpBefore,
+      hpAfter: target.hp,
+      sourceSpell: this.sourceSpell ?? context?.sourceSpell
+    });
     
-    // Show red floating text feedback
-    this.showFeedback(`-${this.value} HP`, target, context, '#ff4444');
+    // Show red floating text feedback, reporting what the shield absorbed
+    this.showEffectFeedback('damage', { damage, absorbed }, target, context);
     
     return true;
   }
@@ -0,0 +1,64 @@
+// DashEffect.ts
+// Handles the caster rushing in a straight line toward the target cell
+
+import { getCastDirection } from '../Area';
+import { BaseEffect } from './Effect';
+import type { EffectContext } from './Effect';
+import { getSlidePath, relocateUnit } from './ForcedMovement';
+import type { Position, Unit } from '../Unit';
+
+/**
+ * Effect that moves the caster toward the target cell along the dominant axis
+ * The dash stops in front of the first wall, pit or unit, so dashing at an enemy ends next to it
+ * Shows light orange floating text feedback when the caster moves
+ */
+export class DashEffect extends BaseEffect {
+  constructor(value: number) {
+    super(value);
+  }
+
+  /**
+   * Dash the caster toward the target cell
+   * @param caster The unit casting the spell (will be moved)
+   * @param target The target unit (unused, the cell position is used)
+   * @param context Additional context containing map and cell position
+   * @returns true if the caster moved at least one cell, false otherwise
+   */
+  apply(caster: Unit, target: Unit | null, context?: EffectContext): boolean {
+    const path = this.getPath(caster, context);
+    if (path.length === 0 || !context?.map) {
+      return false;
+    }
+
+    const to = path[path.length - 1];
+    const from = relocateUnit(context.map, caster, to);
+
+    // Subscribers (the scene) animate the caster along the path
+    this.publish(context, 'UnitMoved', { unit: caster, from, to: { ...to }, path, kind: 'dash' });
+
+    // Show light orange floating text feedback
+    this.showEffectFeedback('dash', {}, caster, context);
+
+    return true;
+  }
+
+  /** Refuses the dash before the AP is spent when the caster cannot move a single cell */
+  canApply(caster: Unit, _target: Unit | null, context?: EffectContext): boolean {
+    return this.getPath(caster, context).length > 0;
+  }
+
+  /** Cells the caster would dash through (empty when it cannot move) */
+  private getPath(caster: Unit, context?: EffectContext): Position[] {
+    if (!context?.map || !context?.cellPosition || !caster.isAlive()) {
+      return [];
+    }
+    const cell = context.cellPosition;
+    const dir = getCastDirection(caster.position, cell);
+    if (dir.x === 0 && dir.y === 0) {
+      return [];
+    }
+    // Never past the target cell along the dash axis
+    const distance = dir.x !== 0 ? Math.abs(cell.x - caster.position.x) : Math.abs(cell.y - caster.position.y);
+    return getSlidePath(context.map, caster.position, dir, distance);
+  }
+}
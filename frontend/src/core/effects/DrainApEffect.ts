@@ -41,7 +41,7 @@ export class DrainApEffect extends BaseEffect {
     target.applyState(state);
     
     // Show purple floating text feedback
-    this.showFeedback(`-${this.value} AP`, target, context, '#6a5acd');
+    this.showEffectFeedback('drain_ap', { value: this.value }, target, context);
     
     return true;
   }
@@ -1,9 +1,12 @@
 // Effect.ts
 // Base interface and types for the decoupled effect system
 
-import type { Unit } from '../Unit';
-import type { Position } from '../Unit';
+import type { GridLayout } from '../../rendering/GridLayout';
 import { FloatingText } from '../../ui/FloatingText';
+import type { BattleEventBus, BattleEventMap, BattleEventType } from '../battle/BattleEvents';
+import type { Position, Unit } from '../Unit';
+import { effectRegistry } from './EffectRegistry';
+import type { EffectFeedbackData } from './EffectRegistry';
 
 /**
  * Context object passed to effects for additional information
@@ -14,6 +17,7 @@ export interface EffectContext {
   scene?: any;
   cellPosition?: Position;
   sourceSpell?: string;
+  events?: BattleEventBus;
 }
 
 /**
@@ -29,6 +33,12 @@ export interface IEffect {
    * @returns true if the effect was applied successfully, false otherwise
    */
   apply(caster: Unit, target: Unit | null, context?: EffectContext): boolean;
+
+  /**
+   * Optional pre-check run before the spell's AP is spent: false when apply() would do nothing
+   * (e.g. a dash whose first cell is blocked). Effects without it are assumed to apply.
+   */
+  canApply?(caster: Unit, target: Unit | null, context?: EffectContext): boolean;
 }
 
 /**
@@ -48,6 +58,16 @@ export abstract class BaseEffect implements IEffect {
 
   abstract apply(caster: Unit, target: Unit | null, context?: EffectContext): boolean;
 
+  /**
+   * Publish a battle event if the context carries an event bus
+   * @param context Context containing the event bus
+   * @param type The event type
+   * @param payload The event payload
+   */
+  protected publish<K extends BattleEventType>(context: EffectContext | undefined, type: K, payload: BattleEventMap[K]): void {
+    context?.events?.emit(type, payload);
+  }
+
   /**
    * Show floating text feedback for the effect
    * @param text The text to display
@@ -64,24 +84,42 @@ export abstract class BaseEffect implements IEffect {
     }
   }
 
+  /**
+   * Show the floating text registered for an effect type, in the type's color
+   * @param type The effect type key in the effect registry
+   * @param data Numbers passed to the registered feedback formatter
+   * @param target The target unit for positioning
+   * @param context Context containing scene information
+   */
+  protected showEffectFeedback(type: string, data: EffectFeedbackData, target: Unit | null, context?: EffectContext): void {
+    const text = effectRegistry.formatFeedback(type, data);
+    if (text === undefined) return;
+    this.showFeedback(text, target, context, effectRegistry.getColor(type));
+  }
+
   /**
    * Get the position for floating text feedback
    * @param target The target unit
-   * @param context Context containing map and position information
-   * @returns Position coordinates for feedback text
+   * @param context Context containing the scene (its grid layout converts cells to pixels) and position information
+   * @returns Position coordinates for feedback text, half a cell above the target
    */
   private getFeedbackPosition(target: Unit | null, context?: EffectContext): { x: number, y: number } | null {
+    const layout: GridLayout | undefined = context?.scene?.layout;
+    if (!layout) return null;
+    const lift = layout.cellSize / 2;
     if (target) {
       // Use target unit position
       const sprite = (target as any).sprite || (target as any).getSprite?.();
       if (sprite) {
-        return { x: sprite.x, y: sprite.y - 32 };
+        return { x: sprite.x, y: sprite.y - lift };
       } else if (target.position) {
-        return { x: target.position.x * 64 + 32, y: target.position.y * 64 };
+        const center = layout.cellCenter(target.position);
+        return { x: center.x, y: center.y - lift };
       }
     } else if (context?.cellPosition) {
       // Use cell position for area/cell effects
-      return { x: context.cellPosition.x * 64 + 32, y: context.cellPosition.y * 64 };
+      const center = layout.cellCenter(context.cellPosition);
+      return { x: center.x, y: center.y - lift };
     }
     return null;
   }
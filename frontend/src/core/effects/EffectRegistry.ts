@@ -0,0 +1,174 @@
+// EffectRegistry.ts
+// Pluggable catalogue of effect types: how to build them, which parameters they accept and how they look.
+// Built-in effects are registered in builtinEffects.ts; mods and tests can register more at runtime.
+
+import type { SpellEffectConfig } from '../Spell';
+import type { IEffect } from './Effect';
+
+/**
+ * Declares one extra parameter of an effect config (besides type, value and sourceSpell).
+ * Parameters with their own field in SpellEffectConfig (duration, element...) are read from it;
+ * any other one is read from the config's `params` object.
+ */
+export interface EffectParamSpec {
+  kind: 'number' | 'integer' | 'string' | 'boolean';
+  required?: boolean;
+  min?: number;
+  oneOf?: readonly string[];
+}
+
+/** Parameters with their own field in SpellEffectConfig */
+const CONFIG_FIELDS: readonly string[] = ['duration', 'element', 'tickAt', 'radius'];
+
+/** Numbers an effect reports after applying, used to build its floating text */
+export type EffectFeedbackData = Record<string, number>;
+
+export interface EffectDefinition {
+  /** Key used in spell configs (`{ type: 'damage', ... }`) */
+  type: string;
+  /** Builds an effect instance from a validated config */
+  create: (config: SpellEffectConfig) => IEffect;
+  params?: Record<string, EffectParamSpec>;
+  /** Color used for target highlighting and floating text */
+  tint: number;
+  formatFeedback: (data: EffectFeedbackData) => string;
+}
+
+/** A problem found while validating an effect config */
+export interface EffectConfigIssue {
+  param: string;
+  message: string;
+}
+
+export class EffectRegistry {
+  private definitions = new Map<string, EffectDefinition>();
+
+  /** Adds an effect type; registering the same key twice is an error */
+  register(definition: EffectDefinition) {
+    if (this.definitions.has(definition.type)) {
+      throw new Error(`Effect type "${definition.type}" is already registered`);
+    }
+    this.definitions.set(definition.type, definition);
+  }
+
+  /** Removes an effect type (mainly for tests and mod unloading) */
+  unregister(type: string): boolean {
+    return this.definitions.delete(type);
+  }
+
+  has(type: string): boolean {
+    return this.definitions.has(type);
+  }
+
+  get(type: string): EffectDefinition | undefined {
+    return this.definitions.get(type);
+  }
+
+  /** Registered type keys, in registration order */
+  types(): string[] {
+    return [...this.definitions.keys()];
+  }
+
+  /**
+   * Create the effect instance for a config
+   * @throws Error if the effect type is unknown
+   */
+  create(config: SpellEffectConfig): IEffect {
+    const definition = this.definitions.get(config.type);
+    if (!definition) {
+      throw new Error(`Unknown effect type: ${config.type}`);
+    }
+    return definition.create(config);
+  }
+
+  /** Tint of an effect type, or undefined if it is not registered */
+  getTint(type: string): number | undefined {
+    return this.definitions.get(type)?.tint;
+  }
+
+  /** CSS color (`#rrggbb`) of an effect type, or undefined if it is not registered */
+  getColor(type: string): string | undefined {
+    const tint = this.getTint(type);
+    return tint === undefined ? undefined : `#${tint.toString(16).padStart(6, '0')}`;
+  }
+
+  /** Floating text for an applied effect, or undefined if the type is not registered */
+  formatFeedback(type: string, data: EffectFeedbackData): string | undefined {
+    return this.definitions.get(type)?.formatFeedback(data);
+  }
+
+  /**
+   * Checks a raw effect config against the registered definition of its type.
+   * @returns Every issue found (empty when the config is valid)
+   */
+  validate(config: Record<string, unknown>): EffectConfigIssue[] {
+    const issues: EffectConfigIssue[] = [];
+    const type = config.type;
+    if (typeof type !== 'string' || type.length === 0) {
+      return [{ param: 'type', message: 'must be a non-empty string' }];
+    }
+    const definition = this.definitions.get(type);
+    if (!definition) {
+      return [{ param: 'type', message: `unknown effect type "${type}" (known: ${this.types().join(', ')})` }];
+    }
+
+    if (typeof config.value !== 'number' || !Number.isFinite(config.value)) {
+      issues.push({ param: 'value', message: `must be a number, got ${JSON.stringify(config.value)}` });
+    }
+    if (config.sourceSpell !== undefined && typeof config.sourceSpell !== 'string') {
+      issues.push({ param: 'sourceSpell', message: 'must be a string' });
+    }
+
+    const specs = definition.params ?? {};
+    for (const key of Object.keys(config)) {
+      if (key === 'type' || key === 'value' || key === 'sourceSpell' || key === 'params') continue;
+      if (!CONFIG_FIELDS.includes(key) || !(key in specs)) {
+        issues.push({ param: key, message: `unknown parameter for effect "${type}"` });
+      }
+    }
+
+    let extra: Record<string, unknown> = {};
+    if (config.params !== undefined) {
+      if (typeof config.params !== 'object' || config.params === null || Array.isArray(config.params)) {
+        issues.push({ param: 'params', message: 'must be an object' });
+      } else {
+        extra = config.params as Record<string, unknown>;
+        for (const key of Object.keys(extra)) {
+          if (CONFIG_FIELDS.includes(key) || !(key in specs)) {
+            issues.push({ param: `params.${key}`, message: `unknown parameter for effect "${type}"` });
+          }
+        }
+      }
+    }
+
+    for (const [param, spec] of Object.entries(specs)) {
+      const isField = CONFIG_FIELDS.includes(param);
+      const message = checkParam(isField ? config[param] : extra[param], spec);
+      if (message) issues.push({ param: isField ? param : `params.${param}`, message });
+    }
+    return issues;
+  }
+}
+
+function checkParam(value: unknown, spec: EffectParamSpec): string | null {
+  if (value === undefined) {
+    return spec.required ? 'is required' : null;
+  }
+  switch (spec.kind) {
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return `must be a number, got ${JSON.stringify(value)}`;
+      if (spec.kind === 'integer' && !Number.isInteger(value)) return `must be an integer, got ${value}`;
+      if (spec.min !== undefined && value < spec.min) return `must be >= ${spec.min}, got ${value}`;
+      return null;
+    case 'string':
+      if (typeof value !== 'string') return `must be a string, got ${JSON.stringify(value)}`;
+      if (spec.oneOf && !spec.oneOf.includes(value)) return `must be one of ${spec.oneOf.join(', ')}, got ${JSON.stringify(value)}`;
+      return null;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'must be true or false';
+  }
+}
+
+/** Registry used by EffectFactory, the class loader and the battle visuals */
+export const effectRegistry = new EffectRegistry();
@@ -0,0 +1,33 @@
+// ForcedMovement.ts
+// Helpers shared by the effects that move units in a straight line (pull, dash)
+
+import type { MapGrid, Position } from '../MapGrid';
+import type { Unit } from '../Unit';
+
+/**
+ * Cells a unit slides through from `from` in a direction, at most `max` cells.
+ * The slide stops before the first cell that is not walkable or is occupied; the start cell is excluded.
+ */
+export function getSlidePath(map: MapGrid, from: Position, dir: Position, max: number): Position[] {
+  const path: Position[] = [];
+  let pos = from;
+  for (let i = 0; i < max; i++) {
+    const next = { x: pos.x + dir.x, y: pos.y + dir.y };
+    if (!map.isWalkable(next) || map.isOccupied(next)) break;
+    path.push(next);
+    pos = next;
+  }
+  return path;
+}
+
+/**
+ * Moves a unit to a free cell, keeping map occupancy in sync
+ * @returns The cell the unit left
+ */
+export function relocateUnit(map: MapGrid, unit: Unit, to: Position): Position {
+  const from = { ...unit.position };
+  map.setOccupied(unit.position, null);
+  unit.position = { ...to };
+  map.setOccupied(unit.position, unit);
+  return from;
+}
@@ -18,7 +18,7 @@ export class HealEffect extends BaseEffect {
    * Apply healing to the target unit
    * @param caster The unit casting the spell
    * @param target The target unit to heal
-   * @param context Additional context (unused for healing)
+   * @param context Additional context (event bus, scene for feedback)
    * @returns true if healing was applied, false if target is null or dead
    */
   apply(caster: Unit, target: Unit | null, context?: EffectContext): boolean {
@@ -27,10 +27,19 @@ export class HealEffect extends BaseEffect {
     }
 
     // Apply healing to target
+    const hpBefore = target.hp;
     target.heal(this.value);
+    this.publish(context, 'HealApplied', {
+      source: caster,
+      target,
+      amount: target.hp - hpBefore,
+      hpBefore,
+      hpAfter: target.hp,
+      sourceSpell: this.sourceSpell ?? context?.sourceSpell
+    });
     
     // Show green floating text feedback
-    this.showFeedback(`+${this.value} HP`, target, context, '#3ecf4a');
+    this.showEffectFeedback('heal', { value: this.value }, target, context);
     
     return true;
   }
@@ -0,0 +1,58 @@
+// PoisonEffect.ts
+// Handles damage-over-time application to target units
+
+import { BaseEffect } from './Effect';
+import type { State, TurnBoundary, Unit } from '../Unit';
+import type { EffectContext } from './Effect';
+
+/**
+ * Effect that applies a poison state dealing damage every turn
+ * The damage is dealt by Unit at the configured turn boundary (start by default)
+ * Shows purple floating text feedback when poison is applied
+ */
+export class PoisonEffect extends BaseEffect {
+  private tickAt: TurnBoundary;
+
+  constructor(value: number, duration: number, sourceSpell?: string, tickAt: TurnBoundary = 'start') {
+    super(value, duration, sourceSpell);
+    this.tickAt = tickAt;
+  }
+
+  /**
+   * Apply poison to the target unit
+   * Re-applying poison from the same source refreshes it instead of stacking
+   * @param caster The unit casting the spell
+   * @param target The target unit to poison
+   * @param context Additional context containing source spell information
+   * @returns true if poison was applied, false if target is null or dead
+   */
+  apply(caster: Unit, target: Unit | null, context?: EffectContext): boolean {
+    if (!target || !target.isAlive()) {
+      return false;
+    }
+
+    const sourceSpell = this.sourceSpell || context?.sourceSpell;
+    const existing = target.states.find(s => s.type === 'poison' && s.source === sourceSpell);
+    if (existing) {
+      target.removeState(existing.id);
+    }
+
+    // Poisons from different sources stack
+    const state: State = {
+      id: `poison_${Date.now()}_${Math.random()}`,
+      type: 'poison',
+      duration: this.duration!,
+      value: this.value,
+      source: sourceSpell,
+      stackable: true,
+      tickAt: this.tickAt
+    };
+
+    target.applyState(state);
+
+    // Show purple floating text feedback
+    this.showEffectFeedback('poison', { value: this.value }, target, context);
+
+    return true;
+  }
+}
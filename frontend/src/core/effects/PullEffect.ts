@@ -0,0 +1,64 @@
+// PullEffect.ts
+// Handles pulling target units toward the caster
+
+import { getCastDirection } from '../Area';
+import { BaseEffect } from './Effect';
+import type { EffectContext } from './Effect';
+import { getSlidePath, relocateUnit } from './ForcedMovement';
+import type { Position, Unit } from '../Unit';
+
+/**
+ * Effect that draws a target unit toward the caster, cell by cell along the dominant axis
+ * The target stops early in front of walls, pits and units (the caster included)
+ * Shows orange floating text feedback when the pull moves the target
+ */
+export class PullEffect extends BaseEffect {
+  private radius: number;
+
+  constructor(value: number, radius: number = 1) {
+    super(value);
+    this.radius = radius;
+  }
+
+  /**
+   * Pull the target unit up to `radius` cells toward the caster
+   * @param caster The unit casting the spell
+   * @param target The target unit to pull
+   * @param context Additional context containing map information
+   * @returns true if the target moved at least one cell, false otherwise
+   */
+  apply(caster: Unit, target: Unit | null, context?: EffectContext): boolean {
+    const path = this.getPath(caster, target, context);
+    if (!target || !context?.map || path.length === 0) {
+      return false;
+    }
+
+    const to = path[path.length - 1];
+    const from = relocateUnit(context.map, target, to);
+
+    // Subscribers (the scene) animate the target along the path
+    this.publish(context, 'UnitMoved', { unit: target, from, to: { ...to }, path, kind: 'pull' });
+
+    // Show orange floating text feedback
+    this.showEffectFeedback('pull', {}, target, context);
+
+    return true;
+  }
+
+  /** Refuses the pull before the AP is spent when the target cannot move a single cell */
+  canApply(caster: Unit, target: Unit | null, context?: EffectContext): boolean {
+    return this.getPath(caster, target, context).length > 0;
+  }
+
+  /** Cells the target would be pulled through (empty when it cannot move) */
+  private getPath(caster: Unit, target: Unit | null, context?: EffectContext): Position[] {
+    if (!target || !target.isAlive() || !context?.map || target.isSelf(caster)) {
+      return [];
+    }
+    const dir = getCastDirection(target.position, caster.position);
+    if (dir.x === 0 && dir.y === 0) {
+      return [];
+    }
+    return getSlidePath(context.map, target.position, dir, this.radius);
+  }
+}
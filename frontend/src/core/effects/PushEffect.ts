@@ -54,17 +54,16 @@ export class PushEffect extends BaseEffect {
     }
 
     // Move the target
+    const from = { ...target.position };
     context.map.setOccupied(target.position, null);
     target.position = newPos;
     context.map.setOccupied(newPos, target);
 
-    // Update visual representation if scene is available
-    if (context.scene && typeof context.scene.updateUnitSprites === 'function') {
-      context.scene.updateUnitSprites();
-    }
+    // Subscribers (the scene) update the visual representation
+    this.publish(context, 'UnitMoved', { unit: target, from, to: { ...newPos }, path: [{ ...newPos }], kind: 'push' });
 
     // Show orange floating text feedback
-    this.showFeedback('Push!', target, context, '#ff8c00');
+    this.showEffectFeedback('push', {}, target, context);
     
     return true;
   }
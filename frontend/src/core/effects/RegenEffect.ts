@@ -0,0 +1,58 @@
+// RegenEffect.ts
+// Handles heal-over-time application to target units
+
+import { BaseEffect } from './Effect';
+import type { State, TurnBoundary, Unit } from '../Unit';
+import type { EffectContext } from './Effect';
+
+/**
+ * Effect that applies a regeneration state healing every turn
+ * The healing is applied by Unit at the configured turn boundary (start by default)
+ * Shows green floating text feedback when regeneration is applied
+ */
+export class RegenEffect extends BaseEffect {
+  private tickAt: TurnBoundary;
+
+  constructor(value: number, duration: number, sourceSpell?: string, tickAt: TurnBoundary = 'start') {
+    super(value, duration, sourceSpell);
+    this.tickAt = tickAt;
+  }
+
+  /**
+   * Apply regeneration to the target unit
+   * Re-applying regeneration from the same source refreshes it instead of stacking
+   * @param caster The unit casting the spell
+   * @param target The target unit to regenerate
+   * @param context Additional context containing source spell information
+   * @returns true if regeneration was applied, false if target is null or dead
+   */
+  apply(caster: Unit, target: Unit | null, context?: EffectContext): boolean {
+    if (!target || !target.isAlive()) {
+      return false;
+    }
+
+    const sourceSpell = this.sourceSpell || context?.sourceSpell;
+    const existing = target.states.find(s => s.type === 'regen' && s.source === sourceSpell);
+    if (existing) {
+      target.removeState(existing.id);
+    }
+
+    // Regenerations from different sources stack
+    const state: State = {
+      id: `regen_${Date.now()}_${Math.random()}`,
+      type: 'regen',
+      duration: this.duration!,
+      value: this.value,
+      source: sourceSpell,
+      stackable: true,
+      tickAt: this.tickAt
+    };
+
+    target.applyState(state);
+
+    // Show green floating text feedback
+    this.showEffectFeedback('regen', { value: this.value }, target, context);
+
+    return true;
+  }
+}
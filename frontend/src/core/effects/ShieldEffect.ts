@@ -0,0 +1,54 @@
+// ShieldEffect.ts
+// Handles shield (damage absorption) application to target units
+
+import { BaseEffect } from './Effect';
+import type { State, Unit } from '../Unit';
+import type { EffectContext } from './Effect';
+
+/**
+ * Effect that grants a shield absorbing incoming damage before HP
+ * The shield is consumed by Unit.takeDamage and expires after its duration
+ * Shows light blue floating text feedback when the shield is applied
+ */
+export class ShieldEffect extends BaseEffect {
+  constructor(value: number, duration: number, sourceSpell?: string) {
+    super(value, duration, sourceSpell);
+  }
+
+  /**
+   * Apply a shield to the target unit
+   * Re-applying a shield from the same source refreshes it instead of stacking
+   * @param caster The unit casting the spell
+   * @param target The target unit to shield
+   * @param context Additional context containing source spell information
+   * @returns true if the shield was applied, false if target is null or dead
+   */
+  apply(caster: Unit, target: Unit | null, context?: EffectContext): boolean {
+    if (!target || !target.isAlive()) {
+      return false;
+    }
+
+    const sourceSpell = this.sourceSpell || context?.sourceSpell;
+    const existing = target.states.find(s => s.type === 'shield' && s.source === sourceSpell);
+    if (existing) {
+      target.removeState(existing.id);
+    }
+
+    // Shields from different sources stack and are consumed oldest first
+    const state: State = {
+      id: `shield_${Date.now()}_${Math.random()}`,
+      type: 'shield',
+      duration: this.duration!,
+      value: this.value,
+      source: sourceSpell,
+      stackable: true
+    };
+
+    target.applyState(state);
+
+    // Show light blue floating text feedback
+    this.showEffectFeedback('shield', { value: this.value }, target, context);
+
+    return true;
+  }
+}
@@ -0,0 +1,46 @@
+// SwapEffect.ts
+// Handles exchanging the positions of the caster and its target
+
+import { BaseEffect } from './Effect';
+import type { EffectContext } from './Effect';
+import type { Unit } from '../Unit';
+
+/**
+ * Effect that swaps the cells of the caster and the target unit (ally or enemy)
+ * Shows violet floating text feedback when the units are swapped
+ */
+export class SwapEffect extends BaseEffect {
+  constructor(value: number) {
+    super(value);
+  }
+
+  /**
+   * Exchange the positions of caster and target
+   * @param caster The unit casting the spell
+   * @param target The unit to swap places with
+   * @param context Additional context containing map information
+   * @returns true if the units were swapped, false if there is no valid target
+   */
+  apply(caster: Unit, target: Unit | null, context?: EffectContext): boolean {
+    if (!target || !target.isAlive() || !context?.map || target.isSelf(caster)) {
+      return false;
+    }
+
+    // Both cells stay occupied: each unit takes the other's
+    const casterFrom = { ...caster.position };
+    const targetFrom = { ...target.position };
+    caster.position = { ...targetFrom };
+    target.position = { ...casterFrom };
+    context.map.setOccupied(caster.position, caster);
+    context.map.setOccupied(target.position, target);
+
+    // Subscribers (the scene) slide both units to their new cells
+    this.publish(context, 'UnitMoved', { unit: caster, from: casterFrom, to: { ...targetFrom }, path: [{ ...targetFrom }], kind: 'swap' });
+    this.publish(context, 'UnitMoved', { unit: target, from: targetFrom, to: { ...casterFrom }, path: [{ ...casterFrom }], kind: 'swap' });
+
+    // Show violet floating text feedback
+    this.showEffectFeedback('swap', {}, target, context);
+
+    return true;
+  }
+}
@@ -34,17 +34,16 @@ export class TeleportEffect extends BaseEffect {
     }
 
     // Update map occupancy and caster position
+    const from = { ...caster.position };
     context.map.setOccupied(caster.position, null);
     caster.position = { ...pos };
     context.map.setOccupied(pos, caster);
-    
-    // Update visual representation if scene is available
-    if (context.scene && typeof context.scene.updateUnitSprites === 'function') {
-      context.scene.updateUnitSprites();
-    }
+
+    // Subscribers (the scene) update the visual representation
+    this.publish(context, 'UnitMoved', { unit: caster, from, to: { ...pos }, path: [{ ...pos }], kind: 'teleport' });
     
     // Show yellow floating text feedback
-    this.showFeedback('Teleport!', null, context, '#f1c40f');
+    this.showEffectFeedback('teleport', {}, null, context);
     
     return true;
   }
@@ -0,0 +1,110 @@
+// builtinEffects.ts
+// Registers the effects shipped with the game in the shared effect registry.
+// Imported for its side effect by effects/index.ts.
+
+import { DAMAGE_ELEMENTS } from '../Damage';
+import { BuffApEffect } from './BuffApEffect';
+import { DamageEffect } from './DamageEffect';
+import { DashEffect } from './DashEffect';
+import { DrainApEffect } from './DrainApEffect';
+import { effectRegistry } from './EffectRegistry';
+import type { EffectDefinition } from './EffectRegistry';
+import { HealEffect } from './HealEffect';
+import { PoisonEffect } from './PoisonEffect';
+import { PullEffect } from './PullEffect';
+import { PushEffect } from './PushEffect';
+import { RegenEffect } from './RegenEffect';
+import { ShieldEffect } from './ShieldEffect';
+import { SwapEffect } from './SwapEffect';
+import { TeleportEffect } from './TeleportEffect';
+
+const duration = { kind: 'integer', required: true, min: 0 } as const;
+const tickAt = { kind: 'string', oneOf: ['start', 'end'] } as const;
+
+export const BUILTIN_EFFECTS: EffectDefinition[] = [
+  {
+    type: 'damage',
+    create: config => new DamageEffect(config.value, config.element),
+    params: { element: { kind: 'string', oneOf: DAMAGE_ELEMENTS } },
+    tint: 0xff4444, // Red
+    formatFeedback: ({ damage, absorbed }) =>
+      absorbed > 0 ? `-${damage} HP (${absorbed} absorbed)` : `-${damage} HP`
+  },
+  {
+    type: 'heal',
+    create: config => new HealEffect(config.value),
+    tint: 0x3ecf4a, // Green
+    formatFeedback: ({ value }) => `+${value} HP`
+  },
+  {
+    type: 'buff_ap',
+    create: config => new BuffApEffect(config.value, config.duration!, config.sourceSpell),
+    params: { duration },
+    tint: 0x3a8fff, // Light blue
+    formatFeedback: ({ value }) => `+${value} AP`
+  },
+  {
+    type: 'drain_ap',
+    create: config => new DrainApEffect(config.value, config.duration!),
+    params: { duration },
+    tint: 0x6a5acd, // Purple/blue (debuff)
+    formatFeedback: ({ value }) => `-${value} AP`
+  },
+  {
+    type: 'teleport',
+    create: config => new TeleportEffect(config.value),
+    tint: 0xf1c40f, // Yellow
+    formatFeedback: () => 'Teleport!'
+  },
+  {
+    type: 'push',
+    create: config => new PushEffect(config.value, config.radius || 1),
+    params: { radius: { kind: 'integer', min: 1 } },
+    tint: 0xff8c00, // Orange
+    formatFeedback: () => 'Push!'
+  },
+  {
+    type: 'pull',
+    create: config => new PullEffect(config.value, config.radius || 1),
+    params: { radius: { kind: 'integer', min: 1 } },
+    tint: 0xff8c00, // Orange
+    formatFeedback: () => 'Pull!'
+  },
+  {
+    type: 'swap',
+    create: config => new SwapEffect(config.value),
+    tint: 0xb57edc, // Violet
+    formatFeedback: () => 'Swap!'
+  },
+  {
+    type: 'dash',
+    create: config => new DashEffect(config.value),
+    tint: 0xffb347, // Light orange
+    formatFeedback: () => 'Dash!'
+  },
+  {
+    type: 'poison',
+    create: config => new PoisonEffect(config.value, config.duration!, config.sourceSpell, config.tickAt),
+    params: { duration, tickAt },
+    tint: 0x8e44ad, // Purple (damage over time)
+    formatFeedback: ({ value }) => `Poison ${value}/turn`
+  },
+  {
+    type: 'regen',
+    create: config => new RegenEffect(config.value, config.duration!, config.sourceSpell, config.tickAt),
+    params: { duration, tickAt },
+    tint: 0x3ecf4a, // Green (heal over time)
+    formatFeedback: ({ value }) => `Regen ${value}/turn`
+  },
+  {
+    type: 'shield',
+    create: config => new ShieldEffect(config.value, config.duration!, config.sourceSpell),
+    params: { duration },
+    tint: 0x9fd8ff, // Pale blue (damage absorption)
+    formatFeedback: ({ value }) => `+${value} Shield`
+  }
+];
+
+for (const definition of BUILTIN_EFFECTS) {
+  effectRegistry.register(definition);
+}
@@ -2,15 +2,22 @@
 // Export all effect classes for easy importing
 
 export type { IEffect, BaseEffect, EffectContext } from './Effect';
+export { EffectRegistry, effectRegistry } from './EffectRegistry';
+export type { EffectDefinition, EffectParamSpec, EffectFeedbackData, EffectConfigIssue } from './EffectRegistry';
+export { BUILTIN_EFFECTS } from './builtinEffects';
 export { DamageEffect } from './DamageEffect';
 export { HealEffect } from './HealEffect';
 export { BuffApEffect } from './BuffApEffect';
 export { DrainApEffect } from './DrainApEffect';
 export { TeleportEffect } from './TeleportEffect';
 export { PushEffect } from './PushEffect';
+export { PullEffect } from './PullEffect';
+export { SwapEffect } from './SwapEffect';
+export { DashEffect } from './DashEffect';
+export { PoisonEffect } from './PoisonEffect';
+export { RegenEffect } from './RegenEffect';
+export { ShieldEffect } from './ShieldEffect';
 
 // Future effects can be added here:
-// export { PullEffect } from './PullEffect';
 // export { AreaHealEffect } from './AreaHealEffect';
-// export { SwapEffect } from './SwapEffect';
 // export { AreaDamageEffect } from './AreaDamageEffect'; 
\ No newline at end of file
@@ -0,0 +1,229 @@
+// MatchClient.ts
+// Client side of an online match: joins a MatchServer, sends commands and keeps a copy of the
+// authoritative state up to date from the server's diffs. Every update is checked against the server's
+// hash; a mismatch (desync) or a gap in the updates asks the server for the whole state again.
+// That copy is rebuilt from the server's own diffs, so the check only catches lost or garbled updates;
+// whether the rules played locally agree with the server is checked by NetworkSystem on the scene state.
+// Dropped connections are retried with the seat token, so the player gets its team back.
+
+import type { BattleCommand } from '@core/battle/BattleCommands';
+import type { BattleSave } from '@core/battle/BattleSave';
+
+import { SERVER_MESSAGE_TYPES, parseMessage } from './Protocol';
+import type { ClientMessage, ServerMessage } from './Protocol';
+import { applySaveDiff, hashSave } from './StateSync';
+
+/** The part of the WebSocket API the client uses (browser WebSocket, or `ws` in Node) */
+export interface SocketLike {
+  send(data: string): void;
+  close(): void;
+  addEventListener(type: 'open' | 'close' | 'message', listener: (event: { data?: unknown }) => void): void;
+}
+
+type UpdateMessage = Extract<ServerMessage, { type: 'update' }>;
+
+export interface MatchClientEventMap {
+  /** Joined (or joined again after a reconnect) */
+  welcome: { team: number };
+  /** A command was applied on the server and on the local copy */
+  update: UpdateMessage;
+  /** The local copy was replaced by the whole state (join, reconnect, resync) */
+  snapshot: { state: BattleSave };
+  rejected: { command: BattleCommand; reason: string };
+  presence: { team: number; connected: boolean };
+  /** The local copy did not match the server after an update; a resync was requested */
+  desync: { seq: number; expected: string; actual: string };
+  disconnected: { willReconnect: boolean };
+  error: { message: string };
+}
+
+type MatchClientListener<K extends keyof MatchClientEventMap> = (payload: MatchClientEventMap[K]) => void;
+
+export interface MatchClientOptions {
+  url: string;
+  matchId: string;
+  /** Opens the connection; the browser WebSocket by default */
+  createSocket?: (url: string) => SocketLike;
+  /** Pause before each reconnection attempt (ms) */
+  reconnectDelayMs?: number;
+  maxReconnectAttempts?: number;
+}
+
+export class MatchClient {
+  /** Team played by this client, null before the first welcome */
+  team: number | null = null;
+  /** Local copy of the authoritative state */
+  state: BattleSave | null = null;
+  seq: number = 0;
+  private token: string | undefined;
+  private socket: SocketLike | null = null;
+  private connected: boolean = false;
+  private closed: boolean = false;
+  private reconnectAttempts: number = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners: { [K in keyof MatchClientEventMap]?: MatchClientListener<K>[] } = {};
+  private createSocket: (url: string) => SocketLike;
+  private reconnectDelayMs: number;
+  private maxReconnectAttempts: number;
+
+  constructor(private options: MatchClientOptions) {
+    this.createSocket = options.createSocket ?? (url => new WebSocket(url));
+    this.reconnectDelayMs = options.reconnectDelayMs ?? 1000;
+    this.maxReconnectAttempts = options.maxReconnectAttempts ?? 10;
+  }
+
+  /**
+   * Connects and joins the match.
+   * @returns a promise resolved on the first welcome, rejected if the server refuses the join or the connection fails
+   */
+  connect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const offWelcome = this.on('welcome', () => {
+        offWelcome();
+        offError();
+        resolve();
+      });
+      const offError = this.on('error', ({ message }) => {
+        if (this.team !== null) return;
+        offWelcome();
+        offError();
+        reject(new Error(message));
+      });
+      this.open();
+    });
+  }
+
+  /** Subscribes to a client event. Returns a function that removes the listener. */
+  on<K extends keyof MatchClientEventMap>(type: K, listener: MatchClientListener<K>): () => void {
+    const list = (this.listeners[type] ??= []) as MatchClientListener<K>[];
+    list.push(listener);
+    return () => {
+      const index = list.indexOf(listener);
+      if (index !== -1) list.splice(index, 1);
+    };
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * Sends a command to the server; the local copy only changes when the server broadcasts it.
+   * @returns false if not connected
+   */
+  send(command: BattleCommand): boolean {
+    return this.sendMessage({ type: 'command', command });
+  }
+
+  /** Asks the server for the whole state */
+  requestSync() {
+    this.sendMessage({ type: 'sync' });
+  }
+
+  /** Leaves for good (no reconnection) */
+  close() {
+    this.closed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.socket?.close();
+    this.socket = null;
+    this.connected = false;
+  }
+
+  private open() {
+    const socket = this.createSocket(this.options.url);
+    this.socket = socket;
+    socket.addEventListener('open', () => {
+      this.sendMessage({ type: 'join', matchId: this.options.matchId, token: this.token }, socket);
+    });
+    socket.addEventListener('message', event => {
+      if (this.socket !== socket) return;
+      const message = parseMessage<ServerMessage>(String(event.data), SERVER_MESSAGE_TYPES);
+      if (message) this.handleMessage(message);
+    });
+    socket.addEventListener('close', () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.connected = false;
+      this.handleDisconnect();
+    });
+  }
+
+  private handleDisconnect() {
+    const willReconnect = !this.closed && this.team !== null && this.reconnectAttempts < this.maxReconnectAttempts;
+    this.emit('disconnected', { willReconnect });
+    if (!willReconnect) {
+      if (this.team === null && !this.closed) this.emit('error', { message: 'connection closed before joining' });
+      return;
+    }
+    this.reconnectAttempts++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open();
+    }, this.reconnectDelayMs);
+  }
+
+  private handleMessage(message: ServerMessage) {
+    switch (message.type) {
+      case 'welcome':
+        this.connected = true;
+        this.reconnectAttempts = 0;
+        this.team = message.team;
+        this.token = message.token;
+        this.replaceState(message.seq, message.state);
+        this.emit('welcome', { team: message.team });
+        break;
+      case 'snapshot':
+        this.replaceState(message.seq, message.state);
+        break;
+      case 'update':
+        this.applyUpdate(message);
+        break;
+      case 'rejected':
+        this.emit('rejected', { command: message.command, reason: message.reason });
+        break;
+      case 'presence':
+        this.emit('presence', { team: message.team, connected: message.connected });
+        break;
+      case 'error':
+        this.emit('error', { message: message.message });
+        break;
+    }
+  }
+
+  private applyUpdate(update: UpdateMessage) {
+    if (!this.state) return;
+    // A gap means updates were lost: the diff cannot be applied, fetch the whole state instead
+    if (update.seq !== this.seq + 1) {
+      this.requestSync();
+      return;
+    }
+    this.state = applySaveDiff(this.state, update.diff);
+    this.seq = update.seq;
+    // Transport check only (see the header): real divergence is detected by NetworkSystem
+    const actual = hashSave(this.state);
+    this.emit('update', update);
+    if (actual !== update.hash) {
+      this.emit('desync', { seq: update.seq, expected: update.hash, actual });
+      this.requestSync();
+    }
+  }
+
+  private replaceState(seq: number, state: BattleSave) {
+    this.seq = seq;
+    this.state = state;
+    this.emit('snapshot', { state });
+  }
+
+  private sendMessage(message: ClientMessage, socket: SocketLike | null = this.socket): boolean {
+    if (!socket || (message.type !== 'join' && !this.connected)) return false;
+    socket.send(JSON.stringify(message));
+    return true;
+  }
+
+  private emit<K extends keyof MatchClientEventMap>(type: K, payload: MatchClientEventMap[K]) {
+    const list = this.listeners[type] as MatchClientListener<K>[] | undefined;
+    if (!list) return;
+    for (const listener of [...list]) listener(payload);
+  }
+}
@@ -0,0 +1,42 @@
+// Protocol.ts
+// Messages exchanged between MatchClient and MatchServer, one JSON object per WebSocket message.
+// The server is authoritative: clients only send commands, the server validates and applies them
+// with the shared rules (BattleSimulator) and broadcasts the result to every player of the match.
+
+import type { BattleCommand } from '@core/battle/BattleCommands';
+import type { BattleSave } from '@core/battle/BattleSave';
+
+import type { NetEvent, SaveDiff } from './StateSync';
+
+export type ClientMessage =
+  /** First message of a connection; `token` (from a previous welcome) takes the same seat back */
+  | { type: 'join'; matchId: string; token?: string }
+  | { type: 'command'; command: BattleCommand }
+  /** Asks for the whole state again (after a desync or missed updates) */
+  | { type: 'sync' };
+
+export type ServerMessage =
+  /** Seat in the match (the team played) and the whole state */
+  | { type: 'welcome'; team: number; token: string; seq: number; state: BattleSave; hash: string }
+  /** A command was applied; `seq` grows by one with every update of the match */
+  | { type: 'update'; seq: number; command: BattleCommand; diff: SaveDiff; events: NetEvent[]; hash: string }
+  | { type: 'snapshot'; seq: number; state: BattleSave; hash: string }
+  /** A command of this client was refused; the state did not change */
+  | { type: 'rejected'; command: BattleCommand; reason: string }
+  /** Another player of the match connected or lost its connection */
+  | { type: 'presence'; team: number; connected: boolean }
+  | { type: 'error'; message: string };
+
+/** Parses a message and checks its type; returns null for anything that is not a known message */
+export function parseMessage<T extends ClientMessage | ServerMessage>(text: string, types: readonly T['type'][]): T | null {
+  try {
+    const data = JSON.parse(text);
+    if (typeof data !== 'object' || data === null || !types.includes(data.type)) return null;
+    return data as T;
+  } catch {
+    return null;
+  }
+}
+
+export const CLIENT_MESSAGE_TYPES: readonly ClientMessage['type'][] = ['join', 'command', 'sync'];
+export const SERVER_MESSAGE_TYPES: readonly ServerMessage['type'][] = ['welcome', 'update', 'snapshot', 'rejected', 'presence', 'error'];
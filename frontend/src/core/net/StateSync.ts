@@ -0,0 +1,96 @@
+// StateSync.ts
+// Keeps copies of a battle in sync over the network. The server sends, after every command, the diff
+// between the previous and the new save (see BattleSave) and a hash of the new one; clients apply the diff
+// and compare hashes to detect a desync. Events are sent too, with units and spells replaced by their ids.
+
+import type { BattleEvent, BattleEventType } from '@core/battle/BattleEvents';
+import type { BattleSave, SavedUnit } from '@core/battle/BattleSave';
+import type { Json } from '@core/data/DataChecker';
+import { Spell } from '@core/Spell';
+import type { TurnManagerSnapshot } from '@core/TurnManager';
+import { Unit } from '@core/Unit';
+
+/** Parts of a save that changed; units only list the fields that changed (new units are sent whole) */
+export interface SaveDiff {
+  rngState?: number;
+  map?: BattleSave['map'];
+  turns?: TurnManagerSnapshot;
+  units?: Record<string, Partial<SavedUnit>>;
+}
+
+/** A battle event as sent over the network: units are replaced by their id, spells by their name */
+export interface NetEvent {
+  type: BattleEventType;
+  payload: Json;
+}
+
+/** JSON with sorted keys, so equal data always gives the same text */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Hash of the rules-relevant part of a save (FNV-1a, hex). Metadata (date, version, arena, objectives)
+ * and state ids, which are generated per machine, are left out.
+ */
+export function hashSave(save: BattleSave): string {
+  const units = save.units.map(unit => ({ ...unit, states: unit.states.map(state => ({ ...state, id: undefined })) }));
+  const text = stableStringify({ seed: save.seed, rngState: save.rngState, map: save.map, units, turns: save.turns });
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+/** What changed from one save of a battle to the next */
+export function diffSaves(before: BattleSave, after: BattleSave): SaveDiff {
+  const diff: SaveDiff = {};
+  const same = (a: unknown, b: unknown) => stableStringify(a) === stableStringify(b);
+  if (before.rngState !== after.rngState) diff.rngState = after.rngState;
+  if (!same(before.map, after.map)) diff.map = after.map;
+  if (!same(before.turns, after.turns)) diff.turns = after.turns;
+  const previous = new Map(before.units.map(u => [u.id, u]));
+  for (const unit of after.units) {
+    const old = previous.get(unit.id);
+    const changes: Partial<SavedUnit> = {};
+    for (const key of Object.keys(unit) as (keyof SavedUnit)[]) {
+      if (!old || !same(old[key], unit[key])) (changes as Record<string, unknown>)[key] = unit[key];
+    }
+    if (Object.keys(changes).length > 0) (diff.units ??= {})[unit.id] = changes;
+  }
+  return JSON.parse(JSON.stringify(diff));
+}
+
+/** Applies a diff from diffSaves; returns a new save */
+export function applySaveDiff(save: BattleSave, diff: SaveDiff): BattleSave {
+  const next: BattleSave = JSON.parse(JSON.stringify(save));
+  if (diff.rngState !== undefined) next.rngState = diff.rngState;
+  if (diff.map) next.map = JSON.parse(JSON.stringify(diff.map));
+  if (diff.turns) next.turns = JSON.parse(JSON.stringify(diff.turns));
+  for (const [id, changes] of Object.entries(diff.units ?? {})) {
+    const copy = JSON.parse(JSON.stringify(changes));
+    const index = next.units.findIndex(u => u.id === id);
+    if (index === -1) next.units.push(copy as SavedUnit);
+    else next.units[index] = { ...next.units[index], ...copy };
+  }
+  return next;
+}
+
+export function toNetEvent(event: BattleEvent): NetEvent {
+  const payload = JSON.parse(JSON.stringify(event.payload, (_key, value) => {
+    if (value instanceof Unit) return value.id;
+    if (value instanceof Spell) return value.name;
+    return value;
+  }));
+  return { type: event.type, payload };
+}
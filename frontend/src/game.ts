@@ -1,4 +1,7 @@
-import { Application, Sprite } from 'pixi.js';
+import { MainMenuScene } from '@scenes/MainMenuScene';
+import { SceneManager } from '@scenes/SceneManager';
+import { Application } from 'pixi.js';
+
 import { loadInitialAssets } from './loader';
 
 /**
@@ -8,6 +11,7 @@ import { loadInitialAssets } from './loader';
 export class Game {
   private app: Application;
   private container: HTMLElement;
+  private sceneManager: SceneManager | null = null;
 
   constructor(container: HTMLElement) {
     this.container = container;
@@ -15,7 +19,7 @@ export class Game {
   }
 
   async start() {
-    // Initialize PixiJS with minimum size 880x720 (grid 640x640 + space for spell bar)
+    // Initialize PixiJS at 720x880 (grid + timeline + spell bar); BattleScene shrinks larger boards to fit
     await this.app.init({
       width: 720,
       height: 880,
@@ -30,15 +34,18 @@ export class Game {
     this.app.canvas.style.boxShadow = '0 0 32px #000a';
     // Carga los recursos iniciales
     await loadInitialAssets();
-    // Here you could change to the initial scene (menu, combat, etc.)
+    // Las escenas se apilan sobre el stage; el menú principal queda en la base
+    this.sceneManager = new SceneManager(this.app.stage, this.app.screen);
     this.showInitialScene();
   }
 
+  /** Pila de escenas (disponible después de start) */
+  get scenes(): SceneManager {
+    if (!this.sceneManager) throw new Error('Game.start() has not finished yet');
+    return this.sceneManager;
+  }
+
   private showInitialScene() {
-    // Por ahora, solo muestra un fondo cargado
-    const bg = Sprite.from('background');
-    bg.width = this.app.screen.width;
-    bg.height = this.app.screen.height;
-    this.app.stage.addChild(bg);
+    this.scenes.push(new MainMenuScene());
   }
 } 
\ No newline at end of file
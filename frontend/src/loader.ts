@@ -1,5 +1,20 @@
+import type { Arena } from '@core/Arena';
+import { loadArenaData } from '@core/data/ArenaLoader';
 import { Assets } from 'pixi.js';
 
+/**
+ * Arenas shipped with the game, by asset alias. Map files live in public/assets/maps,
+ * either in the native format (see config/arena.schema.json) or as Tiled JSON exports.
+ */
+export const ARENAS = {
+  'arena-crossroads': '/assets/maps/crossroads.json',
+  'arena-ruins': '/assets/maps/ruins.json',
+} as const;
+
+export type ArenaAlias = keyof typeof ARENAS;
+
+export const DEFAULT_ARENA: ArenaAlias = 'arena-crossroads';
+
 /**
  * Carga los recursos iniciales del juego (por ejemplo, el fondo).
  * Puedes agregar más assets en el futuro.
@@ -18,5 +33,23 @@ export async function loadInitialAssets() {
       alias: 'player2',
       src: '/assets/sprites/player2.png',
     },
+    // Decoraciones de los mapas (referenciadas por alias desde los archivos de arena)
+    {
+      alias: 'deco-grass',
+      src: '/assets/decorations/grass.png',
+    },
+    {
+      alias: 'deco-rubble',
+      src: '/assets/decorations/rubble.png',
+    },
+    ...Object.entries(ARENAS).map(([alias, src]) => ({ alias, src })),
   ]);
-} 
\ No newline at end of file
+}
+
+/**
+ * Returns a loaded arena, validated (throws ArenaDataError if its map file is invalid).
+ * Call after loadInitialAssets().
+ */
+export function getArena(alias: ArenaAlias): Arena {
+  return loadArenaData(Assets.get(alias), ARENAS[alias]);
+}
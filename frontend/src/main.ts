@@ -1,20 +1,31 @@
 // Punto de entrada principal
 // Initialize PixiJS, load minimal assets and invoke the initial scene
-import { Game } from './game';
+import { MatchClient } from '@core/net/MatchClient';
 import { BattleScene } from '@scenes/BattleScene';
 
+import { Game } from './game';
+
 // Wait for DOM to be ready
 window.addEventListener('DOMContentLoaded', () => {
   const container = document.getElementById('game-container');
   if (!container) {
     throw new Error('No se encontró el contenedor del juego');
   }
-  // Instancia y lanza el juego
+  // Instancia y lanza el juego (muestra el menú principal)
   const game = new Game(container);
   game.start().then(() => {
-    // Instancia la escena de batalla y la agrega al stage
-    const battleScene = new BattleScene();
-    // Background is assumed to be already loaded by Game
-    game['app'].stage.addChild(battleScene);
+    // Acceso directo a una partida online con ?server=ws://localhost:8787&match=<id> (servidor: npm run server);
+    // la batalla se apila sobre el menú principal
+    const params = new URLSearchParams(window.location.search);
+    const server = params.get('server');
+    if (server) {
+      const client = new MatchClient({ url: server, matchId: params.get('match') ?? 'default' });
+      client.connect()
+        .then(() => game.scenes.push(() => new BattleScene({ online: client, screen: game.scenes.screen })))
+        .catch(error => {
+          client.close();
+          console.error(`No se pudo unir a la partida online: ${error.message}`);
+        });
+    }
   });
-}); 
\ No newline at end of file
+});
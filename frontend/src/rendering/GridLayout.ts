@@ -0,0 +1,76 @@
+// GridLayout.ts
+// Coordinate conversion between grid cells and pixels, shared by every module that draws on the board
+// (GridView, unit sprites, highlights, floating feedback). Pixels are local to the board: (0,0) is the
+// top-left corner of cell (0,0).
+
+import { MIN_CELL_SIZE } from '@core/Arena';
+import type { Position } from '@core/MapGrid';
+
+export interface GridLayoutOptions {
+  width: number;
+  height: number;
+  cellSize: number;
+}
+
+export class GridLayout {
+  readonly width: number;
+  readonly height: number;
+  readonly cellSize: number;
+
+  constructor(options: GridLayoutOptions) {
+    if (options.cellSize <= 0) throw new Error(`Cell size must be positive, got ${options.cellSize}`);
+    this.width = options.width;
+    this.height = options.height;
+    this.cellSize = options.cellSize;
+  }
+
+  /**
+   * Layout whose board fits in the given pixel area: the preferred cell size is kept when it fits,
+   * otherwise it shrinks (never below MIN_CELL_SIZE)
+   */
+  static fit(width: number, height: number, preferredCellSize: number, maxWidth: number, maxHeight: number): GridLayout {
+    const fitting = Math.floor(Math.min(maxWidth / width, maxHeight / height));
+    const cellSize = Math.max(MIN_CELL_SIZE, Math.min(preferredCellSize, fitting));
+    return new GridLayout({ width, height, cellSize });
+  }
+
+  /** Board size in pixels */
+  get pixelWidth(): number {
+    return this.width * this.cellSize;
+  }
+
+  get pixelHeight(): number {
+    return this.height * this.cellSize;
+  }
+
+  inBounds(pos: Position): boolean {
+    return pos.x >= 0 && pos.x < this.width && pos.y >= 0 && pos.y < this.height;
+  }
+
+  /** Top-left corner of a cell */
+  cellToPixel(pos: Position): { x: number; y: number } {
+    return { x: pos.x * this.cellSize, y: pos.y * this.cellSize };
+  }
+
+  /** Center of a cell (where unit sprites are anchored) */
+  cellCenter(pos: Position): { x: number; y: number } {
+    return { x: (pos.x + 0.5) * this.cellSize, y: (pos.y + 0.5) * this.cellSize };
+  }
+
+  /** Cell under a board pixel, or null outside the board */
+  pixelToCell(x: number, y: number): Position | null {
+    const cell = { x: Math.floor(x / this.cellSize), y: Math.floor(y / this.cellSize) };
+    return this.inBounds(cell) ? cell : null;
+  }
+
+  /** Every cell of the board, row by row */
+  cells(): Position[] {
+    const cells: Position[] = [];
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
+        cells.push({ x, y });
+      }
+    }
+    return cells;
+  }
+}
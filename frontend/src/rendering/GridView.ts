@@ -1,44 +1,73 @@
 // GridView.ts
 // Renders the board, highlights reachable cells, and displays the movement path
 
-import { Container, Graphics, Rectangle, Sprite, Texture } from 'pixi.js';
+import type { Arena, DecorationLayer } from '@core/Arena';
 import type { Position } from '@core/Grid';
+import type { TackleCost } from '@core/Tackle';
+import type { TerrainKind } from '@core/Terrain';
+import { Container, Graphics, Rectangle, Sprite, Text, Texture } from 'pixi.js';
 
-export interface GridViewOptions {
-  cellSize: number;
-  width: number;
-  height: number;
-}
+import { GridLayout } from './GridLayout';
+import type { GridLayoutOptions } from './GridLayout';
+
+export type GridViewOptions = GridLayoutOptions;
+
+/** Fill of each terrain kind; floor keeps the board background */
+const TERRAIN_STYLES: Record<TerrainKind, { color: number; alpha: number } | null> = {
+  floor: null,
+  wall: { color: 0x4a4a52, alpha: 1 },
+  water: { color: 0x2e86c1, alpha: 0.6 },
+  mud: { color: 0x7b5a3a, alpha: 0.7 },
+  pit: { color: 0x0b0b0f, alpha: 0.9 },
+};
 
 export class GridView extends Container {
-  private options: GridViewOptions;
+  /** Cell/pixel conversions of this board */
+  readonly layout: GridLayout;
+  private terrainLayer: Graphics;
+  private decorationLayer: Container;
   private gridLayer: Graphics;
   private highlightLayer: Container;
   private pathContainer: Container;
+  private focusLayer: Graphics;
   private hitAreaGraphics: Graphics;
 
-  constructor(options: GridViewOptions) {
+  constructor(options: GridViewOptions | GridLayout) {
     super();
-    this.options = options;
+    this.layout = options instanceof GridLayout ? options : new GridLayout(options);
 
+    this.terrainLayer = new Graphics();
+    this.decorationLayer = new Container();
     this.gridLayer = new Graphics();
     this.highlightLayer = new Container();
     this.pathContainer = new Container();
+    this.focusLayer = new Graphics();
     this.hitAreaGraphics = this.createHitArea();
 
     this.drawGrid();
 
     this.addChild(this.hitAreaGraphics); // always behind
+    this.addChild(this.terrainLayer);
+    this.addChild(this.decorationLayer);
     this.addChild(this.gridLayer);
     this.addChild(this.highlightLayer);
     this.addChild(this.pathContainer);
+    this.addChild(this.focusLayer);
 
     this.eventMode = 'static';
   }
 
+  /** Builds the board of an arena with its terrain and decorations drawn; the layout must match the arena size */
+  static fromArena(arena: Arena, layout: GridLayout): GridView {
+    const view = new GridView(layout);
+    view.drawTerrain(pos => arena.terrain[pos.y][pos.x]);
+    view.drawDecorations(arena.decorations);
+    return view;
+  }
+
   /** Creates a transparent hit area to capture pointer events */
   private createHitArea(): Graphics {
-    const { width, height, cellSize } = this.options;
+    const { width, height, cellSize } = this.layout;
     const hit = new Graphics();
     hit.fill({ color: 0xffffff, alpha: 0 });
     hit.rect(0, 0, width * cellSize, height * cellSize);
@@ -51,7 +80,7 @@ export class GridView extends Container {
 
   /** Draws the grid lines based on configured dimensions */
   private drawGrid(): void {
-    const { width, height, cellSize } = this.options;
+    const { width, height, cellSize } = this.layout;
     this.gridLayer.clear();
     this.gridLayer.setStrokeStyle({ width: 1, color: 0x888888, alpha: 0.5 });
     for (let y = 0; y <= height; y++) {
@@ -64,6 +93,64 @@ export class GridView extends Container {
     }
   }
 
+  /**
+   * Draws the terrain of every cell: walls raised with a light top edge, water and mud as tinted floor,
+   * pits as dark holes with a rim
+   */
+  public drawTerrain(getTerrain: (pos: Position) => TerrainKind): void {
+    const { width, height, cellSize } = this.layout;
+    this.terrainLayer.clear();
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const terrain = getTerrain({ x, y });
+        const style = TERRAIN_STYLES[terrain];
+        if (!style) continue;
+        const px = x * cellSize;
+        const py = y * cellSize;
+        this.terrainLayer.rect(px, py, cellSize, cellSize).fill(style);
+        if (terrain === 'wall') {
+          this.terrainLayer.rect(px, py, cellSize, 6).fill({ color: 0x8a8a96 });
+        } else if (terrain === 'pit') {
+          this.terrainLayer
+            .rect(px + 4, py + 4, cellSize - 8, cellSize - 8)
+            .stroke({ width: 2, color: 0x3a3a44 });
+        } else if (terrain === 'water') {
+          // Two wave lines
+          for (const wy of [py + cellSize / 3, py + (2 * cellSize) / 3]) {
+            this.terrainLayer
+              .moveTo(px + 10, wy)
+              .quadraticCurveTo(px + cellSize / 4 + 5, wy - 6, px + cellSize / 2, wy)
+              .quadraticCurveTo(px + (3 * cellSize) / 4 - 5, wy + 6, px + cellSize - 10, wy)
+              .stroke({ width: 2, color: 0xaed6f1, alpha: 0.8 });
+          }
+        } else if (terrain === 'mud') {
+          for (const [dx, dy] of [[0.3, 0.35], [0.65, 0.3], [0.5, 0.7]]) {
+            this.terrainLayer.circle(px + dx * cellSize, py + dy * cellSize, 5).fill({ color: 0x5c4033 });
+          }
+        }
+      }
+    }
+  }
+
+  /** Draws the decorative layers of an arena over the terrain, one container per layer in the given order */
+  public drawDecorations(layers: DecorationLayer[]): void {
+    const { cellSize } = this.layout;
+    this.decorationLayer.removeChildren();
+    for (const layer of layers) {
+      const container = new Container({ label: layer.name });
+      container.alpha = layer.alpha ?? 1;
+      for (const tile of layer.tiles) {
+        const sprite = new Sprite(Texture.from(tile.texture));
+        sprite.width = cellSize;
+        sprite.height = cellSize;
+        sprite.x = tile.x * cellSize;
+        sprite.y = tile.y * cellSize;
+        container.addChild(sprite);
+      }
+      this.decorationLayer.addChild(container);
+    }
+  }
+
   /** Highlights all reachable cells in blue */
   public showReachableCells(cells: Position[]): void {
     this.highlightLayer.removeChildren();
@@ -71,27 +158,32 @@ export class GridView extends Container {
       const sprite = new Sprite(Texture.WHITE);
       sprite.tint = 0x3399ff;
       sprite.alpha = 0.4;
-      sprite.width = this.options.cellSize;
-      sprite.height = this.options.cellSize;
-      sprite.x = cell.x * this.options.cellSize;
-      sprite.y = cell.y * this.options.cellSize;
+      sprite.width = this.layout.cellSize;
+      sprite.height = this.layout.cellSize;
+      sprite.x = cell.x * this.layout.cellSize;
+      sprite.y = cell.y * this.layout.cellSize;
       this.highlightLayer.addChild(sprite);
     }
   }
 
-  /** Displays the movement path, including the final cell */
-  public showPath(path: Position[]): void {
+  /**
+   * Displays the movement path, including the final cell
+   * @param tackle Tackle paid by each step (see Tackle.getPathTackle); steps that pay any are tinted
+   *   orange and labelled with the MP/AP lost
+   */
+  public showPath(path: Position[], tackle: TackleCost[] = []): void {
     // Clear previous path
     this.pathContainer.removeChildren();
     if (!path || path.length === 0) return;
 
-    const { cellSize } = this.options;
+    const { cellSize } = this.layout;
 
     // Draw each path cell as a tinted sprite
     path.forEach((cell, idx) => {
       const isLast = idx === path.length - 1;
+      const tackled = (tackle[idx]?.mp ?? 0) + (tackle[idx]?.ap ?? 0) > 0;
       const sprite = new Sprite(Texture.WHITE);
-      sprite.tint = isLast ? 0x99ff99 : 0x33ff66;
+      sprite.tint = tackled ? 0xff9933 : isLast ? 0x99ff99 : 0x33ff66;
       sprite.alpha = 0.5;
       sprite.width = cellSize;
       sprite.height = cellSize;
@@ -116,6 +208,21 @@ export class GridView extends Container {
       }
       this.pathContainer.addChild(lineG);
     }
+
+    // Tackle labels above the line
+    path.forEach((cell, idx) => {
+      const cost = tackle[idx];
+      if (!cost || cost.mp + cost.ap === 0) return;
+      const text = [cost.mp > 0 ? `-${cost.mp} MP` : '', cost.ap > 0 ? `-${cost.ap} AP` : ''].filter(Boolean).join('\n');
+      const label = new Text({
+        text,
+        style: { fontSize: Math.max(10, cellSize / 5), fill: '#ffffff', fontWeight: 'bold', align: 'center', stroke: { color: '#7a3500', width: 3 } }
+      });
+      label.anchor.set(0.5);
+      label.x = cell.x * cellSize + cellSize / 2;
+      label.y = cell.y * cellSize + cellSize / 2;
+      this.pathContainer.addChild(label);
+    });
   }
 
   /** Clears both highlights and path drawing */
@@ -124,16 +231,19 @@ export class GridView extends Container {
     this.pathContainer.removeChildren();
   }
 
+  /** Outlines a single cell (e.g. the unit hovered in the turn timeline); null clears it */
+  public highlightCell(cell: Position | null): void {
+    this.focusLayer.clear();
+    if (!cell) return;
+    const { cellSize } = this.layout;
+    this.focusLayer
+      .rect(cell.x * cellSize + 2, cell.y * cellSize + 2, cellSize - 4, cellSize - 4)
+      .fill({ color: 0xffffff, alpha: 0.15 })
+      .stroke({ width: 3, color: 0xffd54f });
+  }
+
   /** Converts pixel coordinates into grid cell coordinates */
   public getCellAtPixel(x: number, y: number): Position | null {
-    const cx = Math.floor(x / this.options.cellSize);
-    const cy = Math.floor(y / this.options.cellSize);
-    if (
-      cx >= 0 && cx < this.options.width &&
-      cy >= 0 && cy < this.options.height
-    ) {
-      return { x: cx, y: cy };
-    }
-    return null;
+    return this.layout.pixelToCell(x, y);
   }
 }
@@ -0,0 +1,85 @@
+// TurnTimeline.ts
+// Renders the upcoming turns as a strip of portraits (class color, initial and HP bar)
+// and reports which unit the pointer is over so the scene can highlight it on the grid
+import type { Unit } from '@core/Unit';
+import { Container, Graphics, Text } from 'pixi.js';
+
+export interface TurnTimelineOptions {
+  /** Portrait size in pixels */
+  portraitSize?: number;
+  spacing?: number;
+}
+
+const DEFAULT_PORTRAIT_COLOR = 0x888888;
+
+export class TurnTimeline extends Container {
+  private portraitSize: number;
+  private spacing: number;
+  private hoverListener: ((unit: Unit | null) => void) | null = null;
+
+  constructor(options: TurnTimelineOptions = {}) {
+    super();
+    this.portraitSize = options.portraitSize ?? 48;
+    this.spacing = options.spacing ?? 8;
+  }
+
+  /** Total width of the strip for the given number of portraits */
+  getStripWidth(count: number): number {
+    return count * this.portraitSize + Math.max(0, count - 1) * this.spacing;
+  }
+
+  /** Height of the strip (one portrait) */
+  getStripHeight(): number {
+    return this.portraitSize;
+  }
+
+  /** Registers the callback called with the hovered unit (null when the pointer leaves a portrait) */
+  onHover(listener: (unit: Unit | null) => void) {
+    this.hoverListener = listener;
+  }
+
+  /**
+   * Redraws the strip; the first unit is the one playing now and gets a highlighted frame.
+   * @param turns Upcoming turns in order (see TurnManager.getUpcomingTurns)
+   */
+  update(turns: Unit[]) {
+    this.removeChildren();
+    const size = this.portraitSize;
+
+    turns.forEach((unit, i) => {
+      const portrait = new Container();
+      portrait.x = i * (size + this.spacing);
+      portrait.eventMode = 'static';
+      portrait.cursor = 'pointer';
+
+      const isCurrent = i === 0;
+      const frame = new Graphics()
+        .roundRect(0, 0, size, size, 8)
+        .fill({ color: unit.color ?? DEFAULT_PORTRAIT_COLOR, alpha: isCurrent ? 1 : 0.75 })
+        .stroke({ width: isCurrent ? 3 : 1, color: isCurrent ? 0xffffff : 0x222222 });
+      portrait.addChild(frame);
+
+      const initial = new Text({
+        text: unit.name.charAt(0),
+        style: { fontSize: size / 2, fill: '#ffffff', fontWeight: 'bold' }
+      });
+      initial.anchor.set(0.5);
+      initial.x = size / 2;
+      initial.y = size / 2 - 4;
+      portrait.addChild(initial);
+
+      // HP bar along the bottom edge
+      const ratio = unit.maxHP > 0 ? Math.max(0, unit.hp / unit.maxHP) : 0;
+      const hpBar = new Graphics()
+        .rect(4, size - 9, size - 8, 5)
+        .fill({ color: 0x222222 })
+        .rect(4, size - 9, (size - 8) * ratio, 5)
+        .fill({ color: 0x3ecf4a });
+      portrait.addChild(hpBar);
+
+      portrait.on('pointerover', () => this.hoverListener?.(unit));
+      portrait.on('pointerout', () => this.hoverListener?.(null));
+      this.addChild(portrait);
+    });
+  }
+}
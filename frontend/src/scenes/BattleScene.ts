@@ -1,33 +1,112 @@
 // BattleScene.ts
 // Orchestrates the battle scene: delegates logic to modular systems for maintainability and extensibility.
 
+import { DEFAULT_CELL_SIZE } from '@core/Arena';
+import type { Arena } from '@core/Arena';
+import { AIController } from '@core/battle/AIController';
+import type { BattleCommand } from '@core/battle/BattleCommands';
+import { BattleLogic } from '@core/battle/BattleLogic';
+import { BattleReplay, CommandRecorder, isReplayLog } from '@core/battle/BattleReplay';
+import type { BattleReplayLog } from '@core/battle/BattleReplay';
+import { loadBattle, saveBattle } from '@core/battle/BattleSave';
+import type { BattleSave } from '@core/battle/BattleSave';
+import { createTeamBattleState } from '@core/battle/BattleSetup';
+import { BattleSimulator } from '@core/battle/BattleSimulator';
+import type { BattleResult } from '@core/battle/BattleSimulator';
+import type { BattleState } from '@core/battle/BattleState';
+import { BattleUI } from '@core/battle/BattleUI';
+import { MovementSystem } from '@core/battle/MovementSystem';
+import { NetworkSystem } from '@core/battle/NetworkSystem';
+import { PlacementPhase } from '@core/battle/PlacementPhase';
+import { PlacementSystem } from '@core/battle/PlacementSystem';
+import { ReplaySystem } from '@core/battle/ReplaySystem';
+import { SpellSystem } from '@core/battle/SpellSystem';
+import { randomTeamComposition } from '@core/battle/TeamComposition';
+import type { TeamComposition } from '@core/battle/TeamComposition';
+import { getMarkedUnitIds } from '@core/battle/VictoryConditions';
+import { classRegistry } from '@core/data/ClassRegistry';
 import { Grid, Position } from '@core/Grid';
-import { Unit } from '@core/Unit';
-import { UnitClasses } from '@core/unitClasses';
+import { MapGrid } from '@core/MapGrid';
+import type { MatchClient } from '@core/net/MatchClient';
+import { Spell } from '@core/Spell';
 import { TurnManager } from '@core/TurnManager';
+import { Unit } from '@core/Unit';
+import { GridLayout } from '@rendering/GridLayout';
 import { GridView } from '@rendering/GridView';
-import { Container, Graphics, Sprite, Texture } from 'pixi.js';
+import { TurnTimeline } from '@rendering/TurnTimeline';
 import { UIManager } from '@ui/UIManager';
-import { MapGrid } from '@core/MapGrid';
-import { Spell } from '@core/Spell';
+import { Container, Graphics, Sprite, Texture } from 'pixi.js';
+
+import { DEFAULT_ARENA, getArena } from '../loader';
 import { BattleVisuals } from './BattleVisuals';
-import { BattleLogic } from '@core/battle/BattleLogic';
-import { SpellSystem } from '@core/battle/SpellSystem';
-import { MovementSystem } from '@core/battle/MovementSystem';
-import { BattleUI } from '@core/battle/BattleUI';
+import { ResultsScene } from './ResultsScene';
+import type { SceneManager } from './SceneManager';
 
 // --- Configurable constants ---
-const GRID_SIZE = 10;
-const CELL_SIZE = 64;
-const CANVAS_WIDTH = 720;
-const CANVAS_HEIGHT = 880;
+// Screen size used when the owner does not pass one (matches the canvas created by Game)
+const DEFAULT_SCREEN = { width: 720, height: 880 };
+// Space around the board: top margin, side margins, gaps around the timeline, and the spell bar at the bottom
+const BOARD_TOP = 32;
+const BOARD_SIDE_MARGIN = 16;
+const TIMELINE_GAP = 16;
+const SPELL_BAR_SPACE = 80;
+// Number of upcoming turns shown in the timeline strip
+const TIMELINE_LENGTH = 8;
+// Time the finished board stays visible before the results scene replaces it (ms)
+const RESULTS_DELAY_MS = 1500;
+
+export interface BattleSceneOptions {
+  /** Arena to fight in (the default arena from loader.ts when omitted) */
+  arena?: Arena;
+  /** Size of the screen the scene is drawn on; the board shrinks its cells to fit it */
+  screen?: { width: number; height: number };
+  /** Resumes a saved battle (see BattleSave) instead of starting a new one */
+  save?: BattleSave;
+  /** Plays a recorded battle (see BattleReplay), starting after `position` commands */
+  replay?: { log: BattleReplayLog; position?: number };
+  /** Plays an online match: the battle is the server's state, only the client's team is played here */
+  online?: MatchClient;
+  /** New battles: the drafted teams (one random unit against one played by the AI when omitted) */
+  composition?: TeamComposition;
+}
+
+/**
+ * Options of the battle stored in a save or replay file (see the save button and the replay button).
+ * Throws if the file is not valid JSON, not a valid save, or a replay that does not match the rules.
+ */
+export function parseBattleFile(text: string): BattleSceneOptions {
+  const data: unknown = JSON.parse(text);
+  if (isReplayLog(data)) {
+    // Played to the end once on a throwaway copy, so a log the rules reject fails here and not mid-replay
+    new BattleReplay(data).stepTo(data.commands.length);
+    return { replay: { log: data, position: 0 } };
+  }
+  // Validated (and migrated) again when the scene loads it
+  loadBattle(data);
+  return { save: data as BattleSave };
+}
 
 export class BattleScene extends Container {
   // Core systems
+  public state: BattleState;
+  public simulator: BattleSimulator;
   public battleLogic: BattleLogic;
   public spellSystem: SpellSystem;
   public movementSystem: MovementSystem;
+  /** Null when the battle was loaded after its placement phase */
+  public placementPhase: PlacementPhase | null = null;
+  public placementSystem: PlacementSystem | null = null;
+  /** Records the commands of a live battle; null in replays */
+  public recorder: CommandRecorder | null = null;
+  /** Set when the scene plays a recorded battle instead of a live one */
+  public replay: BattleReplay | null = null;
+  public replaySystem: ReplaySystem | null = null;
+  /** Set in online matches */
+  public networkSystem: NetworkSystem | null = null;
   public battleUI: BattleUI;
+  public aiController: AIController;
+  /** Teams of the battle; null for saves and replays made before teams were drafted */
+  public composition: TeamComposition | null;
 
   // Game state
   public grid: Grid;
@@ -36,6 +115,10 @@ export class BattleScene extends Container {
   public gridView: GridView;
   public turnManager: TurnManager;
   public map: MapGrid;
+  public arena: Arena;
+  /** Cell/pixel conversions of the board; every board drawing goes through it */
+  public layout: GridLayout;
+  public screenSize: { width: number; height: number };
   public unitBars: Map<string, Container> = new Map();
 
   // Visual layers
@@ -44,7 +127,9 @@ export class BattleScene extends Container {
   public unitLayer: Container;
   public spellRangeLayer: Graphics = new Graphics();
   public moveRangeLayer: Graphics = new Graphics();
+  public placementLayer: Graphics = new Graphics();
   public spellBar: Container = new Container();
+  public timeline: TurnTimeline = new TurnTimeline();
 
   // UI
   public ui: UIManager;
@@ -55,13 +140,46 @@ export class BattleScene extends Container {
   public reachable: Position[] = [];
   public currentPath: Position[] = [];
   public isMoving: boolean = false;
-
-  constructor() {
+  public markedUnitIds: Set<string> = new Set();
+
+  // Navigation: set when the SceneManager shows the scene
+  private manager: SceneManager | null = null;
+  private online: MatchClient | null;
+  // The online connection is handed over to the next scene on a resync instead of being closed
+  private keepConnection: boolean = false;
+  private resultsTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private onWindowResize = () => this.battleUI.positionSpellBar();
+  // Ctrl+Z (Cmd+Z) takes back the last move of the turn
+  private onKeyDown = (e: KeyboardEvent) => {
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') this.undoMove();
+  };
+
+  constructor(options: BattleSceneOptions = {}) {
     super();
+    this.online = options.online ?? null;
+    // Throws BattleSaveError before anything is built if the save (or the replay's initial state) is invalid
+    this.replay = options.replay ? new BattleReplay(options.replay.log) : null;
+    const initial = options.online?.state ?? options.save;
+    const loaded = !this.replay && initial ? loadBattle(initial) : null;
+    const arena = options.arena ?? (this.replay ? this.replay.log.initial.arena : loaded?.arena) ?? getArena(DEFAULT_ARENA);
+    this.arena = arena;
+    this.composition = this.replay
+      ? this.replay.log.initial.composition ?? null
+      : loaded ? loaded.composition ?? null : options.composition ?? randomTeamComposition(classRegistry, ['player', 'ai']);
+    this.screenSize = { width: options.screen?.width ?? DEFAULT_SCREEN.width, height: options.screen?.height ?? DEFAULT_SCREEN.height };
+    // The arena's cell size, shrunk if the board would not fit between the margins, timeline and spell bar
+    this.layout = GridLayout.fit(
+      arena.width,
+      arena.height,
+      arena.cellSize ?? DEFAULT_CELL_SIZE,
+      this.screenSize.width - 2 * BOARD_SIDE_MARGIN,
+      this.screenSize.height - BOARD_TOP - 2 * TIMELINE_GAP - this.timeline.getStripHeight() - SPELL_BAR_SPACE
+    );
     // --- Visual setup ---
     const bg = new Graphics();
     bg.fill({ color: 0x2c2f36 });
-    bg.rect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    bg.rect(0, 0, this.screenSize.width, this.screenSize.height);
     this.addChild(bg);
 
     this.gameContainer = new Container();
@@ -71,39 +189,69 @@ export class BattleScene extends Container {
     this.gameContainer.addChild(this.unitLayer);
     this.addChild(this.spellBar);
 
-    // Grid and map
-    this.gridView = new GridView({ cellSize: CELL_SIZE, width: GRID_SIZE, height: GRID_SIZE });
+    // Grid and map, sized to the arena with its terrain and decorations drawn
+    this.gridView = GridView.fromArena(arena, this.layout);
     this.gridLayer.addChild(this.gridView);
     this.gridLayer.addChild(this.spellRangeLayer);
     this.gridLayer.addChild(this.moveRangeLayer);
+    this.gridLayer.addChild(this.placementLayer);
     this.centerGameContainer();
     this.addChild(this.gameContainer);
 
-    this.grid = new Grid(GRID_SIZE, GRID_SIZE);
-    this.map = new MapGrid(GRID_SIZE, GRID_SIZE);
+    // Turn timeline below the grid; hovering a portrait outlines the unit's cell
+    this.timeline.x = (this.screenSize.width - this.timeline.getStripWidth(TIMELINE_LENGTH)) / 2;
+    this.timeline.y = this.gameContainer.y + this.layout.pixelHeight + TIMELINE_GAP;
+    this.timeline.onHover(unit => this.gridView.highlightCell(unit?.isAlive() ? unit.position : null));
+    this.addChild(this.timeline);
 
     // --- Game logic setup ---
-    const classNames = Object.keys(UnitClasses);
-    const idx1 = Math.floor(Math.random() * classNames.length);
-    let idx2 = Math.floor(Math.random() * classNames.length);
-    if (idx2 === idx1) idx2 = (idx2 + 1) % classNames.length;
-    const class1 = UnitClasses[classNames[idx1]];
-    const class2 = UnitClasses[classNames[idx2]];
-    this.units = [
-      new Unit('p1', `Player 1 (${class1.name})`, 'player', { x: 0, y: 0 }, 1, class1),
-      new Unit('p2', `Player 2 (${class2.name})`, 'player', { x: 9, y: 9 }, 2, class2),
-    ];
-    for (const unit of this.units) {
-      this.map.setOccupied(unit.position, unit);
+    // The headless state owns units, map, grid and turns; the scene only renders it
+    if (this.replay) {
+      // Replays jump to the requested position headless, then the scene renders the battle from there
+      this.replay.stepTo(options.replay?.position ?? 0);
+      this.state = this.replay.state;
+      this.simulator = this.replay.simulator;
+      this.simulator.setEffectContext({ scene: this });
+    } else {
+      this.state = loaded?.state ?? this.createBattleState(arena);
+      this.simulator = new BattleSimulator(this.state, {
+        effectContext: { scene: this },
+        victoryConditions: loaded?.victoryConditions
+      });
+      // Subscribed before any system so it captures the battle before the first turn starts
+      this.recorder = new CommandRecorder(this.simulator, { arena, composition: this.composition ?? undefined });
+    }
+    this.units = this.state.units;
+    this.map = this.state.map;
+    this.grid = this.state.grid;
+    this.turnManager = this.state.turnManager;
+    this.markedUnitIds = new Set(getMarkedUnitIds(this.simulator.victoryConditions));
+    if (!this.replay && !this.turnManager.hasStarted()) {
+      this.placementPhase = new PlacementPhase(this.state, arena.startCells);
     }
-    this.turnManager = new TurnManager(this.units);
 
     // --- System instantiation ---
-    this.battleLogic = new BattleLogic(this, this.turnManager, this.map);
+    this.battleLogic = new BattleLogic(this, this.simulator);
     this.spellSystem = new SpellSystem(this, this.map);
     this.movementSystem = new MovementSystem(this, this.grid, this.map);
     this.ui = new UIManager();
     this.battleUI = new BattleUI(this, this.ui);
+    // In replays every action comes from the log and online from the server, the AI must not play
+    const remote = this.replay !== null || options.online !== undefined;
+    this.aiController = new AIController(
+      this.simulator,
+      this.battleLogic,
+      remote ? { controls: () => false } : { composition: this.composition ?? undefined }
+    );
+    if (this.placementPhase) {
+      this.placementSystem = new PlacementSystem(this, this.placementPhase);
+    }
+    if (this.replay) {
+      this.replaySystem = new ReplaySystem(this, this.replay);
+    }
+    if (options.online) {
+      this.networkSystem = new NetworkSystem(this, options.online);
+    }
 
     // --- Visuals and UI ---
     this.createUnitSprites();
@@ -114,21 +262,168 @@ export class BattleScene extends Container {
     this.battleUI.createSpellBar();
     this.battleUI.positionSpellBar();
 
-    // Ensure turn starts correctly after setup
-    this.battleLogic.startTurn();
+    // Placement phase first; BattleLogic starts the first turn once every team is ready.
+    // Loaded battles that were past placement resume the saved turn, replays start after their setup.
+    this.updateTimeline();
+    if (this.placementSystem) {
+      this.placementSystem.begin();
+    } else {
+      this.battleLogic.startTurn();
+    }
+    this.replaySystem?.begin();
+    this.networkSystem?.begin();
 
-    window.addEventListener('resize', () => this.battleUI.positionSpellBar());
+    window.addEventListener('resize', this.onWindowResize);
+    window.addEventListener('keydown', this.onKeyDown);
 
     // Ensure End Turn button calls battleLogic.endTurn()
     this.ui.onEndTurnClick(() => this.battleLogic.endTurn());
+    this.ui.onUndoClick(() => this.undoMove());
+    this.battleUI.updateUndoButton();
+    // Save downloads the battle as JSON; loading asks the owner of the scene to rebuild it from the file
+    this.ui.onSaveClick(() => JSON.stringify(this.saveBattle(), null, 2));
+    this.ui.onLoadFile(text => this.requestLoad(text));
+    this.ui.onSaveReplayClick(this.recorder ? () => this.serializeReplayLog() : null);
+    this.ui.onMenuClick(() => this.manager?.pop());
+  }
+
+  /** Keeps the manager that shows the scene; loading, replays, resyncs and results navigate with it */
+  public onEnter(manager: SceneManager) {
+    this.manager = manager;
+  }
+
+  /** A new battle: the drafted teams on the arena's start cells, turns deferred until placement ends */
+  private createBattleState(arena: Arena): BattleState {
+    return createTeamBattleState(arena, classRegistry, this.composition!, { deferTurns: true });
+  }
+
+  /** Replaces this scene with another battle, built once the transition hides this one */
+  private openBattle(options: BattleSceneOptions) {
+    this.manager?.replace(() => new BattleScene({ ...options, screen: this.screenSize }));
   }
 
   // --- Orchestration methods (delegating to systems) ---
 
-  public handleSpellCast(target: Unit | null, cellPosition?: Position) {
+  public handleSpellCast(target: Unit | null, cellPosition?: Position): boolean {
     return this.spellSystem.handleSpellCast(target, cellPosition);
   }
 
+  /** True until every team locked its placement (no turn has started yet) */
+  public isPlacing(): boolean {
+    return !!this.placementPhase && !this.placementPhase.isOver();
+  }
+
+  /** Takes back the local player's last move of the turn (ignored while a move is animated or during the AI's turns) */
+  public undoMove() {
+    const unit = this.turnManager.getCurrentUnit();
+    if (!unit || this.isMoving || this.isAIControlled(unit)) return;
+    this.submitCommand({ type: 'undoMove', unitId: unit.id });
+  }
+
+  /**
+   * Entry point of the local player's actions: applied right away in local games, sent to the server
+   * in online matches (applied when the server broadcasts them).
+   * @returns true if the command was applied or sent
+   */
+  public submitCommand(command: BattleCommand): boolean {
+    if (this.networkSystem) return this.networkSystem.send(command);
+    return this.simulator.execute(command);
+  }
+
+  /** Rebuilds the scene from the online match's current state (reconnection or desync) */
+  public requestOnline(client: MatchClient) {
+    this.keepConnection = true;
+    this.openBattle({ online: client });
+  }
+
+  /** Captures the battle (with its arena and objectives) so it can be resumed with `new BattleScene({ save })` */
+  public saveBattle(): BattleSave {
+    return saveBattle(this.state, {
+      victoryConditions: this.simulator.victoryConditions,
+      arena: this.arena,
+      composition: this.composition ?? undefined
+    });
+  }
+
+  /** Command log of the battle: the recorded one for live battles, the played one for replays */
+  public getReplayLog(): BattleReplayLog | null {
+    return this.replay?.log ?? this.recorder?.getLog() ?? null;
+  }
+
+  private serializeReplayLog(): string | null {
+    const log = this.getReplayLog();
+    return log ? JSON.stringify(log) : null;
+  }
+
+  /**
+   * Replaces this battle with a saved one, or with the replay of a command log. The file is checked
+   * here so an invalid one is reported without tearing down the current battle.
+   */
+  public requestLoad(text: string) {
+    try {
+      this.openBattle(parseBattleFile(text));
+    } catch (error) {
+      this.ui.showError(`Could not load the battle: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Shows the replay of a log from a position (seeking rebuilds the scene). The log is replayed
+   * headless up to the position first, so a log that does not match the rules is reported here.
+   */
+  public requestReplay(log: BattleReplayLog, position: number) {
+    try {
+      new BattleReplay(log).stepTo(position);
+    } catch (error) {
+      this.ui.showError(`Could not play the replay: ${(error as Error).message}`);
+      return;
+    }
+    this.openBattle({ replay: { log, position } });
+  }
+
+  /**
+   * True while the unit's turns are not played on this machine: by the AI, a replay or the other player
+   * of an online match (pointer input and spell bar are disabled)
+   */
+  public isAIControlled(unit: Unit): boolean {
+    if (this.networkSystem) return unit.team !== this.networkSystem.getLocalTeam();
+    return this.replay !== null || this.aiController.isControlling(unit);
+  }
+
+  /** True for units whose death ends the battle ("defeat the marked unit" objective) */
+  public isMarkedUnit(unit: Unit): boolean {
+    return this.markedUnitIds.has(unit.id);
+  }
+
+  /**
+   * Replaces the finished battle with the results scene, after a moment to see the last action.
+   * Rematches are new local battles with the same arena and teams (none after a replay or an online match).
+   */
+  public showResults(result: BattleResult) {
+    const replayLog = this.getReplayLog();
+    const rematch = this.replay || this.online ? null : { arena: this.arena, composition: this.composition ?? undefined };
+    this.resultsTimer = setTimeout(() => {
+      this.resultsTimer = null;
+      this.manager?.replace(() => new ResultsScene(result, { rematch, replayLog }));
+    }, RESULTS_DELAY_MS);
+  }
+
+  /** Removes listeners, timers and HTML UI that live outside the Pixi tree, and leaves the online match */
+  public override destroy(options?: Parameters<Container['destroy']>[0]) {
+    if (this.resultsTimer) clearTimeout(this.resultsTimer);
+    window.removeEventListener('resize', this.onWindowResize);
+    window.removeEventListener('keydown', this.onKeyDown);
+    this.aiController.dispose();
+    this.battleLogic.dispose();
+    this.movementSystem.dispose();
+    this.recorder?.dispose();
+    this.replaySystem?.dispose();
+    this.networkSystem?.dispose();
+    if (!this.keepConnection) this.online?.close();
+    this.ui.destroy();
+    super.destroy(options);
+  }
+
   public handleUnitDeath(unit: Unit) {
     this.battleLogic.handleUnitDeath(unit);
   }
@@ -167,6 +462,11 @@ export class BattleScene extends Container {
     this.battleUI.positionSpellBar();
   }
 
+  /** Redraws the turn timeline (order, HP) */
+  public updateTimeline() {
+    this.timeline.update(this.turnManager.getUpcomingTurns(TIMELINE_LENGTH));
+  }
+
   public updateReachableAndHighlights() {
     this.movementSystem.updateReachableAndHighlights();
   }
@@ -183,13 +483,12 @@ export class BattleScene extends Container {
     this.unitSprites.clear();
     this.unitBars.clear();
     for (const unit of this.units) {
-      const spritePath = unit.id === 'p1' ? 'player1' : 'player2';
+      if (!unit.isAlive()) continue;
+      const spritePath = unit.team === 1 ? 'player1' : 'player2';
       const sprite = new Sprite(Texture.from(spritePath));
       sprite.anchor.set(0.5);
-      sprite.width = 48;
-      sprite.height = 48;
-      sprite.x = unit.position.x * CELL_SIZE + CELL_SIZE / 2;
-      sprite.y = unit.position.y * CELL_SIZE + CELL_SIZE / 2;
+      sprite.width = sprite.height = Math.round(this.layout.cellSize * 0.75);
+      sprite.position.copyFrom(this.layout.cellCenter(unit.position));
       sprite.eventMode = 'none';
       this.unitSprites.set(unit.id, sprite);
       this.unitLayer.addChild(sprite);
@@ -201,17 +500,18 @@ export class BattleScene extends Container {
   }
 
   public centerGameContainer() {
-    const gridSize = CELL_SIZE * GRID_SIZE;
-    let screenWidth = CANVAS_WIDTH, screenHeight = CANVAS_HEIGHT;
+    const gridWidth = this.layout.pixelWidth;
+    const gridHeight = this.layout.pixelHeight;
+    let screenWidth = this.screenSize.width, screenHeight = this.screenSize.height;
     const renderer = (this.parent as any)?.renderer || (this as any).renderer;
     if (renderer && renderer.screen) {
       screenWidth = renderer.screen.width;
       screenHeight = renderer.screen.height;
     }
-    this.gameContainer.x = (screenWidth - gridSize) / 2;
-    this.gameContainer.y = 32;
-    this.gridLayer.width = gridSize;
-    this.gridLayer.height = gridSize;
+    this.gameContainer.x = (screenWidth - gridWidth) / 2;
+    this.gameContainer.y = BOARD_TOP;
+    this.gridLayer.width = gridWidth;
+    this.gridLayer.height = gridHeight;
   }
 
   // --- Interaction setup (delegates to systems) ---
@@ -2,42 +2,38 @@
 // Centralizes all visual logic for highlighting, tinting, and feedback in the battle scene.
 // This class is pure and decoupled from game rules. All color values are centralized.
 
-import type { Graphics, Sprite } from 'pixi.js';
-import type { Position } from '@core/Grid';
 import type { EffectType } from '@core/EffectEngine';
+import type { Position } from '@core/Grid';
 import type { Unit } from '@core/Unit';
+import type { GridLayout } from '@rendering/GridLayout';
+import type { Graphics, Sprite } from 'pixi.js';
+
+import { effectRegistry } from '../core/effects';
+
+/** Neutral tint (no highlight); effect tints come from the effect registry */
+export const DefaultTint = 0xffffff;
 
-/**
- * Semantic color constants for effect types.
- */
-export const EffectColors: Record<EffectType | 'default', number> = {
-  damage: 0xff4444,      // Red
-  heal: 0x3ecf4a,        // Green
-  buff_ap: 0x3a8fff,     // Light blue
-  drain_ap: 0x6a5acd,    // Purple
-  teleport: 0xf1c40f,    // Yellow
-  buff: 0x7ed957,        // Soft green (generic buff)
-  debuff: 0xb97a56,      // Brownish (generic debuff)
-  default: 0xffffff      // White (no tint)
-};
+/** Tint for cells in spell range whose line of sight is blocked */
+export const BlockedLineOfSightColor = 0x5c2e2e;
 
 export class BattleVisuals {
   /**
    * Returns the tint color for a given effect type for target highlighting.
-   * Easily extensible for new effect types.
+   * New effect types declare their tint when registered in the effect registry.
    */
   static getTargetTint(effectType: EffectType | undefined): number {
-    if (!effectType) return EffectColors.default;
-    return EffectColors[effectType] ?? EffectColors.default;
+    if (!effectType) return DefaultTint;
+    return effectRegistry.getTint(effectType) ?? DefaultTint;
   }
 
   /**
    * Highlights a single cell with the specified color and opacity.
    * Uses only modern Pixi v8 APIs (no deprecated methods),
-   * and guarantees that the full 64×64 area is painted every time.
+   * and guarantees that the full cell area is painted every time.
    */
   static highlightTargetCell(
     layer: Graphics,
+    layout: GridLayout,
     pos: Position,
     color: number,
     alpha: number = 0.32
@@ -46,12 +42,8 @@ export class BattleVisuals {
     layer.beginPath();
 
     // 2) Define the rectangle for this cell
-    layer.rect(
-      pos.x * 64,
-      pos.y * 64,
-      64,
-      64
-    );
+    const { x, y } = layout.cellToPixel(pos);
+    layer.rect(x, y, layout.cellSize, layout.cellSize);
 
     // 3) Fill that rectangle with the given color & alpha
     layer.fill({ color, alpha });
@@ -84,7 +76,7 @@ export class BattleVisuals {
       const sprite = unitSprites.get(unit.id);
       if (!sprite) continue;
       sprite.tint = unit.id === activeUnitId
-        ? EffectColors.default
+        ? DefaultTint
         : 0xcccccc;
       sprite.alpha = unit.id === activeUnitId ? 1 : 0.7;
     }
@@ -0,0 +1,43 @@
+// MainMenuScene.ts
+// First scene of the game and bottom of the scene stack: new match (setup screen) or load a saved
+// battle or replay file. Battles are pushed on top of it, so leaving one comes back here.
+
+import type { MenuPanel } from '@ui/MenuPanel';
+
+import { BattleScene, parseBattleFile } from './BattleScene';
+import { MatchSetupScene } from './MatchSetupScene';
+import { MenuScene } from './MenuScene';
+import type { SceneManager } from './SceneManager';
+
+export class MainMenuScene extends MenuScene {
+  constructor() {
+    super('RPG Turns');
+  }
+
+  protected build(panel: MenuPanel, manager: SceneManager) {
+    const fileInput = document.createElement('input');
+    fileInput.type = 'file';
+    fileInput.accept = 'application/json,.json';
+    fileInput.style.display = 'none';
+    fileInput.onchange = () => {
+      const file = fileInput.files?.[0];
+      fileInput.value = '';
+      if (file) file.text().then(text => this.load(text, manager));
+    };
+    panel.append(fileInput);
+
+    panel.addButtons([{ text: 'Nueva partida', onClick: () => manager.push(new MatchSetupScene()) }]);
+    panel.addButtons([{ text: 'Cargar partida', onClick: () => fileInput.click() }]);
+  }
+
+  /** Opens a saved battle or a replay; an invalid file is reported on the menu */
+  private load(text: string, manager: SceneManager) {
+    try {
+      const options = parseBattleFile(text);
+      this.panel?.showError(null);
+      manager.push(() => new BattleScene({ ...options, screen: manager.screen }));
+    } catch (error) {
+      this.panel?.showError(`Could not load the battle: ${(error as Error).message}`);
+    }
+  }
+}
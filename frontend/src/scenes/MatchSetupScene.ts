@@ -0,0 +1,148 @@
+// MatchSetupScene.ts
+// Setup of a new match: mode (vs AI, two players on the same screen, online), arena and the draft of each team
+// (see TeamBuilder and TeamComposition). Online matches take the arena and teams from the server;
+// the scene connects before the battle starts.
+
+import { checkTeamComposition, DEFAULT_TEAM_RULES, draftTeam } from '@core/battle/TeamComposition';
+import type { TeamComposition, TeamRules } from '@core/battle/TeamComposition';
+import { classRegistry } from '@core/data/ClassRegistry';
+import { MatchClient } from '@core/net/MatchClient';
+import type { MenuPanel } from '@ui/MenuPanel';
+import { TeamBuilder } from '@ui/TeamBuilder';
+
+import { ARENAS, DEFAULT_ARENA, getArena } from '../loader';
+import type { ArenaAlias } from '../loader';
+import { BattleScene } from './BattleScene';
+import { MenuScene } from './MenuScene';
+import type { SceneManager } from './SceneManager';
+
+/** 'ai': team 2 is played by the AIController, 'hotseat': by a second player on the same screen */
+type SetupMode = 'ai' | 'hotseat' | 'online';
+
+const MODE_OPTIONS: { value: SetupMode; label: string }[] = [
+  { value: 'ai', label: 'Contra la IA' },
+  { value: 'hotseat', label: 'Dos jugadores (misma pantalla)' },
+  { value: 'online', label: 'Online' }
+];
+// Match server started with `npm run server`
+const DEFAULT_SERVER = 'ws://localhost:8787';
+// Teams of a local battle (the arenas have start cells for teams 1 and 2)
+const TEAMS = [1, 2];
+
+export class MatchSetupScene extends MenuScene {
+  // Connection being opened for an online match; closed if the scene goes away first
+  private connecting: MatchClient | null = null;
+
+  constructor() {
+    super('Nueva partida');
+  }
+
+  protected build(panel: MenuPanel, manager: SceneManager) {
+    const mode = panel.addSelect('Modo', MODE_OPTIONS, 'ai');
+    const arena = panel.addSelect(
+      'Mapa',
+      Object.keys(ARENAS).map(alias => ({ value: alias, label: getArena(alias as ArenaAlias).name })),
+      DEFAULT_ARENA
+    );
+    const server = panel.addInput('Servidor', DEFAULT_SERVER);
+    const matchId = panel.addInput('Partida', 'default');
+
+    // Draft of each team, side by side
+    const drafts = document.createElement('div');
+    drafts.style.display = 'flex';
+    drafts.style.gap = '16px';
+    const builders = TEAMS.map(team => new TeamBuilder(`Equipo ${team}`, classRegistry, this.getRules(arena.select.value), () => validate()));
+    for (const builder of builders) drafts.appendChild(builder.root);
+    panel.append(drafts);
+
+    const getComposition = (): TeamComposition => ({
+      teams: TEAMS.map((team, i) => ({
+        team,
+        controller: team !== 1 && mode.select.value === 'ai' ? 'ai' : 'player',
+        classes: builders[i].getClasses()
+      }))
+    });
+    // The battle cannot start until both drafts follow the rules
+    const validate = () => {
+      if (mode.select.value === 'online') return;
+      const issues = checkTeamComposition(getComposition(), classRegistry, this.getRules(arena.select.value));
+      startButton.disabled = issues.length > 0;
+      this.panel?.showError(issues.length > 0 ? issues.map(i => i.message).join('\n') : null);
+    };
+
+    // Local fields or online fields, depending on the mode
+    const updateFields = () => {
+      const online = mode.select.value === 'online';
+      arena.row.style.display = online ? 'none' : 'flex';
+      drafts.style.display = online ? 'none' : 'flex';
+      for (const row of [server.row, matchId.row]) row.style.display = online ? 'flex' : 'none';
+      builders[1].setTitle(mode.select.value === 'ai' ? 'Equipo 2 (IA)' : 'Equipo 2');
+      if (online) {
+        startButton.disabled = false;
+        this.panel?.showError(null);
+      }
+      validate();
+    };
+    mode.select.onchange = updateFields;
+    // Fewer start cells on the arena means fewer units per team
+    arena.select.onchange = () => {
+      for (const builder of builders) builder.setRules(this.getRules(arena.select.value));
+    };
+
+    const [startButton] = panel.addButtons([
+      {
+        text: 'Empezar',
+        onClick: () => {
+          if (mode.select.value === 'online') {
+            this.join(manager, server.input.value.trim(), matchId.input.value.trim() || 'default', startButton);
+            return;
+          }
+          const composition = getComposition();
+          manager.replace(() => new BattleScene({ arena: getArena(arena.select.value as ArenaAlias), composition, screen: manager.screen }));
+        }
+      },
+      { text: 'Volver', onClick: () => manager.pop() }
+    ]);
+    // One random unit per team to start with
+    for (const builder of builders) builder.setClasses(draftTeam(classRegistry, this.getRules(arena.select.value), 1));
+    updateFields();
+  }
+
+  /** Draft rules on an arena: the default rules, with no more units than the arena has start cells per team */
+  private getRules(alias: string): TeamRules {
+    const { startCells } = getArena(alias as ArenaAlias);
+    const cells = Math.min(...TEAMS.map(team => startCells[team]?.length ?? 0));
+    return { ...DEFAULT_TEAM_RULES, maxUnits: Math.min(DEFAULT_TEAM_RULES.maxUnits, cells) };
+  }
+
+  /** Connects to the match server and starts the online battle once seated */
+  private join(manager: SceneManager, url: string, matchId: string, startButton: HTMLButtonElement) {
+    const client = new MatchClient({ url, matchId });
+    this.connecting = client;
+    startButton.disabled = true;
+    this.panel?.showError(null);
+    client
+      .connect()
+      .then(() => {
+        // Left the setup screen while connecting (the connection was closed)
+        if (this.connecting !== client) return;
+        this.connecting = null;
+        manager.replace(() => new BattleScene({ online: client, screen: manager.screen }));
+      })
+      .catch((error: Error) => {
+        if (this.connecting !== client) return;
+        this.connecting = null;
+        client.close();
+        startButton.disabled = false;
+        this.panel?.showError(`Could not join the online match: ${error.message}`);
+      });
+  }
+
+  /** Closes a connection still being opened */
+  override destroy(options?: Parameters<MenuScene['destroy']>[0]) {
+    const client = this.connecting;
+    this.connecting = null;
+    client?.close();
+    super.destroy(options);
+  }
+}
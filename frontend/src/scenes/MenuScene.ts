@@ -0,0 +1,44 @@
+// MenuScene.ts
+// Base of the scenes made of an HTML panel over the background image (main menu, match setup, results).
+// The panel is built when the scene is shown, hidden while another scene covers it and removed on destroy.
+
+import { MenuPanel } from '@ui/MenuPanel';
+import { Container, Sprite } from 'pixi.js';
+
+import type { SceneHooks, SceneManager } from './SceneManager';
+
+export abstract class MenuScene extends Container implements SceneHooks {
+  protected panel: MenuPanel | null = null;
+
+  constructor(private title: string) {
+    super();
+  }
+
+  /** Fills the panel; called once, when the scene is first shown */
+  protected abstract build(panel: MenuPanel, manager: SceneManager): void;
+
+  onEnter(manager: SceneManager) {
+    // Background loaded by Game (loader.ts)
+    const bg = Sprite.from('background');
+    bg.width = manager.screen.width;
+    bg.height = manager.screen.height;
+    this.addChild(bg);
+    this.panel = new MenuPanel(this.title);
+    this.build(this.panel, manager);
+  }
+
+  onPause() {
+    this.panel?.setVisible(false);
+  }
+
+  onResume() {
+    this.panel?.setVisible(true);
+  }
+
+  /** Removes the HTML panel with the scene */
+  override destroy(options?: Parameters<Container['destroy']>[0]) {
+    this.panel?.destroy();
+    this.panel = null;
+    super.destroy(options);
+  }
+}
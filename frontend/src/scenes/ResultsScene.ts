@@ -0,0 +1,83 @@
+// ResultsScene.ts
+// End of a battle: winner, reason and per-unit statistics, with rematch, replay and main menu buttons.
+// Replaces the finished BattleScene; the main menu is the scene below it.
+
+import type { BattleReplayLog } from '@core/battle/BattleReplay';
+import type { BattleResult } from '@core/battle/BattleSimulator';
+import type { MenuPanel } from '@ui/MenuPanel';
+
+import { BattleScene } from './BattleScene';
+import type { BattleSceneOptions } from './BattleScene';
+import { MenuScene } from './MenuScene';
+import type { SceneManager } from './SceneManager';
+
+const REASON_TEXT: Record<BattleResult['reason'], string> = {
+  elimination: 'All enemy units were defeated',
+  survived: 'Survived until the last round',
+  unitDefeated: 'The marked unit was defeated'
+};
+
+export interface ResultsSceneOptions {
+  /** Setup of the next battle when the rematch button is clicked; the button is hidden when null */
+  rematch: BattleSceneOptions | null;
+  /** Command log of the battle for the replay button; the button is hidden when null */
+  replayLog: BattleReplayLog | null;
+}
+
+export class ResultsScene extends MenuScene {
+  constructor(
+    private result: BattleResult,
+    private options: ResultsSceneOptions
+  ) {
+    super(result.winnerTeam === null ? 'Draw' : `Team ${result.winnerTeam} wins!`);
+  }
+
+  protected build(panel: MenuPanel, manager: SceneManager) {
+    const { result } = this;
+    panel.addText(`${REASON_TEXT[result.reason]} · ${result.stats.rounds} rounds, ${result.stats.turns} turns`);
+
+    // Tabla de estadísticas por unidad
+    const table = document.createElement('table');
+    table.style.borderCollapse = 'collapse';
+    table.style.background = 'rgba(0,0,0,0.3)';
+    table.style.borderRadius = '10px';
+    const header = ['Unit', 'Team', 'Damage dealt', 'Damage taken', 'Healing', 'Kills'];
+    const rows = result.stats.units.map(u => [
+      u.alive ? u.name : `${u.name} †`,
+      String(u.team),
+      String(u.damageDealt),
+      String(u.damageTaken),
+      String(u.healingDone),
+      String(u.kills)
+    ]);
+    [header, ...rows].forEach((cells, rowIdx) => {
+      const tr = document.createElement('tr');
+      for (const text of cells) {
+        const cell = document.createElement(rowIdx === 0 ? 'th' : 'td');
+        cell.textContent = text;
+        cell.style.padding = '6px 14px';
+        cell.style.textAlign = 'left';
+        tr.appendChild(cell);
+      }
+      table.appendChild(tr);
+    });
+    panel.append(table);
+
+    const { rematch, replayLog } = this.options;
+    const buttons: { text: string; onClick: () => void }[] = [];
+    if (rematch) {
+      buttons.push({ text: 'Rematch', onClick: () => manager.replace(() => new BattleScene({ ...rematch, screen: manager.screen })) });
+    }
+    if (replayLog) {
+      buttons.push({ text: 'Watch replay', onClick: () => this.watchReplay(manager, replayLog) });
+    }
+    buttons.push({ text: 'Main menu', onClick: () => manager.pop() });
+    panel.addButtons(buttons);
+  }
+
+  private watchReplay(manager: SceneManager, log: BattleReplayLog) {
+    manager
+      .replace(() => new BattleScene({ replay: { log, position: 0 }, screen: manager.screen }))
+      .catch(error => this.panel?.showError(`Could not play the replay: ${(error as Error).message}`));
+  }
+}
@@ -0,0 +1,157 @@
+// SceneManager.ts
+// Stack of scenes drawn on the Pixi stage: the top one is shown, the ones below are paused (hidden).
+// Navigation (push/pop/replace/reset) fades through black and runs one operation at a time.
+// Scenes leaving the stack are destroyed, so their destroy() must remove every listener they added.
+// If building a scene throws, the operation is rejected and the stack is left unchanged.
+
+import { Container, Graphics, Ticker } from 'pixi.js';
+
+/** Optional lifecycle hooks of a scene */
+export interface SceneHooks {
+  /** First time the scene is shown; gives it the manager to navigate */
+  onEnter?(manager: SceneManager): void;
+  /** Another scene was pushed on top (HTML overlays should be hidden) */
+  onPause?(): void;
+  /** The scene on top was popped */
+  onResume?(): void;
+}
+
+export type Scene = Container & SceneHooks;
+
+/**
+ * A scene, or a function building it once the fade-out is over (so a scene that adds HTML UI
+ * or listeners in its constructor does not overlap the one it replaces)
+ */
+export type SceneSource = Scene | (() => Scene);
+
+export interface SceneManagerOptions {
+  /** Duration of each half of the fade (ms); 0 switches instantly */
+  transitionMs?: number;
+}
+
+export class SceneManager {
+  private stack: Scene[] = [];
+  private curtain: Graphics = new Graphics();
+  private transitionMs: number;
+  // Operations wait for the previous one (and its fade) to finish
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private stage: Container,
+    readonly screen: { width: number; height: number },
+    options: SceneManagerOptions = {}
+  ) {
+    this.transitionMs = options.transitionMs ?? 200;
+    this.curtain.rect(0, 0, screen.width, screen.height).fill({ color: 0x000000 });
+    this.curtain.alpha = 0;
+    this.curtain.eventMode = 'none';
+    this.stage.addChild(this.curtain);
+  }
+
+  /** Scene on top of the stack */
+  get current(): Scene | null {
+    return this.stack[this.stack.length - 1] ?? null;
+  }
+
+  get size(): number {
+    return this.stack.length;
+  }
+
+  /** Shows a scene on top of the current one, which is paused until the new one is popped */
+  push(source: SceneSource): Promise<void> {
+    return this.run(() => {
+      const scene = build(source);
+      const previous = this.current;
+      if (previous) {
+        previous.onPause?.();
+        previous.visible = false;
+      }
+      this.enter(scene);
+    });
+  }
+
+  /** Destroys the current scene and resumes the one below */
+  pop(): Promise<void> {
+    return this.run(() => {
+      const top = this.stack.pop();
+      if (top) this.exit(top);
+      const current = this.current;
+      if (current) {
+        current.visible = true;
+        current.onResume?.();
+      }
+    });
+  }
+
+  /** Destroys the current scene and shows another one in its place */
+  replace(source: SceneSource): Promise<void> {
+    return this.run(() => {
+      const scene = build(source);
+      const top = this.stack.pop();
+      if (top) this.exit(top);
+      this.enter(scene);
+    });
+  }
+
+  /** Destroys every scene and starts over with the given one */
+  reset(source: SceneSource): Promise<void> {
+    return this.run(() => {
+      const scene = build(source);
+      while (this.stack.length > 0) this.exit(this.stack.pop()!);
+      this.enter(scene);
+    });
+  }
+
+  /** Destroys every scene (and the fade curtain) */
+  destroy() {
+    while (this.stack.length > 0) this.exit(this.stack.pop()!);
+    this.curtain.destroy();
+  }
+
+  private run(change: () => void): Promise<void> {
+    const operation = this.queue.then(async () => {
+      await this.fade(0, 1);
+      try {
+        change();
+      } finally {
+        await this.fade(1, 0);
+      }
+    });
+    // A failed operation must not block the next ones
+    this.queue = operation.catch(() => undefined);
+    return operation;
+  }
+
+  private enter(scene: Scene) {
+    this.stack.push(scene);
+    this.stage.addChild(scene);
+    // Keep the curtain above every scene
+    this.stage.addChild(this.curtain);
+    scene.onEnter?.(this);
+  }
+
+  private exit(scene: Scene) {
+    this.stage.removeChild(scene);
+    scene.destroy({ children: true });
+  }
+
+  private fade(from: number, to: number): Promise<void> {
+    if (this.transitionMs <= 0) return Promise.resolve();
+    return new Promise(resolve => {
+      const start = performance.now();
+      const tick = () => {
+        const t = Math.min(1, (performance.now() - start) / this.transitionMs);
+        this.curtain.alpha = from + (to - from) * t;
+        if (t >= 1) {
+          Ticker.shared.remove(tick);
+          resolve();
+        }
+      };
+      Ticker.shared.add(tick);
+    });
+  }
+}
+
+function build(source: SceneSource): Scene {
+  return typeof source === 'function' ? source() : source;
+}
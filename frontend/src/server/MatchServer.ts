@@ -0,0 +1,241 @@
+// MatchServer.ts
+// Authoritative multiplayer server. Each match holds the real battle (BattleState + BattleSimulator,
+// the same rules as the client); players join a seat (one team each), send commands, and every accepted
+// command is broadcast to the match as a state diff, its events and the hash of the new state.
+// Seats are kept when a connection drops, so a player can come back with its token.
+
+import { isBattleCommand } from '@core/battle/BattleCommands';
+import type { BattleCommand } from '@core/battle/BattleCommands';
+import type { BattleEvent } from '@core/battle/BattleEvents';
+import { loadBattle, saveBattle } from '@core/battle/BattleSave';
+import type { BattleSave } from '@core/battle/BattleSave';
+import { BattleSimulator } from '@core/battle/BattleSimulator';
+import type { BattleState } from '@core/battle/BattleState';
+import { CLIENT_MESSAGE_TYPES, parseMessage } from '@core/net/Protocol';
+import type { ClientMessage, ServerMessage } from '@core/net/Protocol';
+import { diffSaves, hashSave, toNetEvent } from '@core/net/StateSync';
+import { randomUUID } from 'crypto';
+import { WebSocket, WebSocketServer } from 'ws';
+
+export interface MatchServerOptions {
+  /** Initial state of a new match, called the first time a player joins an unknown match id */
+  createMatch: (matchId: string) => BattleSave;
+  /** How long a match is kept once its battle ended or all its players left (ms, 5 minutes by default) */
+  evictAfterMs?: number;
+}
+
+const DEFAULT_EVICT_AFTER_MS = 5 * 60 * 1000;
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+
+interface Seat {
+  team: number;
+  token: string;
+  socket: WebSocket | null;
+}
+
+/** One battle and its players */
+class Match {
+  readonly state: BattleState;
+  readonly simulator: BattleSimulator;
+  readonly seats: Seat[] = [];
+  private save: BattleSave;
+  private seq: number = 0;
+
+  constructor(initial: BattleSave) {
+    const loaded = loadBattle(initial);
+    this.state = loaded.state;
+    this.simulator = new BattleSimulator(this.state, { victoryConditions: loaded.victoryConditions });
+    // Online battles have no placement phase: the first turn starts right away
+    this.simulator.start();
+    this.save = saveBattle(this.state);
+  }
+
+  getTeams(): number[] {
+    return [...new Set(this.state.units.map(u => u.team))].sort((a, b) => a - b);
+  }
+
+  /** Takes back a seat by token, or the first free team; null when the match is full */
+  join(socket: WebSocket, token?: string): Seat | null {
+    let seat = token ? this.seats.find(s => s.token === token) : undefined;
+    if (!seat) {
+      const team = this.getTeams().find(t => !this.seats.some(s => s.team === t));
+      if (team === undefined) return null;
+      seat = { team, token: randomUUID(), socket: null };
+      this.seats.push(seat);
+    }
+    if (seat.socket && seat.socket !== socket) seat.socket.close();
+    seat.socket = socket;
+    this.send(seat, { type: 'welcome', team: seat.team, token: seat.token, ...this.snapshot() });
+    this.broadcast({ type: 'presence', team: seat.team, connected: true }, seat);
+    return seat;
+  }
+
+  leave(seat: Seat, socket: WebSocket) {
+    // A replaced connection closing must not free the seat of the new one
+    if (seat.socket !== socket) return;
+    seat.socket = null;
+    this.broadcast({ type: 'presence', team: seat.team, connected: false }, seat);
+  }
+
+  /** Validates and applies a command of a seat, then broadcasts the update (or rejects it to the sender) */
+  handleCommand(seat: Seat, command: BattleCommand) {
+    const unit = this.state.getUnit(command.unitId);
+    if (!unit || unit.team !== seat.team) {
+      this.send(seat, { type: 'rejected', command, reason: `unit ${command.unitId} is not played by team ${seat.team}` });
+      return;
+    }
+    const events: BattleEvent[] = [];
+    const unsubscribe = this.state.events.onAny(event => events.push(event));
+    const accepted = this.simulator.execute(command);
+    unsubscribe();
+    if (!accepted) {
+      this.send(seat, { type: 'rejected', command, reason: `${command.type} is not allowed now` });
+      return;
+    }
+    const save = saveBattle(this.state);
+    const diff = diffSaves(this.save, save);
+    this.save = save;
+    this.seq++;
+    this.broadcast({ type: 'update', seq: this.seq, command, diff, events: events.map(toNetEvent), hash: hashSave(save) });
+  }
+
+  snapshot(): { seq: number; state: BattleSave; hash: string } {
+    return { seq: this.seq, state: this.save, hash: hashSave(this.save) };
+  }
+
+  send(seat: Seat, message: ServerMessage) {
+    if (seat.socket?.readyState === WebSocket.OPEN) seat.socket.send(JSON.stringify(message));
+  }
+
+  broadcast(message: ServerMessage, except?: Seat) {
+    for (const seat of this.seats) {
+      if (seat !== except) this.send(seat, message);
+    }
+  }
+}
+
+export class MatchServer {
+  private wss: WebSocketServer | null = null;
+  private matches: Map<string, Match> = new Map();
+  private evictionTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+  constructor(private options: MatchServerOptions) {}
+
+  /**
+   * Starts accepting connections.
+   * @param port 0 picks a free port
+   * @returns the port listened on
+   */
+  listen(port: number = 0): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const wss = new WebSocketServer({ port });
+      wss.once('error', reject);
+      wss.once('listening', () => {
+        const address = wss.address();
+        resolve(address && typeof address === 'object' ? address.port : port);
+      });
+      wss.on('connection', socket => this.handleConnection(socket));
+      this.wss = wss;
+    });
+  }
+
+  /** Closes every connection and stops listening */
+  close(): Promise<void> {
+    const wss = this.wss;
+    this.wss = null;
+    for (const timer of this.evictionTimers.values()) clearTimeout(timer);
+    this.evictionTimers.clear();
+    if (!wss) return Promise.resolve();
+    for (const client of wss.clients) client.terminate();
+    return new Promise(resolve => wss.close(() => resolve()));
+  }
+
+  /** The authoritative state of a match, if it exists */
+  getState(matchId: string): BattleState | undefined {
+    return this.matches.get(matchId)?.state;
+  }
+
+  private handleConnection(socket: WebSocket) {
+    let matchId: string | null = null;
+    let match: Match | null = null;
+    let seat: Seat | null = null;
+    const sendError = (message: string) => socket.send(JSON.stringify({ type: 'error', message } satisfies ServerMessage));
+
+    socket.on('message', data => {
+      const message = parseMessage<ClientMessage>(data.toString(), CLIENT_MESSAGE_TYPES);
+      if (!message) {
+        sendError('unknown message');
+        return;
+      }
+      if (message.type === 'join') {
+        if (seat) {
+          sendError('already joined');
+          return;
+        }
+        if (!isNonEmptyString(message.matchId) || (message.token !== undefined && !isNonEmptyString(message.token))) {
+          sendError('malformed join');
+          return;
+        }
+        matchId = message.matchId;
+        match = this.getOrCreateMatch(matchId);
+        seat = match.join(socket, message.token);
+        if (!seat) {
+          sendError(`match ${matchId} is full`);
+          socket.close();
+        }
+        this.updateEviction(matchId, match);
+        return;
+      }
+      if (!match || !seat) {
+        sendError('join a match first');
+        return;
+      }
+      if (message.type === 'sync') {
+        match.send(seat, { type: 'snapshot', ...match.snapshot() });
+      } else if (!isBattleCommand(message.command)) {
+        // Only the message type is checked by parseMessage: the command comes straight from the client
+        sendError('malformed command');
+      } else {
+        match.handleCommand(seat, message.command);
+        this.updateEviction(matchId!, match);
+      }
+    });
+
+    socket.on('close', () => {
+      if (!match || !seat) return;
+      match.leave(seat, socket);
+      this.updateEviction(matchId!, match);
+    });
+  }
+
+  /**
+   * Forgets a match some time after its battle ended or its last player left, so a long-running server
+   * does not keep every match it ever hosted. A player coming back before then keeps an unfinished match;
+   * players still connected to an evicted match keep it until they leave (their connection holds it).
+   */
+  private updateEviction(matchId: string, match: Match) {
+    if (this.matches.get(matchId) !== match) return;
+    const idle = match.simulator.isEnded() || match.seats.every(s => !s.socket);
+    const timer = this.evictionTimers.get(matchId);
+    if (!idle) {
+      if (timer) clearTimeout(timer);
+      this.evictionTimers.delete(matchId);
+      return;
+    }
+    if (timer) return;
+    this.evictionTimers.set(matchId, setTimeout(() => {
+      this.evictionTimers.delete(matchId);
+      this.matches.delete(matchId);
+    }, this.options.evictAfterMs ?? DEFAULT_EVICT_AFTER_MS));
+  }
+
+  private getOrCreateMatch(matchId: string): Match {
+    let match = this.matches.get(matchId);
+    if (!match) {
+      match = new Match(this.options.createMatch(matchId));
+      this.matches.set(matchId, match);
+    }
+    return match;
+  }
+}
@@ -0,0 +1,35 @@
+// main.ts (server)
+// Runs a local match server: `npm run server` (PORT, ARENA and TEAM_SIZE environment variables are optional).
+// Every new match id gets a battle on the arena between two random teams of TEAM_SIZE units (1 by default);
+// the first two players to join play teams 1 and 2.
+// Clients connect with `?server=ws://localhost:8787&match=<id>` in the game URL.
+
+import { saveBattle } from '@core/battle/BattleSave';
+import { createTeamBattleState } from '@core/battle/BattleSetup';
+import { randomTeamComposition } from '@core/battle/TeamComposition';
+import { parseArenaData } from '@core/data/ArenaLoader';
+import { classRegistry } from '@core/data/ClassRegistry';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+
+import { MatchServer } from './MatchServer';
+
+const DEFAULT_PORT = 8787;
+const DEFAULT_ARENA_FILE = 'public/assets/maps/crossroads.json';
+const teamSize = Number(process.env.TEAM_SIZE ?? 1);
+
+const arenaFile = resolve(process.env.ARENA ?? DEFAULT_ARENA_FILE);
+// Fails at startup (ArenaDataError) rather than when the first player joins
+const arena = parseArenaData(readFileSync(arenaFile, 'utf8'), arenaFile);
+
+const server = new MatchServer({
+  createMatch: matchId => {
+    console.log(`New match "${matchId}" on ${arena.name}`);
+    const composition = randomTeamComposition(classRegistry, ['player', 'player'], teamSize);
+    return saveBattle(createTeamBattleState(arena, classRegistry, composition), { arena, composition });
+  }
+});
+
+server.listen(Number(process.env.PORT ?? DEFAULT_PORT)).then(port => {
+  console.log(`Match server listening on ws://localhost:${port}`);
+});
@@ -0,0 +1,143 @@
+// MenuPanel.ts
+// Centered HTML panel for the menu scenes (main menu, match setup, results): title, text, fields and buttons.
+// Each scene owns its panel and destroys it with the scene.
+import { getUIRoot } from './UIManager';
+
+export interface MenuOption {
+  value: string;
+  label: string;
+}
+
+export class MenuPanel {
+  readonly root: HTMLDivElement;
+  private errorLabel: HTMLDivElement;
+
+  constructor(title: string) {
+    this.root = document.createElement('div');
+    this.root.style.position = 'absolute';
+    this.root.style.top = '50%';
+    this.root.style.left = '50%';
+    this.root.style.transform = 'translate(-50%, -50%)';
+    this.root.style.display = 'flex';
+    this.root.style.flexDirection = 'column';
+    this.root.style.alignItems = 'center';
+    this.root.style.gap = '16px';
+    this.root.style.minWidth = '360px';
+    this.root.style.padding = '32px 40px';
+    this.root.style.background = 'rgba(35,36,42,0.92)';
+    this.root.style.borderRadius = '14px';
+    this.root.style.boxShadow = '0 0 32px #000a';
+    this.root.style.fontFamily = 'sans-serif';
+    this.root.style.color = 'white';
+    this.root.style.pointerEvents = 'auto';
+    this.root.style.zIndex = '2000';
+
+    const heading = document.createElement('div');
+    heading.textContent = title;
+    heading.style.fontSize = '2.5rem';
+    heading.style.fontWeight = 'bold';
+    heading.style.textShadow = '0 2px 8px #222, 0 0 2px #1976d2';
+    this.root.appendChild(heading);
+
+    // Mensaje de error (p. ej. archivo inválido o servidor inalcanzable)
+    this.errorLabel = document.createElement('div');
+    this.errorLabel.style.maxWidth = '480px';
+    this.errorLabel.style.whiteSpace = 'pre-wrap';
+    this.errorLabel.style.background = 'rgba(183,28,28,0.9)';
+    this.errorLabel.style.padding = '8px 16px';
+    this.errorLabel.style.borderRadius = '8px';
+    this.errorLabel.style.display = 'none';
+    this.root.appendChild(this.errorLabel);
+
+    getUIRoot().appendChild(this.root);
+  }
+
+  /** Agrega una línea de texto */
+  addText(text: string, fontSize: string = '1.1rem'): HTMLDivElement {
+    const label = document.createElement('div');
+    label.textContent = text;
+    label.style.fontSize = fontSize;
+    return this.append(label);
+  }
+
+  /** Agrega un elemento cualquiera (p. ej. una tabla) */
+  append<T extends HTMLElement>(element: T): T {
+    this.root.insertBefore(element, this.errorLabel);
+    return element;
+  }
+
+  /** Agrega una fila de botones; el primero es el principal */
+  addButtons(buttons: { text: string; onClick: () => void }[]): HTMLButtonElement[] {
+    const row = document.createElement('div');
+    row.style.display = 'flex';
+    row.style.gap = '16px';
+    const created = buttons.map(({ text, onClick }, idx) => {
+      const button = document.createElement('button');
+      button.textContent = text;
+      button.style.padding = '14px 32px';
+      button.style.fontSize = '1.2rem';
+      button.style.background = idx === 0 ? '#1976d2' : '#455a64';
+      button.style.color = 'white';
+      button.style.border = 'none';
+      button.style.borderRadius = '10px';
+      button.style.cursor = 'pointer';
+      button.onclick = () => onClick();
+      row.appendChild(button);
+      return button;
+    });
+    this.append(row);
+    return created;
+  }
+
+  /** Agrega un desplegable con su etiqueta; devuelve la fila (para ocultarla) y el select */
+  addSelect(label: string, options: MenuOption[], value?: string): { row: HTMLLabelElement; select: HTMLSelectElement } {
+    const select = document.createElement('select');
+    for (const option of options) {
+      const element = document.createElement('option');
+      element.value = option.value;
+      element.textContent = option.label;
+      select.appendChild(element);
+    }
+    if (value !== undefined) select.value = value;
+    return { row: this.addField(label, select), select };
+  }
+
+  /** Agrega un campo de texto con su etiqueta */
+  addInput(label: string, value: string): { row: HTMLLabelElement; input: HTMLInputElement } {
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.value = value;
+    return { row: this.addField(label, input), input };
+  }
+
+  /** Muestra un mensaje de error en el panel (null lo oculta) */
+  showError(message: string | null) {
+    this.errorLabel.textContent = message ?? '';
+    this.errorLabel.style.display = message ? 'block' : 'none';
+  }
+
+  setVisible(visible: boolean) {
+    this.root.style.display = visible ? 'flex' : 'none';
+  }
+
+  destroy() {
+    this.root.remove();
+  }
+
+  private addField(label: string, field: HTMLSelectElement | HTMLInputElement): HTMLLabelElement {
+    const row = document.createElement('label');
+    row.style.display = 'flex';
+    row.style.justifyContent = 'space-between';
+    row.style.alignItems = 'center';
+    row.style.gap = '16px';
+    row.style.width = '100%';
+    row.style.fontSize = '1.1rem';
+    row.textContent = label;
+    field.style.minWidth = '200px';
+    field.style.padding = '6px 8px';
+    field.style.fontSize = '1rem';
+    field.style.borderRadius = '6px';
+    row.appendChild(field);
+    return this.append(row);
+  }
+}
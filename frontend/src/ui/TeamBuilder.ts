@@ -0,0 +1,126 @@
+// TeamBuilder.ts
+// Draft of one team in the match setup screen: the drafted classes (with their cost and a remove button),
+// a picker limited to the classes the rules still allow, a random draft and the points spent.
+import { draftTeam, getDraftableClasses, getDraftCost, getTeamCost } from '@core/battle/TeamComposition';
+import type { TeamPlan, TeamRules } from '@core/battle/TeamComposition';
+import type { ClassRegistry } from '@core/data/ClassRegistry';
+
+export class TeamBuilder {
+  readonly root: HTMLDivElement;
+  private classes: string[] = [];
+
+  /**
+   * @param onChange Called after every change of the drafted classes
+   */
+  constructor(
+    private title: string,
+    private registry: ClassRegistry,
+    private rules: TeamRules,
+    private onChange: () => void
+  ) {
+    this.root = document.createElement('div');
+    this.root.style.display = 'flex';
+    this.root.style.flexDirection = 'column';
+    this.root.style.gap = '8px';
+    this.root.style.minWidth = '220px';
+    this.root.style.padding = '12px 16px';
+    this.root.style.background = 'rgba(0,0,0,0.3)';
+    this.root.style.borderRadius = '10px';
+    this.render();
+  }
+
+  getClasses(): string[] {
+    return [...this.classes];
+  }
+
+  setClasses(classes: string[]) {
+    this.classes = [...classes];
+    this.changed();
+  }
+
+  /** Changes the rules (e.g. fewer start cells on another arena); units beyond the new maximum are dropped */
+  setRules(rules: TeamRules) {
+    this.rules = rules;
+    this.classes = this.classes.slice(0, rules.maxUnits);
+    this.changed();
+  }
+
+  setTitle(title: string) {
+    this.title = title;
+    this.render();
+  }
+
+  /** Replaces the team with random classes within the rules */
+  randomize() {
+    this.setClasses(draftTeam(this.registry, this.rules));
+  }
+
+  private changed() {
+    this.render();
+    this.onChange();
+  }
+
+  private render() {
+    const plan: TeamPlan = { team: 0, controller: 'player', classes: this.classes };
+    this.root.replaceChildren();
+
+    // Título con los puntos gastados
+    const header = document.createElement('div');
+    header.textContent = `${this.title} · ${getTeamCost(plan, this.registry)}/${this.rules.budget} pts`;
+    header.style.fontWeight = 'bold';
+    this.root.appendChild(header);
+
+    // Unidades elegidas, cada una con su botón de quitar
+    this.classes.forEach((name, idx) => {
+      const row = document.createElement('div');
+      row.style.display = 'flex';
+      row.style.justifyContent = 'space-between';
+      row.style.alignItems = 'center';
+      const unitClass = this.registry.get(name);
+      row.textContent = unitClass ? `${name} (${getDraftCost(unitClass)})` : name;
+      const remove = this.createButton('✕', () => {
+        this.classes.splice(idx, 1);
+        this.changed();
+      });
+      remove.title = 'Quitar';
+      row.appendChild(remove);
+      this.root.appendChild(row);
+    });
+
+    // Selector con las clases que todavía se pueden agregar
+    const options = getDraftableClasses(plan, this.registry, this.rules);
+    const picker = document.createElement('div');
+    picker.style.display = 'flex';
+    picker.style.gap = '8px';
+    const select = document.createElement('select');
+    select.style.flex = '1';
+    for (const unitClass of options) {
+      const option = document.createElement('option');
+      option.value = unitClass.name;
+      option.textContent = `${unitClass.name} (${getDraftCost(unitClass)})`;
+      select.appendChild(option);
+    }
+    select.disabled = options.length === 0;
+    const add = this.createButton('Agregar', () => {
+      if (!select.value) return;
+      this.classes.push(select.value);
+      this.changed();
+    });
+    add.disabled = options.length === 0;
+    picker.append(select, add, this.createButton('Aleatorio', () => this.randomize()));
+    this.root.appendChild(picker);
+  }
+
+  private createButton(text: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.textContent = text;
+    button.style.padding = '4px 10px';
+    button.style.background = '#455a64';
+    button.style.color = 'white';
+    button.style.border = 'none';
+    button.style.borderRadius = '6px';
+    button.style.cursor = 'pointer';
+    button.onclick = () => onClick();
+    return button;
+  }
+}
@@ -1,25 +1,57 @@
 // UIManager.ts
-// Manages HTML UI outside the main canvas (turn text and button)
+// Manages HTML UI outside the main canvas of the battle (turn text and buttons, save/load, replay controls)
+
+export interface ReplayControlHandlers {
+  onPlay: () => void;
+  onPause: () => void;
+  onStep: () => void;
+  /** Position chosen on the slider (number of commands played) */
+  onSeek: (position: number) => void;
+}
+
+/** Contenedor HTML compartido por la UI de todas las escenas (se crea la primera vez) */
+export function getUIRoot(): HTMLElement {
+  let uiRoot = document.getElementById('ui-root');
+  if (!uiRoot) {
+    uiRoot = document.createElement('div');
+    uiRoot.id = 'ui-root';
+    uiRoot.style.position = 'fixed';
+    uiRoot.style.top = '0';
+    uiRoot.style.left = '0';
+    uiRoot.style.width = '100vw';
+    uiRoot.style.height = '100vh';
+    uiRoot.style.pointerEvents = 'none';
+    document.body.appendChild(uiRoot);
+  }
+  return uiRoot;
+}
 
 export class UIManager {
+  private uiRoot: HTMLElement;
   private turnLabel: HTMLDivElement;
   private endTurnButton: HTMLButtonElement;
+  private readyButton: HTMLButtonElement;
+  private undoButton: HTMLButtonElement;
+  private saveButton: HTMLButtonElement;
+  private loadButton: HTMLButtonElement;
+  private saveReplayButton: HTMLButtonElement;
+  private menuButton: HTMLButtonElement;
+  private replayControls: { bar: HTMLDivElement; play: HTMLButtonElement; slider: HTMLInputElement; label: HTMLDivElement; length: number } | null = null;
+  private fileInput: HTMLInputElement;
+  private errorLabel: HTMLDivElement;
   private onEndTurn: (() => void) | null = null;
+  private onReady: (() => void) | null = null;
+  private onUndo: (() => void) | null = null;
+  private onSave: (() => string) | null = null;
+  private onLoad: ((text: string) => void) | null = null;
+  private onSaveReplay: (() => string | null) | null = null;
+  private onMenu: (() => void) | null = null;
+  private errorTimer: ReturnType<typeof setTimeout> | null = null;
 
   constructor() {
     // Contenedor principal de la UI
-    let uiRoot = document.getElementById('ui-root');
-    if (!uiRoot) {
-      uiRoot = document.createElement('div');
-      uiRoot.id = 'ui-root';
-      uiRoot.style.position = 'fixed';
-      uiRoot.style.top = '0';
-      uiRoot.style.left = '0';
-      uiRoot.style.width = '100vw';
-      uiRoot.style.height = '100vh';
-      uiRoot.style.pointerEvents = 'none';
-      document.body.appendChild(uiRoot);
-    }
+    const uiRoot = getUIRoot();
+    this.uiRoot = uiRoot;
 
     // Texto de turno
     this.turnLabel = document.createElement('div');
@@ -59,6 +91,84 @@ export class UIManager {
       if (this.onEndTurn) this.onEndTurn();
     };
     uiRoot.appendChild(this.endTurnButton);
+
+    // Botón de "listo" de la fase de colocación (mismo lugar que terminar turno, nunca visibles a la vez)
+    this.readyButton = document.createElement('button');
+    this.readyButton.textContent = 'Listo';
+    this.readyButton.style.cssText = this.endTurnButton.style.cssText;
+    this.readyButton.style.background = '#2e7d32';
+    this.readyButton.onclick = () => {
+      if (this.onReady) this.onReady();
+    };
+    uiRoot.appendChild(this.readyButton);
+
+    // Deshacer el último movimiento del turno (encima del botón de terminar turno)
+    this.undoButton = document.createElement('button');
+    this.undoButton.textContent = 'Deshacer movimiento';
+    this.undoButton.style.cssText = this.endTurnButton.style.cssText;
+    this.undoButton.style.bottom = '104px';
+    this.undoButton.style.padding = '10px 24px';
+    this.undoButton.style.fontSize = '1rem';
+    this.undoButton.style.background = '#455a64';
+    this.undoButton.title = 'Ctrl+Z';
+    this.undoButton.onclick = () => {
+      if (this.onUndo) this.onUndo();
+    };
+    uiRoot.appendChild(this.undoButton);
+
+    // Guardar / cargar partida (esquina superior derecha)
+    this.saveButton = this.createSmallButton('Guardar', '40px');
+    this.saveButton.onclick = () => {
+      if (this.onSave) this.download(this.onSave(), `battle-${new Date().toISOString().replace(/[:.]/g, '-')}.json`);
+    };
+    uiRoot.appendChild(this.saveButton);
+
+    this.fileInput = document.createElement('input');
+    this.fileInput.type = 'file';
+    this.fileInput.accept = 'application/json,.json';
+    this.fileInput.style.display = 'none';
+    this.fileInput.onchange = () => {
+      const file = this.fileInput.files?.[0];
+      this.fileInput.value = '';
+      if (file && this.onLoad) file.text().then(this.onLoad);
+    };
+    uiRoot.appendChild(this.fileInput);
+
+    this.loadButton = this.createSmallButton('Cargar', '150px');
+    this.loadButton.onclick = () => this.fileInput.click();
+    uiRoot.appendChild(this.loadButton);
+
+    // Descarga del registro de comandos (repetición) de la batalla en curso
+    this.saveReplayButton = this.createSmallButton('Repetición', '250px');
+    this.saveReplayButton.onclick = () => {
+      const log = this.onSaveReplay?.();
+      if (log) this.download(log, `replay-${new Date().toISOString().replace(/[:.]/g, '-')}.json`);
+    };
+    uiRoot.appendChild(this.saveReplayButton);
+
+    // Volver al menú principal (abandona la batalla)
+    this.menuButton = this.createSmallButton('Menú', '380px');
+    this.menuButton.onclick = () => {
+      if (this.onMenu) this.onMenu();
+    };
+    uiRoot.appendChild(this.menuButton);
+
+    // Mensaje de error temporal (p. ej. partida guardada inválida)
+    this.errorLabel = document.createElement('div');
+    this.errorLabel.style.position = 'absolute';
+    this.errorLabel.style.top = '72px';
+    this.errorLabel.style.left = '50%';
+    this.errorLabel.style.transform = 'translateX(-50%)';
+    this.errorLabel.style.maxWidth = '70vw';
+    this.errorLabel.style.whiteSpace = 'pre-wrap';
+    this.errorLabel.style.fontFamily = 'sans-serif';
+    this.errorLabel.style.color = 'white';
+    this.errorLabel.style.background = 'rgba(183,28,28,0.9)';
+    this.errorLabel.style.padding = '8px 16px';
+    this.errorLabel.style.borderRadius = '8px';
+    this.errorLabel.style.display = 'none';
+    this.errorLabel.style.pointerEvents = 'none';
+    uiRoot.appendChild(this.errorLabel);
   }
 
   /** Actualiza el texto del turno */
@@ -75,4 +185,174 @@ export class UIManager {
   onEndTurnClick(cb: () => void) {
     this.onEndTurn = cb;
   }
-} 
\ No newline at end of file
+
+  /** Muestra u oculta el botón de "listo" de la fase de colocación */
+  setReadyButtonVisible(visible: boolean) {
+    this.readyButton.style.display = visible ? 'block' : 'none';
+  }
+
+  /** Asigna el callback del botón de "listo" */
+  onReadyClick(cb: () => void) {
+    this.onReady = cb;
+  }
+
+  /** Muestra u oculta el botón de deshacer movimiento */
+  setUndoButtonVisible(visible: boolean) {
+    this.undoButton.style.display = visible ? 'block' : 'none';
+  }
+
+  /** Asigna el callback del botón de deshacer movimiento */
+  onUndoClick(cb: () => void) {
+    this.onUndo = cb;
+  }
+
+  /** Asigna el callback del botón de guardar; devuelve el JSON que se descarga */
+  onSaveClick(cb: () => string) {
+    this.onSave = cb;
+  }
+
+  /** Asigna el callback que recibe el texto del archivo elegido con el botón de cargar */
+  onLoadFile(cb: (text: string) => void) {
+    this.onLoad = cb;
+  }
+
+  /**
+   * Asigna el callback del botón de repetición; devuelve el JSON del registro de comandos
+   * (null si todavía no hay nada que descargar). Sin callback el botón se oculta.
+   */
+  onSaveReplayClick(cb: (() => string | null) | null) {
+    this.onSaveReplay = cb;
+    this.saveReplayButton.style.display = cb ? 'block' : 'none';
+  }
+
+  /** Asigna el callback del botón de volver al menú */
+  onMenuClick(cb: () => void) {
+    this.onMenu = cb;
+  }
+
+  /** Muestra la barra de repetición: reproducir/pausa, paso a paso y una barra para saltar a un comando */
+  showReplayControls(length: number, handlers: ReplayControlHandlers) {
+    this.hideReplayControls();
+    const bar = document.createElement('div');
+    bar.style.position = 'absolute';
+    bar.style.bottom = '40px';
+    bar.style.right = '40px';
+    bar.style.zIndex = '1000';
+    bar.style.display = 'flex';
+    bar.style.alignItems = 'center';
+    bar.style.gap = '10px';
+    bar.style.padding = '10px 16px';
+    bar.style.background = 'rgba(35,36,42,0.9)';
+    bar.style.borderRadius = '10px';
+    bar.style.fontFamily = 'sans-serif';
+    bar.style.color = 'white';
+    bar.style.pointerEvents = 'auto';
+
+    const play = document.createElement('button');
+    play.onclick = () => (play.dataset.playing === 'true' ? handlers.onPause() : handlers.onPlay());
+    const step = document.createElement('button');
+    step.textContent = 'Paso';
+    step.onclick = () => handlers.onStep();
+    for (const button of [play, step]) {
+      button.style.padding = '8px 16px';
+      button.style.fontSize = '1rem';
+      button.style.background = '#1976d2';
+      button.style.color = 'white';
+      button.style.border = 'none';
+      button.style.borderRadius = '8px';
+      button.style.cursor = 'pointer';
+    }
+
+    const slider = document.createElement('input');
+    slider.type = 'range';
+    slider.min = '0';
+    slider.max = String(length);
+    slider.onchange = () => handlers.onSeek(Number(slider.value));
+
+    const label = document.createElement('div');
+    label.style.minWidth = '64px';
+
+    bar.append(play, step, slider, label);
+    this.uiRoot.appendChild(bar);
+    this.replayControls = { bar, play, slider, label, length };
+    this.setReplayProgress(0, false);
+  }
+
+  /** Actualiza la barra de repetición (comandos reproducidos y estado de reproducción) */
+  setReplayProgress(position: number, playing: boolean) {
+    if (!this.replayControls) return;
+    const { play, slider, label, length } = this.replayControls;
+    play.textContent = playing ? 'Pausa' : 'Reproducir';
+    play.dataset.playing = String(playing);
+    slider.value = String(position);
+    label.textContent = `${position} / ${length}`;
+  }
+
+  /** Oculta la barra de repetición si está visible */
+  hideReplayControls() {
+    this.replayControls?.bar.remove();
+    this.replayControls = null;
+  }
+
+  /** Muestra un mensaje de error durante unos segundos */
+  showError(message: string) {
+    this.errorLabel.textContent = message;
+    this.errorLabel.style.display = 'block';
+    if (this.errorTimer) clearTimeout(this.errorTimer);
+    this.errorTimer = setTimeout(() => {
+      this.errorLabel.style.display = 'none';
+      this.errorTimer = null;
+    }, 6000);
+  }
+
+  /** Elimina todos los elementos HTML creados por este manager */
+  destroy() {
+    this.hideReplayControls();
+    this.turnLabel.remove();
+    this.endTurnButton.remove();
+    this.readyButton.remove();
+    this.undoButton.remove();
+    this.saveButton.remove();
+    this.loadButton.remove();
+    this.saveReplayButton.remove();
+    this.menuButton.remove();
+    this.fileInput.remove();
+    this.errorLabel.remove();
+    if (this.errorTimer) clearTimeout(this.errorTimer);
+    this.onEndTurn = null;
+    this.onReady = null;
+    this.onUndo = null;
+    this.onSave = null;
+    this.onLoad = null;
+    this.onSaveReplay = null;
+    this.onMenu = null;
+  }
+
+  private createSmallButton(text: string, right: string): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.textContent = text;
+    button.style.position = 'absolute';
+    button.style.top = '12px';
+    button.style.right = right;
+    button.style.zIndex = '1000';
+    button.style.padding = '8px 18px';
+    button.style.fontSize = '1rem';
+    button.style.background = '#455a64';
+    button.style.color = 'white';
+    button.style.border = 'none';
+    button.style.borderRadius = '8px';
+    button.style.cursor = 'pointer';
+    button.style.pointerEvents = 'auto';
+    return button;
+  }
+
+  /** Descarga un texto como archivo */
+  private download(text: string, fileName: string) {
+    const url = URL.createObjectURL(new Blob([text], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
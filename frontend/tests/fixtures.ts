@@ -0,0 +1,25 @@
+// fixtures.ts
+// Unit classes shared by the integration specs
+
+import { Spell } from '../src/core/Spell';
+import type { UnitClass } from '../src/core/unitClasses';
+
+/** 50 HP, 6 AP, 3 MP melee class whose only spell, Strike, costs 3 AP and can be cast twice per turn */
+export const fighter = (damage: number, cooldown?: number): UnitClass => ({
+  name: 'Fighter',
+  maxHP: 50,
+  maxAP: 6,
+  maxMP: 3,
+  spells: [
+    new Spell({
+      name: 'Strike',
+      cost: 3,
+      range: 1,
+      minRange: 1,
+      maxCastsPerTurn: 2,
+      targetType: 'enemy',
+      effects: [{ type: 'damage', value: damage }],
+      cooldown
+    })
+  ]
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AIController } from '../../src/core/battle/AIController';
+import { BattleState } from '../../src/core/battle/BattleState';
+import { BattleSimulator } from '../../src/core/battle/BattleSimulator';
+import { Unit } from '../../src/core/Unit';
+import { Spell } from '../../src/core/Spell';
+import type { UnitClass } from '../../src/core/unitClasses';
+import { fighter } from '../fixtures';
+
+const healer = (): UnitClass => ({
+  name: 'Healer',
+  maxHP: 50,
+  maxAP: 6,
+  maxMP: 3,
+  spells: [
+    new Spell({
+      name: 'Mend',
+      cost: 3,
+      range: 3,
+      minRange: 1,
+      maxCastsPerTurn: 1,
+      targetType: 'ally',
+      effects: [{ type: 'heal', value: 20 }]
+    })
+  ]
+});
+
+describe('AIController', () => {
+  let bot: Unit;
+  let player: Unit;
+  let state: BattleState;
+  let simulator: BattleSimulator;
+  let turns: { endTurn: ReturnType<typeof vi.fn> };
+  let ai: AIController;
+  // AP/MP/position of the bot when its turn ends (they are restored once the turn is over)
+  let endOfTurn: { ap: number; mp: number; position: { x: number; y: number } } | null;
+
+  // Units play in the listed order
+  const setup = (units: Unit[]) => {
+    units.forEach((unit, i) => (unit.initiative = units.length - i));
+    state = new BattleState({ width: 8, height: 8, units });
+    simulator = new BattleSimulator(state);
+    endOfTurn = null;
+    turns = {
+      endTurn: vi.fn(() => {
+        endOfTurn = { ap: bot.ap, mp: bot.mp, position: { ...bot.position } };
+        simulator.endTurn();
+      })
+    };
+    ai = new AIController(simulator, turns, { actionDelayMs: 0, moveStepMs: 0 });
+  };
+
+  beforeEach(() => {
+    bot = new Unit('bot', 'Bot', 'enemy', { x: 0, y: 0 }, 2, fighter(10));
+    player = new Unit('p1', 'Player', 'player', { x: 1, y: 0 }, 1, fighter(10));
+  });
+
+  it('should cast on an adjacent enemy as long as it can, then end the turn', async () => {
+    setup([bot, player]);
+
+    await ai.playTurn(bot);
+
+    expect(player.hp).toBe(30);
+    expect(turns.endTurn).toHaveBeenCalledTimes(1);
+    expect(endOfTurn).toEqual({ ap: 0, mp: 3, position: { x: 0, y: 0 } });
+    expect(state.currentUnit).toBe(player);
+  });
+
+  it('should walk into range before casting', async () => {
+    player.position = { x: 3, y: 0 };
+    setup([bot, player]);
+    const moved = vi.fn();
+    simulator.on('UnitMoved', moved);
+
+    await ai.playTurn(bot);
+
+    expect(moved).toHaveBeenCalledTimes(1);
+    expect(player.hp).toBe(30);
+    expect(turns.endTurn).toHaveBeenCalledTimes(1);
+    expect(endOfTurn).toEqual({ ap: 0, mp: 1, position: { x: 2, y: 0 } });
+  });
+
+  it('should move towards the nearest enemy when nothing can be cast this turn', async () => {
+    player.position = { x: 7, y: 7 };
+    setup([bot, player]);
+
+    const action = ai.chooseNextAction(bot);
+    expect(action?.kind).toBe('move');
+
+    await ai.playTurn(bot);
+
+    expect(player.hp).toBe(50);
+    expect(turns.endTurn).toHaveBeenCalledTimes(1);
+    expect(endOfTurn?.mp).toBe(0);
+    expect(bot.position.x + bot.position.y).toBe(3);
+  });
+
+  it('should heal a wounded ally and ignore healthy ones', () => {
+    const medic = new Unit('medic', 'Medic', 'enemy', { x: 0, y: 0 }, 2, healer());
+    const ally = new Unit('ally', 'Ally', 'enemy', { x: 2, y: 0 }, 2, fighter(10));
+    player.position = { x: 7, y: 7 };
+    setup([medic, ally, player]);
+
+    expect(ai.chooseNextAction(medic, true)).toBeNull();
+
+    ally.hp = 20;
+    expect(ai.chooseNextAction(medic)).toEqual({ kind: 'cast', spell: 'Mend', cell: { x: 2, y: 0 } });
+  });
+
+  it('should leave positions and occupancy untouched while planning', () => {
+    player.position = { x: 3, y: 0 };
+    setup([bot, player]);
+
+    ai.chooseNextAction(bot);
+
+    expect(bot.position).toEqual({ x: 0, y: 0 });
+    expect(state.map.getOccupant({ x: 0, y: 0 })).toBe(bot);
+    expect(state.map.getOccupant({ x: 2, y: 0 })).toBeNull();
+  });
+
+  it('should only play the units it controls', async () => {
+    setup([player, bot]);
+
+    simulator.start();
+    await Promise.resolve();
+
+    expect(ai.isControlling(player)).toBe(false);
+    expect(ai.isControlling(bot)).toBe(true);
+    expect(turns.endTurn).not.toHaveBeenCalled();
+    expect(state.currentUnit).toBe(player);
+  });
+
+  it('should stop playing once the battle is over', async () => {
+    player.hp = 10;
+    setup([bot, player]);
+
+    await ai.playTurn(bot);
+
+    expect(player.isAlive()).toBe(false);
+    expect(simulator.isEnded()).toBe(true);
+    expect(bot.ap).toBe(3);
+    expect(turns.endTurn).not.toHaveBeenCalled();
+  });
+
+  it('should stop a turn in progress once disposed', async () => {
+    setup([bot, player]);
+
+    const turn = ai.playTurn(bot);
+    ai.dispose();
+    await turn;
+
+    expect(player.hp).toBe(50);
+    expect(bot.ap).toBe(6);
+    expect(turns.endTurn).not.toHaveBeenCalled();
+  });
+});
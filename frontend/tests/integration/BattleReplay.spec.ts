@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BattleReplay, CommandRecorder, ReplayError, isReplayLog } from '../../src/core/battle/BattleReplay';
+import { saveBattle } from '../../src/core/battle/BattleSave';
+import { BattleState } from '../../src/core/battle/BattleState';
+import { BattleSimulator } from '../../src/core/battle/BattleSimulator';
+import { PlacementPhase } from '../../src/core/battle/PlacementPhase';
+import { Unit } from '../../src/core/Unit';
+import { fighter } from '../fixtures';
+
+describe('BattleReplay', () => {
+  let p1: Unit;
+  let p2: Unit;
+  let state: BattleState;
+  let simulator: BattleSimulator;
+  let recorder: CommandRecorder;
+
+  beforeEach(() => {
+    p1 = new Unit('p1', 'Player 1', 'player', { x: 0, y: 0 }, 1, fighter(20));
+    p2 = new Unit('p2', 'Player 2', 'player', { x: 4, y: 0 }, 2, fighter(20));
+    state = new BattleState({ width: 5, height: 5, units: [p1, p2], seed: 7 });
+    simulator = new BattleSimulator(state);
+    recorder = new CommandRecorder(simulator);
+  });
+
+  /** Plays until p2 dies; p1 and p2 share initiative, so the seed decides who starts */
+  const playBattle = () => {
+    const first = state.currentUnit!;
+    const other = first === p1 ? p2 : p1;
+    const toward = first === p1 ? 1 : -1;
+    const path = [1, 2, 3].map(i => ({ x: first.position.x + i * toward, y: 0 }));
+    expect(simulator.move(first.id, path)).toBe(true);
+    expect(simulator.cast(first.id, 'Strike', other.position)).toBe(true);
+    simulator.endTurn();
+    expect(simulator.cast(other.id, 'Strike', first.position)).toBe(true);
+    simulator.endTurn();
+    expect(simulator.cast(first.id, 'Strike', other.position)).toBe(true);
+    expect(simulator.cast(first.id, 'Strike', other.position)).toBe(true);
+  };
+
+  it('should record every accepted command in order', () => {
+    playBattle();
+    simulator.move(state.currentUnit!.id, [{ x: 9, y: 9 }]);
+
+    const log = recorder.getLog()!;
+    expect(log.commands.map(c => c.type)).toEqual(['move', 'cast', 'endTurn', 'cast', 'endTurn', 'cast', 'cast']);
+    expect(log.initial.seed).toBe(7);
+    expect(log.initial.units.every(u => u.hp === 50)).toBe(true);
+    expect(isReplayLog(JSON.parse(JSON.stringify(log)))).toBe(true);
+    expect(isReplayLog(saveBattle(state))).toBe(false);
+    expect(isReplayLog({ ...log, commands: [...log.commands, { type: 'move', unitId: 'p1', path: null }] })).toBe(false);
+  });
+
+  it('should reproduce the battle exactly', () => {
+    playBattle();
+    const log = JSON.parse(JSON.stringify(recorder.getLog()));
+
+    const replay = new BattleReplay(log);
+    const onEnded = vi.fn();
+    replay.simulator.on('BattleEnded', onEnded);
+    replay.stepTo(log.commands.length);
+
+    expect(replay.isFinished()).toBe(true);
+    expect(replay.step()).toBeNull();
+    expect(replay.state.units.map(u => ({ id: u.id, hp: u.hp, ap: u.ap, position: u.position })))
+      .toEqual(state.units.map(u => ({ id: u.id, hp: u.hp, ap: u.ap, position: u.position })));
+    expect(onEnded).toHaveBeenCalledWith(simulator.getResult());
+  });
+
+  it('should step one command at a time', () => {
+    playBattle();
+    const replay = new BattleReplay(recorder.getLog()!);
+
+    expect(replay.step()).toEqual(expect.objectContaining({ type: 'move' }));
+    expect(replay.getPosition()).toBe(1);
+    replay.stepTo(3);
+    expect(replay.getPosition()).toBe(3);
+    expect(replay.state.turnManager.getTurnNumber()).toBe(2);
+  });
+
+  it('should report commands that the rules reject', () => {
+    playBattle();
+    const log = recorder.getLog()!;
+    log.commands[1] = { type: 'cast', unitId: log.commands[1].unitId, spell: 'Fireball', cell: { x: 0, y: 0 } };
+
+    const replay = new BattleReplay(log);
+    replay.step();
+    expect(() => replay.step()).toThrow(ReplayError);
+    expect(replay.getPosition()).toBe(1);
+  });
+
+  it('should capture the initial state when the placement phase ends', () => {
+    const a = new Unit('a', 'A', 'player', { x: 0, y: 0 }, 1, fighter(20));
+    const b = new Unit('b', 'B', 'player', { x: 4, y: 4 }, 2, fighter(20));
+    const deferred = new BattleState({ width: 5, height: 5, units: [a, b], deferTurns: true });
+    const sim = new BattleSimulator(deferred);
+    const rec = new CommandRecorder(sim);
+    sim.on('PlacementEnded', () => sim.start());
+    const placement = new PlacementPhase(deferred, { 1: [{ x: 0, y: 0 }, { x: 0, y: 1 }], 2: [{ x: 4, y: 4 }] });
+
+    expect(rec.getLog()).toBeNull();
+    placement.place('a', { x: 0, y: 1 });
+    placement.lock(1);
+    placement.lock(2);
+
+    const log = rec.getLog()!;
+    expect(log.initial.units.find(u => u.id === 'a')!.position).toEqual({ x: 0, y: 1 });
+    expect(log.initial.turns.started).toBe(false);
+    const replay = new BattleReplay(log);
+    replay.start();
+    expect(replay.state.currentUnit!.id).toBe(deferred.currentUnit!.id);
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  BattleSaveError,
+  SAVE_VERSION,
+  loadBattle,
+  migrateSave,
+  parseBattle,
+  saveBattle,
+  stringifyBattle
+} from '../../src/core/battle/BattleSave';
+import { BattleState } from '../../src/core/battle/BattleState';
+import { BattleSimulator } from '../../src/core/battle/BattleSimulator';
+import { Unit } from '../../src/core/Unit';
+import { fighter } from '../fixtures';
+
+describe('BattleSave', () => {
+  let p1: Unit;
+  let p2: Unit;
+  let state: BattleState;
+  let simulator: BattleSimulator;
+
+  beforeEach(() => {
+    p1 = new Unit('p1', 'Player 1', 'player', { x: 0, y: 0 }, 1, fighter(10, 2));
+    p2 = new Unit('p2', 'Player 2', 'player', { x: 3, y: 0 }, 2, fighter(10, 2));
+    p1.initiative = 10;
+    state = new BattleState({ width: 5, height: 5, units: [p1, p2], seed: 42 });
+    state.map.setTerrain({ x: 2, y: 2 }, 'wall');
+    simulator = new BattleSimulator(state);
+    // Mid-battle: p1 walked next to p2, hit it and applied a poison
+    simulator.move('p1', [{ x: 1, y: 0 }, { x: 2, y: 0 }]);
+    simulator.cast('p1', 'Strike', { x: 3, y: 0 });
+    p2.applyState({ id: 'poison-1', type: 'poison', duration: 2, value: 3 });
+    state.rng.next();
+  });
+
+  it('should restore units, map, turns and RNG exactly', () => {
+    const loaded = loadBattle(saveBattle(state));
+    const restored = loaded.state;
+    const q1 = restored.getUnit('p1')!;
+    const q2 = restored.getUnit('p2')!;
+
+    expect(q1.position).toEqual({ x: 2, y: 0 });
+    expect(q1.mp).toBe(p1.mp);
+    expect(q1.ap).toBe(p1.ap);
+    expect(q1.castsThisTurn).toEqual({ Strike: 1 });
+    expect(q1.spells[0].cooldownCounter).toBe(p1.spells[0].cooldownCounter);
+    expect(q2.hp).toBe(p2.hp);
+    expect(q2.states).toEqual([{ id: 'poison-1', type: 'poison', duration: 2, value: 3 }]);
+    expect(restored.map.getOccupant({ x: 2, y: 0 })).toBe(q1);
+    expect(restored.map.getOccupant({ x: 0, y: 0 })).toBeNull();
+    expect(restored.map.getTerrain({ x: 2, y: 2 })).toBe('wall');
+    expect(restored.currentUnit).toBe(q1);
+    expect(restored.turnManager.snapshot()).toEqual(state.turnManager.snapshot());
+    expect(restored.rng.next()).toBe(state.rng.next());
+  });
+
+  it('should resume the saved turn without restarting it', () => {
+    const restored = loadBattle(JSON.parse(stringifyBattle(state))).state;
+    const resumed = new BattleSimulator(restored);
+    const onTurnStarted = vi.fn();
+    resumed.on('TurnStarted', onTurnStarted);
+
+    resumed.start();
+
+    const q1 = restored.getUnit('p1')!;
+    expect(onTurnStarted).toHaveBeenCalledWith({ unit: q1, turnNumber: 1 });
+    expect(q1.mp).toBe(1);
+    resumed.endTurn();
+    expect(restored.currentUnit).toBe(restored.getUnit('p2'));
+  });
+
+  it('should keep dead units off the map', () => {
+    p2.hp = 0;
+    const restored = loadBattle(saveBattle(state)).state;
+
+    expect(restored.getUnit('p2')!.isAlive()).toBe(false);
+    expect(restored.map.getOccupant({ x: 3, y: 0 })).toBeNull();
+  });
+
+  it('should save extras and not share data with the battle', () => {
+    const conditions = [{ type: 'surviveRounds' as const, rounds: 5, team: 2 }];
+    const composition = {
+      teams: [
+        { team: 1, controller: 'player' as const, classes: ['Fighter'] },
+        { team: 2, controller: 'ai' as const, classes: ['Fighter'] }
+      ]
+    };
+    const save = saveBattle(state, { victoryConditions: conditions, composition });
+    p1.hp = 1;
+    composition.teams[0].classes.push('Fighter');
+
+    expect(save.version).toBe(SAVE_VERSION);
+    expect(save.units[0].hp).toBe(50);
+    expect(save.composition!.teams[0].classes).toEqual(['Fighter']);
+    expect(loadBattle(save).victoryConditions).toEqual(conditions);
+    expect(loadBattle(save).composition).toEqual(save.composition);
+  });
+
+  describe('migrateSave', () => {
+    it('should run every migration from the save version to the target', () => {
+      const migrations = {
+        1: (save: any) => ({ ...save, renamed: save.old }),
+        2: (save: any) => ({ ...save, extra: true })
+      };
+
+      expect(migrateSave({ version: 1, old: 'x' }, migrations, 3)).toEqual({ version: 3, old: 'x', renamed: 'x', extra: true });
+    });
+
+    it('should reject saves newer than the target or without a migration path', () => {
+      expect(() => migrateSave({ version: 4 }, {}, 3)).toThrow('newer than supported version 3');
+      expect(() => migrateSave({ version: 1 }, {}, 2)).toThrow('no migration from version 1 to 2');
+    });
+  });
+
+  it('should report every issue of an invalid save', () => {
+    const save = saveBattle(state) as any;
+    save.units[1].id = 'p1';
+    save.map.terrain[0][0] = 'lava';
+    delete save.rngState;
+    save.composition = { teams: [{ team: 1, controller: 'human', classes: ['Fighter'] }] };
+
+    try {
+      loadBattle(save);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(BattleSaveError);
+      expect((error as BattleSaveError).issues.map(i => i.path)).toEqual(['$.rngState', 'map.terrain', 'units[1].id', 'composition.teams[0].controller']);
+    }
+  });
+
+  describe('unit checks', () => {
+    const issuesOf = (edit: (save: any) => void) => {
+      const save = saveBattle(state) as any;
+      edit(save);
+      try {
+        loadBattle(save);
+        return [];
+      } catch (error) {
+        expect(error).toBeInstanceOf(BattleSaveError);
+        return (error as BattleSaveError).issues;
+      }
+    };
+
+    it('should reject positions that are not integer cells of the map', () => {
+      expect(issuesOf(save => (save.units[0].position = { x: 99, y: 99 }))).toEqual([
+        { path: 'units[0].position', message: 'cell (99,99) is outside the 5x5 map' }
+      ]);
+      expect(issuesOf(save => (save.units[0].position = { x: 'a', y: 0 }))).toEqual([
+        { path: 'units[0].position.x', message: 'must be a number, got "a"' }
+      ]);
+    });
+
+    it('should reject two living units on the same cell', () => {
+      expect(issuesOf(save => (save.units[1].position = { ...save.units[0].position }))).toEqual([
+        { path: 'units[1].position', message: 'cell (2,0) already holds a living unit' }
+      ]);
+      expect(issuesOf(save => {
+        save.units[1].position = { ...save.units[0].position };
+        save.units[1].hp = 0;
+      })).toEqual([]);
+    });
+
+    it('should reject states without id, type or duration', () => {
+      expect(issuesOf(save => (save.units[1].states = [null]))).toEqual([
+        { path: 'units[1].states[0]', message: 'must be an object' }
+      ]);
+      expect(issuesOf(save => delete save.units[1].states[0].duration)).toEqual([
+        { path: 'units[1].states[0].duration', message: 'is required' }
+      ]);
+    });
+
+    it('should check spells with the class data rules, effects included', () => {
+      expect(issuesOf(save => (save.units[0].spells = [42]))).toEqual([
+        { path: 'units[0].spells[0]', message: 'must be an object' }
+      ]);
+      expect(issuesOf(save => (save.units[0].spells[0].effects[0].type = 'nope'))).toEqual([
+        { path: 'units[0].spells[0].effects[0].type', message: expect.stringContaining('unknown effect type "nope"') }
+      ]);
+    });
+  });
+
+  it('should report invalid JSON text', () => {
+    expect(() => parseBattle('{ nope')).toThrow(BattleSaveError);
+  });
+});
@@ -0,0 +1,385 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BattleState } from '../../src/core/battle/BattleState';
+import { BattleSimulator } from '../../src/core/battle/BattleSimulator';
+import type { VictoryCondition } from '../../src/core/battle/VictoryConditions';
+import { Unit } from '../../src/core/Unit';
+import { Spell } from '../../src/core/Spell';
+import type { UnitClass } from '../../src/core/unitClasses';
+
+const fighter: UnitClass = {
+  name: 'Fighter',
+  maxHP: 50,
+  maxAP: 6,
+  maxMP: 3,
+  spells: [
+    new Spell({
+      name: 'Strike',
+      cost: 3,
+      range: 1,
+      minRange: 1,
+      maxCastsPerTurn: 2,
+      targetType: 'enemy',
+      effects: [{ type: 'damage', value: 30 }]
+    })
+  ]
+};
+
+describe('BattleSimulator', () => {
+  let p1: Unit;
+  let p2: Unit;
+  let state: BattleState;
+  let simulator: BattleSimulator;
+
+  beforeEach(() => {
+    p1 = new Unit('p1', 'Player 1', 'player', { x: 0, y: 0 }, 1, fighter);
+    p2 = new Unit('p2', 'Player 2', 'player', { x: 4, y: 0 }, 2, fighter);
+    p1.initiative = 10; // p1 plays first
+    state = new BattleState({ width: 5, height: 5, units: [p1, p2] });
+    simulator = new BattleSimulator(state);
+  });
+
+  describe('move', () => {
+    it('should move the current unit and update map occupancy', () => {
+      const onMoved = vi.fn();
+      simulator.on('UnitMoved', onMoved);
+
+      const result = simulator.move('p1', [{ x: 1, y: 0 }, { x: 2, y: 0 }]);
+
+      expect(result).toBe(true);
+      expect(p1.position).toEqual({ x: 2, y: 0 });
+      expect(p1.mp).toBe(1);
+      expect(state.map.getOccupant({ x: 0, y: 0 })).toBeNull();
+      expect(state.map.getOccupant({ x: 2, y: 0 })).toBe(p1);
+      expect(onMoved).toHaveBeenCalledWith({
+        unit: p1,
+        from: { x: 0, y: 0 },
+        to: { x: 2, y: 0 },
+        path: [{ x: 1, y: 0 }, { x: 2, y: 0 }],
+        kind: 'walk'
+      });
+    });
+
+    it('should spend the terrain cost of every step', () => {
+      state.map.setTerrain({ x: 1, y: 0 }, 'mud');
+
+      expect(simulator.move('p1', [{ x: 1, y: 0 }, { x: 2, y: 0 }])).toBe(true);
+      expect(p1.mp).toBe(0);
+    });
+
+    it('should reject paths that cost more MP than the unit has', () => {
+      state.map.setTerrain({ x: 1, y: 0 }, 'water');
+
+      expect(simulator.move('p1', [{ x: 1, y: 0 }, { x: 2, y: 0 }])).toBe(false);
+      expect(p1.position).toEqual({ x: 0, y: 0 });
+      expect(p1.mp).toBe(3);
+    });
+
+    it('should reject moves from a unit that is not acting', () => {
+      expect(simulator.move('p2', [{ x: 3, y: 0 }])).toBe(false);
+      expect(p2.position).toEqual({ x: 4, y: 0 });
+    });
+
+    it('should reject paths longer than the remaining MP', () => {
+      const path = [{ x: 0, y: 1 }, { x: 0, y: 2 }, { x: 0, y: 3 }, { x: 0, y: 4 }];
+      expect(simulator.move('p1', path)).toBe(false);
+      expect(p1.mp).toBe(3);
+    });
+
+    it('should reject non contiguous or blocked paths', () => {
+      expect(simulator.move('p1', [{ x: 2, y: 0 }])).toBe(false);
+      state.map.cells[0][1].walkable = false;
+      expect(simulator.move('p1', [{ x: 1, y: 0 }])).toBe(false);
+      expect(p1.position).toEqual({ x: 0, y: 0 });
+    });
+  });
+
+  describe('cast', () => {
+    it('should cast a spell on the unit standing on the cell', () => {
+      const onCast = vi.fn();
+      simulator.on('SpellCast', onCast);
+      p2.position = { x: 1, y: 0 };
+      state.map.setOccupied({ x: 4, y: 0 }, null);
+      state.map.setOccupied(p2.position, p2);
+
+      const result = simulator.cast('p1', 'Strike', { x: 1, y: 0 });
+
+      expect(result).toBe(true);
+      expect(p2.hp).toBe(20);
+      expect(p1.ap).toBe(3);
+      expect(p1.castsThisTurn.Strike).toBe(1);
+      expect(onCast).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject out of range casts', () => {
+      expect(simulator.cast('p1', 'Strike', { x: 4, y: 0 })).toBe(false);
+      expect(p2.hp).toBe(50);
+      expect(p1.ap).toBe(6);
+    });
+
+    it('should reject unknown spells', () => {
+      expect(simulator.cast('p1', 'Fireball', { x: 1, y: 0 })).toBe(false);
+    });
+  });
+
+  describe('undoMove', () => {
+    it('should restore position, MP and occupancy of the last move', () => {
+      const onUndone = vi.fn();
+      simulator.on('MoveUndone', onUndone);
+      simulator.move('p1', [{ x: 1, y: 0 }]);
+      simulator.move('p1', [{ x: 1, y: 1 }, { x: 2, y: 1 }]);
+
+      expect(simulator.undoMove('p1')).toBe(true);
+      expect(p1.position).toEqual({ x: 1, y: 0 });
+      expect(p1.mp).toBe(2);
+      expect(state.map.getOccupant({ x: 2, y: 1 })).toBeNull();
+      expect(state.map.getOccupant({ x: 1, y: 0 })).toBe(p1);
+      expect(onUndone).toHaveBeenCalledWith({ unit: p1, from: { x: 2, y: 1 }, to: { x: 1, y: 0 }, mp: 2, ap: 0 });
+
+      expect(simulator.undoMove('p1')).toBe(true);
+      expect(p1.position).toEqual({ x: 0, y: 0 });
+      expect(p1.mp).toBe(3);
+      expect(simulator.undoMove('p1')).toBe(false);
+    });
+
+    it('should make moves final once a spell is cast', () => {
+      simulator.move('p1', [{ x: 1, y: 0 }, { x: 2, y: 0 }, { x: 3, y: 0 }]);
+      expect(simulator.canUndoMove('p1')).toBe(true);
+
+      simulator.cast('p1', 'Strike', { x: 4, y: 0 });
+
+      expect(simulator.canUndoMove('p1')).toBe(false);
+      expect(simulator.undoMove('p1')).toBe(false);
+      expect(p1.position).toEqual({ x: 3, y: 0 });
+    });
+
+    it('should make moves final once any effect happens', () => {
+      simulator.move('p1', [{ x: 1, y: 0 }]);
+      p2.applyState({ id: 'shield-1', type: 'shield', duration: 1, value: 5 });
+
+      expect(simulator.undoMove('p1')).toBe(false);
+    });
+
+    it('should not undo moves of a previous turn or of another unit', () => {
+      simulator.move('p1', [{ x: 1, y: 0 }]);
+      expect(simulator.undoMove('p2')).toBe(false);
+
+      simulator.endTurn();
+
+      expect(simulator.canUndoMove('p1')).toBe(false);
+      expect(simulator.undoMove('p2')).toBe(false);
+    });
+  });
+
+  describe('endTurn', () => {
+    it('should advance to the next unit and emit turn events', () => {
+      const onEnded = vi.fn();
+      const onStarted = vi.fn();
+      simulator.on('TurnEnded', onEnded);
+      simulator.on('TurnStarted', onStarted);
+
+      simulator.endTurn();
+
+      expect(state.currentUnit).toBe(p2);
+      expect(onEnded).toHaveBeenCalledWith({ unit: p1, turnNumber: 1 });
+      expect(onStarted).toHaveBeenCalledWith({ unit: p2, turnNumber: 2 });
+    });
+
+    it('should stop notifying listeners after unsubscribing', () => {
+      const onStarted = vi.fn();
+      const off = simulator.on('TurnStarted', onStarted);
+      off();
+
+      simulator.endTurn();
+
+      expect(onStarted).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should run a full battle headless until one unit dies', () => {
+    const onDied = vi.fn();
+    const onEnded = vi.fn();
+    const log: string[] = [];
+    simulator.on('UnitDied', onDied);
+    simulator.on('BattleEnded', onEnded);
+    state.events.onAny(event => log.push(event.type));
+
+    // Turn 1: p1 walks next to p2
+    expect(simulator.move('p1', [{ x: 1, y: 0 }, { x: 2, y: 0 }, { x: 3, y: 0 }])).toBe(true);
+    expect(simulator.cast('p1', 'Strike', { x: 4, y: 0 })).toBe(true);
+    simulator.endTurn();
+
+    // Turn 2: p2 strikes back once
+    expect(simulator.cast('p2', 'Strike', { x: 3, y: 0 })).toBe(true);
+    simulator.endTurn();
+
+    // Turn 3: p1 finishes p2
+    expect(simulator.cast('p1', 'Strike', { x: 4, y: 0 })).toBe(true);
+
+    expect(p2.isAlive()).toBe(false);
+    expect(state.map.getOccupant({ x: 4, y: 0 })).toBeNull();
+    expect(onDied).toHaveBeenCalledWith({ unit: p2, position: { x: 4, y: 0 } });
+    expect(onEnded).toHaveBeenCalledWith(expect.objectContaining({ winnerTeam: 1, reason: 'elimination' }));
+    expect(state.getAliveUnits()).toEqual([p1]);
+    expect(log).toContain('DamageDealt');
+    expect(log.slice(-2)).toEqual(['UnitDied', 'BattleEnded']);
+
+    // No more actions are accepted once the battle is over
+    simulator.endTurn();
+    expect(state.currentUnit).toBe(p1);
+  });
+
+  describe('area spells', () => {
+    it('should hit every enemy in the area and spare allies when friendly fire is off', () => {
+      const p3 = new Unit('p3', 'Player 3', 'player', { x: 3, y: 1 }, 2, fighter);
+      const p4 = new Unit('p4', 'Player 4', 'player', { x: 2, y: 0 }, 1, fighter);
+      const blast = new Spell({
+        name: 'Blast',
+        cost: 4,
+        range: 4,
+        minRange: 1,
+        targetType: 'enemy',
+        effects: [{ type: 'damage', value: 10 }],
+        area: { shape: 'circle', size: 1, affects: 'enemies' }
+      });
+      p1.spells.push(blast);
+      p2.position = { x: 3, y: 0 };
+      state = new BattleState({ width: 5, height: 5, units: [p1, p2, p3, p4] });
+      simulator = new BattleSimulator(state);
+
+      expect(simulator.cast('p1', 'Blast', { x: 3, y: 0 })).toBe(true);
+
+      expect(p2.hp).toBe(40);
+      expect(p3.hp).toBe(40);
+      expect(p4.hp).toBe(50);
+      expect(p1.ap).toBe(2);
+    });
+
+    it('should refuse an area that hits nobody without spending AP', () => {
+      p1.spells.push(new Spell({
+        name: 'Quake',
+        cost: 3,
+        range: 4,
+        minRange: 1,
+        targetType: 'unitOrEmpty',
+        effects: [{ type: 'damage', value: 10 }],
+        area: { shape: 'circle', size: 1 }
+      }));
+      const onCommand = vi.fn();
+      simulator.on('CommandExecuted', onCommand);
+
+      expect(simulator.cast('p1', 'Quake', { x: 1, y: 3 })).toBe(false);
+
+      expect(p1.ap).toBe(6);
+      expect(onCommand).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('forced movement', () => {
+    it('should refuse a dash or pull that cannot move anyone without spending AP', () => {
+      const spell = (name: string, type: 'dash' | 'pull') =>
+        new Spell({ name, cost: 2, range: 4, minRange: 1, targetType: 'enemy', effects: [{ type, value: 0 }] });
+      p1.spells.push(spell('Rush', 'dash'), spell('Hook', 'pull'));
+      p2.position = { x: 1, y: 0 };
+      state = new BattleState({ width: 5, height: 5, units: [p1, p2] });
+      simulator = new BattleSimulator(state);
+      const onCommand = vi.fn();
+      simulator.on('CommandExecuted', onCommand);
+
+      // p2 stands right next to p1: there is no cell to dash through nor to pull it into
+      expect(simulator.cast('p1', 'Rush', { x: 1, y: 0 })).toBe(false);
+      expect(simulator.cast('p1', 'Hook', { x: 1, y: 0 })).toBe(false);
+
+      expect(p1.ap).toBe(6);
+      expect(p1.position).toEqual({ x: 0, y: 0 });
+      expect(onCommand).not.toHaveBeenCalled();
+
+      p2.position = { x: 3, y: 0 };
+      state.map.setOccupied({ x: 1, y: 0 }, null);
+      state.map.setOccupied(p2.position, p2);
+      expect(simulator.cast('p1', 'Rush', { x: 3, y: 0 })).toBe(true);
+      expect(p1.position).toEqual({ x: 2, y: 0 });
+      expect(p1.ap).toBe(4);
+    });
+  });
+
+  describe('damage over time', () => {
+    it('should kill a unit with a start-of-turn tick and skip its turn', () => {
+      const onDied = vi.fn();
+      const onEnded = vi.fn();
+      simulator.on('UnitDied', onDied);
+      simulator.on('BattleEnded', onEnded);
+      p2.hp = 5;
+      p2.applyState({ id: 'poison_1', type: 'poison', duration: 2, value: 10, stackable: true });
+
+      simulator.endTurn();
+
+      expect(p2.isAlive()).toBe(false);
+      expect(onDied).toHaveBeenCalledWith({ unit: p2, position: { x: 4, y: 0 } });
+      expect(onEnded).toHaveBeenCalledWith(expect.objectContaining({ winnerTeam: 1, reason: 'elimination' }));
+      expect(state.map.getOccupant({ x: 4, y: 0 })).toBeNull();
+    });
+
+    it('should apply end-of-turn ticks before state durations are decremented', () => {
+      p1.applyState({ id: 'regen_1', type: 'regen', duration: 1, value: 10, tickAt: 'end' });
+      p1.hp = 20;
+
+      simulator.endTurn();
+
+      expect(p1.hp).toBe(30);
+      expect(p1.states).toHaveLength(0);
+    });
+  });
+
+  describe('victory conditions', () => {
+    const withConditions = (victoryConditions: VictoryCondition[]) => {
+      simulator = new BattleSimulator(state, { victoryConditions });
+      return simulator;
+    };
+
+    it('should report the winner with per-unit stats when a team is eliminated', () => {
+      p2.position = { x: 1, y: 0 };
+      state = new BattleState({ width: 5, height: 5, units: [p1, p2] });
+      simulator = new BattleSimulator(state);
+      p2.hp = 40;
+
+      simulator.cast('p1', 'Strike', { x: 1, y: 0 });
+      simulator.cast('p1', 'Strike', { x: 1, y: 0 });
+
+      const result = simulator.getResult();
+      expect(result).toMatchObject({ winnerTeam: 1, reason: 'elimination', stats: { rounds: 1, turns: 1 } });
+      expect(result!.stats.units).toEqual([
+        { unitId: 'p1', name: 'Player 1', team: 1, alive: true, damageDealt: 40, damageTaken: 0, healingDone: 0, kills: 1 },
+        { unitId: 'p2', name: 'Player 2', team: 2, alive: false, damageDealt: 0, damageTaken: 40, healingDone: 0, kills: 0 }
+      ]);
+    });
+
+    it('should let a team win by surviving the given number of rounds', () => {
+      withConditions([{ type: 'elimination' }, { type: 'survive', team: 2, rounds: 2 }]);
+      const onEnded = vi.fn();
+      const onStarted = vi.fn();
+      simulator.on('BattleEnded', onEnded);
+      simulator.on('TurnStarted', onStarted);
+
+      for (let i = 0; i < 3; i++) simulator.endTurn();
+      expect(simulator.isEnded()).toBe(false);
+      simulator.endTurn(); // end of round 2
+
+      expect(onEnded).toHaveBeenCalledWith(expect.objectContaining({ winnerTeam: 2, reason: 'survived' }));
+      expect(onStarted).toHaveBeenCalledTimes(3);
+      expect(simulator.cast('p1', 'Strike', { x: 4, y: 0 })).toBe(false);
+    });
+
+    it('should end the battle when the marked unit dies, even if its team still stands', () => {
+      const p3 = new Unit('p3', 'Player 3', 'player', { x: 4, y: 4 }, 2, fighter);
+      p2.position = { x: 1, y: 0 };
+      p2.hp = 30;
+      state = new BattleState({ width: 5, height: 5, units: [p1, p2, p3] });
+      withConditions([{ type: 'elimination' }, { type: 'defeatUnit', unitId: 'p2' }]);
+
+      simulator.cast('p1', 'Strike', { x: 1, y: 0 });
+
+      expect(p3.isAlive()).toBe(true);
+      expect(simulator.getResult()).toMatchObject({ winnerTeam: 1, reason: 'unitDefeated' });
+    });
+  });
+});
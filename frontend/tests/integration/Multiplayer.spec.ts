@@ -0,0 +1,226 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WebSocket } from 'ws';
+import type { BattleCommand } from '../../src/core/battle/BattleCommands';
+import { saveBattle } from '../../src/core/battle/BattleSave';
+import type { BattleSave } from '../../src/core/battle/BattleSave';
+import { BattleState } from '../../src/core/battle/BattleState';
+import { MatchClient } from '../../src/core/net/MatchClient';
+import type { MatchClientEventMap } from '../../src/core/net/MatchClient';
+import { hashSave } from '../../src/core/net/StateSync';
+import { Unit } from '../../src/core/Unit';
+import { MatchServer } from '../../src/server/MatchServer';
+import { fighter } from '../fixtures';
+
+function createMatch(): BattleSave {
+  const p1 = new Unit('p1', 'Player 1', 'player', { x: 0, y: 0 }, 1, fighter(15));
+  const p2 = new Unit('p2', 'Player 2', 'player', { x: 4, y: 0 }, 2, fighter(15));
+  p1.initiative = 10;
+  return saveBattle(new BattleState({ width: 5, height: 5, units: [p1, p2], seed: 3 }));
+}
+
+/** Resolves with the next payload of a client event */
+function next<K extends keyof MatchClientEventMap>(client: MatchClient, type: K): Promise<MatchClientEventMap[K]> {
+  return new Promise(resolve => {
+    const off = client.on(type, payload => {
+      off();
+      resolve(payload);
+    });
+  });
+}
+
+/**
+ * Scripted player: on its turn, strikes an adjacent enemy while it has AP, otherwise walks one step
+ * toward it, otherwise ends the turn. One command per state received.
+ */
+function playScripted(client: MatchClient) {
+  const act = () => {
+    const state = client.state;
+    if (!state || state.turns.stopped) return;
+    const current = state.units.find(u => u.id === state.turns.order[state.turns.currentIndex]);
+    if (!current || current.team !== client.team) return;
+    const enemy = state.units.find(u => u.team !== current.team && u.hp > 0)!;
+    const dx = enemy.position.x - current.position.x;
+    const dy = enemy.position.y - current.position.y;
+    let command: BattleCommand;
+    if (Math.abs(dx) + Math.abs(dy) === 1 && current.ap >= 3 && (current.castsThisTurn.Strike ?? 0) < 2) {
+      command = { type: 'cast', unitId: current.id, spell: 'Strike', cell: enemy.position };
+    } else if (Math.abs(dx) + Math.abs(dy) > 1 && current.mp > 0) {
+      const step = dx !== 0 ? { x: current.position.x + Math.sign(dx), y: current.position.y } : { x: current.position.x, y: current.position.y + Math.sign(dy) };
+      command = { type: 'move', unitId: current.id, path: [step] };
+    } else {
+      command = { type: 'endTurn', unitId: current.id };
+    }
+    client.send(command);
+  };
+  client.on('welcome', act);
+  client.on('update', act);
+}
+
+describe('Multiplayer', () => {
+  let server: MatchServer;
+  let url: string;
+  const clients: MatchClient[] = [];
+
+  const createClient = (matchId: string = 'test') => {
+    const client = new MatchClient({ url, matchId, createSocket: u => new WebSocket(u), reconnectDelayMs: 10 });
+    clients.push(client);
+    return client;
+  };
+
+  beforeEach(async () => {
+    server = new MatchServer({ createMatch });
+    url = `ws://localhost:${await server.listen(0)}`;
+  });
+
+  afterEach(async () => {
+    for (const client of clients.splice(0)) client.close();
+    await server.close();
+  });
+
+  it('should seat the first two players on teams 1 and 2 and refuse a third', async () => {
+    const a = createClient();
+    const b = createClient();
+    await a.connect();
+    await b.connect();
+
+    expect(a.team).toBe(1);
+    expect(b.team).toBe(2);
+    expect(hashSave(a.state!)).toBe(hashSave(b.state!));
+    await expect(createClient().connect()).rejects.toThrow('match test is full');
+  });
+
+  it('should play a full match between two scripted clients', async () => {
+    const a = createClient();
+    const b = createClient();
+    const ended = Promise.all([a, b].map(client => new Promise<unknown>(resolve => {
+      client.on('update', ({ events }) => {
+        const battleEnded = events.find(e => e.type === 'BattleEnded');
+        if (battleEnded) resolve(battleEnded.payload);
+      });
+    })));
+    const desyncs: unknown[] = [];
+    a.on('desync', d => desyncs.push(d));
+    b.on('desync', d => desyncs.push(d));
+    playScripted(a);
+    playScripted(b);
+    await a.connect();
+    await b.connect();
+
+    const [resultA, resultB] = await ended;
+
+    expect(resultA).toEqual(expect.objectContaining({ winnerTeam: 1, reason: 'elimination' }));
+    expect(resultB).toEqual(resultA);
+    const authoritative = hashSave(saveBattle(server.getState('test')!));
+    expect(hashSave(a.state!)).toBe(authoritative);
+    expect(hashSave(b.state!)).toBe(authoritative);
+    expect(desyncs).toEqual([]);
+  });
+
+  it('should reject commands for units of another team or out of turn', async () => {
+    const a = createClient();
+    const b = createClient();
+    await a.connect();
+    await b.connect();
+
+    const rejectedA = next(a, 'rejected');
+    a.send({ type: 'endTurn', unitId: 'p2' });
+    expect((await rejectedA).reason).toBe('unit p2 is not played by team 1');
+
+    const rejectedB = next(b, 'rejected');
+    b.send({ type: 'endTurn', unitId: 'p2' });
+    expect((await rejectedB).reason).toBe('endTurn is not allowed now');
+  });
+
+  it('should answer malformed commands with an error and keep the match running', async () => {
+    const a = createClient();
+    await a.connect();
+    const errors: string[] = [];
+    a.on('error', ({ message }) => errors.push(message));
+
+    const malformed = [
+      null,
+      { type: 'move', unitId: 'p1', path: null },
+      { type: 'move', unitId: 'p1', path: [{ x: 1.5, y: 0 }] },
+      { type: 'cast', unitId: 'p1', spell: 'Strike', cell: null },
+      { type: 'endTurn', unitId: 42 },
+      { type: 'jump', unitId: 'p1' }
+    ];
+    for (const command of malformed) a.send(command as unknown as BattleCommand);
+    const update = next(a, 'update');
+    a.send({ type: 'move', unitId: 'p1', path: [{ x: 1, y: 0 }] });
+
+    expect((await update).command).toEqual({ type: 'move', unitId: 'p1', path: [{ x: 1, y: 0 }] });
+    expect(errors).toEqual(malformed.map(() => 'malformed command'));
+  });
+
+  it('should refuse joins without a string match id or token', async () => {
+    const socket = new WebSocket(url);
+    await new Promise(resolve => socket.once('open', resolve));
+    const replies: string[] = [];
+    socket.on('message', data => replies.push(JSON.parse(data.toString()).message));
+
+    socket.send(JSON.stringify({ type: 'join' }));
+    socket.send(JSON.stringify({ type: 'join', matchId: { id: 'test' } }));
+    socket.send(JSON.stringify({ type: 'join', matchId: 'test', token: 42 }));
+
+    await vi.waitFor(() => expect(replies).toHaveLength(3));
+    expect(replies).toEqual(['malformed join', 'malformed join', 'malformed join']);
+    expect(server.getState('test')).toBeUndefined();
+    socket.close();
+    const a = createClient();
+    await a.connect();
+    expect(a.team).toBe(1);
+  });
+
+  it('should forget a match once all its players left for a while', async () => {
+    await server.close();
+    server = new MatchServer({ createMatch, evictAfterMs: 20 });
+    url = `ws://localhost:${await server.listen(0)}`;
+    const a = createClient();
+    await a.connect();
+    expect(server.getState('test')).toBeDefined();
+
+    a.close();
+
+    await vi.waitFor(() => expect(server.getState('test')).toBeUndefined());
+  });
+
+  it('should give the seat back after a reconnection', async () => {
+    const a = createClient();
+    const b = createClient();
+    await a.connect();
+    await b.connect();
+    const presence = next(b, 'presence');
+
+    // Drop a's connection from the server side
+    const welcomeAgain = next(a, 'welcome');
+    for (const socket of (server as unknown as { wss: { clients: Set<WebSocket> } }).wss.clients) {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.close();
+        break;
+      }
+    }
+
+    expect(await presence).toEqual({ team: 1, connected: false });
+    expect(await welcomeAgain).toEqual({ team: 1 });
+    const update = next(b, 'update');
+    expect(a.send({ type: 'move', unitId: 'p1', path: [{ x: 1, y: 0 }] })).toBe(true);
+    expect((await update).command).toEqual({ type: 'move', unitId: 'p1', path: [{ x: 1, y: 0 }] });
+  });
+
+  it('should detect a desync and recover the server state', async () => {
+    const a = createClient();
+    await a.connect();
+    a.state!.units[1].hp = 1;
+
+    const desync = next(a, 'desync');
+    const snapshot = next(a, 'snapshot');
+    a.send({ type: 'move', unitId: 'p1', path: [{ x: 1, y: 0 }] });
+
+    expect((await desync).seq).toBe(1);
+    await snapshot;
+    expect(a.state!.units[1].hp).toBe(50);
+    expect(hashSave(a.state!)).toBe(hashSave(saveBattle(server.getState('test')!)));
+  });
+});
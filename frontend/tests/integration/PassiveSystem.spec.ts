@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { BattleState } from '../../src/core/battle/BattleState';
+import { BattleSimulator } from '../../src/core/battle/BattleSimulator';
+import type { Passive } from '../../src/core/Passive';
+import { Spell } from '../../src/core/Spell';
+import { Unit } from '../../src/core/Unit';
+import type { UnitClass } from '../../src/core/unitClasses';
+
+const fighter = (passive?: Passive): UnitClass => ({
+  name: 'Fighter',
+  maxHP: 50,
+  maxAP: 6,
+  maxMP: 3,
+  passive,
+  spells: [
+    new Spell({
+      name: 'Strike',
+      cost: 3,
+      range: 1,
+      minRange: 1,
+      maxCastsPerTurn: 2,
+      targetType: 'enemy',
+      effects: [{ type: 'damage', value: 30 }]
+    })
+  ]
+});
+
+const rage: Passive = { name: 'Rage', trigger: 'damaged', target: 'self', effects: [{ type: 'buff_ap', value: 1, duration: 1 }] };
+
+/** Units in the given order of play (initiative from highest to lowest) */
+const battle = (...units: Unit[]) => {
+  units.forEach((unit, i) => (unit.initiative = 100 - i));
+  const state = new BattleState({ width: 5, height: 5, units });
+  const simulator = new BattleSimulator(state);
+  const triggered: string[] = [];
+  state.events.on('PassiveTriggered', ({ unit, passive, targets }) => {
+    triggered.push(`${unit.id}:${passive}:${targets.map(t => t.id).join(',')}`);
+  });
+  simulator.start();
+  return { state, simulator, triggered };
+};
+
+describe('PassiveSystem', () => {
+  it('should give AP on the next turn to a unit that was hit', () => {
+    const attacker = new Unit('a', 'Attacker', 'player', { x: 0, y: 0 }, 1, fighter());
+    const warrior = new Unit('w', 'Warrior', 'enemy', { x: 1, y: 0 }, 2, fighter(rage));
+    warrior.hp = warrior.maxHP = 100;
+    const { simulator, triggered } = battle(attacker, warrior);
+
+    simulator.cast('a', 'Strike', { x: 1, y: 0 });
+    simulator.cast('a', 'Strike', { x: 1, y: 0 });
+    simulator.endTurn();
+
+    // Hit twice, but the buff from the same passive does not stack
+    expect(triggered).toEqual(['w:Rage:w', 'w:Rage:w']);
+    expect(warrior.ap).toBe(7);
+    simulator.endTurn();
+    expect(warrior.hasState('buff_ap')).toBe(false);
+  });
+
+  it('should heal adjacent allies when the turn starts, not when the current turn is announced', () => {
+    const aura: Passive = { name: 'Aura', trigger: 'turnStart', target: 'adjacentAllies', effects: [{ type: 'heal', value: 10 }] };
+    const enemy = new Unit('e', 'Enemy', 'enemy', { x: 4, y: 4 }, 2, fighter());
+    const healer = new Unit('h', 'Healer', 'player', { x: 0, y: 0 }, 1, fighter(aura));
+    const ally = new Unit('a', 'Ally', 'player', { x: 1, y: 0 }, 1, fighter());
+    const far = new Unit('f', 'Far ally', 'player', { x: 3, y: 0 }, 1, fighter());
+    ally.hp = 20;
+    far.hp = 20;
+    const { simulator, triggered } = battle(enemy, healer, ally, far);
+
+    simulator.start();
+    expect(ally.hp).toBe(20);
+
+    simulator.endTurn();
+
+    expect(triggered).toEqual(['h:Aura:a']);
+    expect(ally.hp).toBe(30);
+    expect(far.hp).toBe(20);
+  });
+
+  it('should go off on a kill once the death is resolved', () => {
+    const trophy: Passive = { name: 'Trophy', trigger: 'kill', target: 'self', effects: [{ type: 'shield', value: 20, duration: 2 }] };
+    const hunter = new Unit('h', 'Hunter', 'player', { x: 0, y: 0 }, 1, fighter(trophy));
+    const prey = new Unit('p', 'Prey', 'enemy', { x: 1, y: 0 }, 2, fighter());
+    const other = new Unit('o', 'Other', 'enemy', { x: 4, y: 4 }, 2, fighter());
+    prey.hp = 25;
+    const { state, simulator, triggered } = battle(hunter, prey, other);
+    const order: string[] = [];
+    state.events.on('UnitDied', ({ unit }) => order.push(`died:${unit.id}`));
+    state.events.on('PassiveTriggered', ({ passive }) => order.push(passive));
+
+    simulator.cast('h', 'Strike', { x: 1, y: 0 });
+
+    expect(order).toEqual(['died:p', 'Trophy']);
+    expect(triggered).toEqual(['h:Trophy:h']);
+    expect(hunter.shield).toBe(20);
+  });
+
+  it('should drain an enemy that steps next to the unit and make the move final', () => {
+    const snare: Passive = { name: 'Snare', trigger: 'enemyMovedAdjacent', target: 'other', effects: [{ type: 'drain_ap', value: 1, duration: 1 }] };
+    const runner = new Unit('r', 'Runner', 'player', { x: 0, y: 2 }, 1, fighter());
+    const keeper = new Unit('k', 'Keeper', 'enemy', { x: 2, y: 0 }, 2, fighter(snare));
+    const { simulator, triggered } = battle(runner, keeper);
+
+    simulator.move('r', [{ x: 0, y: 1 }]);
+    expect(triggered).toEqual([]);
+    simulator.move('r', [{ x: 1, y: 1 }, { x: 1, y: 0 }]);
+
+    expect(triggered).toEqual(['k:Snare:r']);
+    expect(runner.ap).toBe(5);
+    expect(simulator.canUndoMove('r')).toBe(false);
+
+    // Moving along it does not set it off again
+    simulator.endTurn();
+    simulator.endTurn();
+    simulator.move('r', [{ x: 2, y: 1 }]);
+    expect(triggered).toEqual(['k:Snare:r']);
+  });
+
+  it('should not let passives set off other passives', () => {
+    const thorns: Passive = { name: 'Thorns', trigger: 'damaged', target: 'other', effects: [{ type: 'damage', value: 5 }] };
+    const a = new Unit('a', 'A', 'player', { x: 0, y: 0 }, 1, fighter(thorns));
+    const b = new Unit('b', 'B', 'enemy', { x: 1, y: 0 }, 2, fighter(thorns));
+    const { simulator, triggered } = battle(a, b);
+
+    simulator.cast('a', 'Strike', { x: 1, y: 0 });
+
+    expect(triggered).toEqual(['b:Thorns:a']);
+    expect(a.hp).toBe(45);
+    expect(b.hp).toBe(20);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BattleState } from '../../src/core/battle/BattleState';
+import { BattleSimulator } from '../../src/core/battle/BattleSimulator';
+import { PlacementPhase } from '../../src/core/battle/PlacementPhase';
+import { Unit } from '../../src/core/Unit';
+import type { UnitClass } from '../../src/core/unitClasses';
+
+const fighter: UnitClass = { name: 'Fighter', maxHP: 50, maxAP: 6, maxMP: 3, spells: [] };
+
+const startCells = {
+  1: [{ x: 0, y: 0 }, { x: 0, y: 1 }, { x: 0, y: 2 }],
+  2: [{ x: 4, y: 4 }, { x: 4, y: 3 }]
+};
+
+describe('PlacementPhase', () => {
+  let a1: Unit;
+  let a2: Unit;
+  let b1: Unit;
+  let state: BattleState;
+  let simulator: BattleSimulator;
+  let placement: PlacementPhase;
+
+  beforeEach(() => {
+    a1 = new Unit('a1', 'A1', 'player', { x: 0, y: 0 }, 1, fighter);
+    a2 = new Unit('a2', 'A2', 'player', { x: 2, y: 2 }, 1, fighter);
+    b1 = new Unit('b1', 'B1', 'player', { x: 4, y: 4 }, 2, fighter);
+    a1.initiative = 10;
+    state = new BattleState({ width: 5, height: 5, units: [a1, a2, b1], deferTurns: true });
+    simulator = new BattleSimulator(state);
+    placement = new PlacementPhase(state, startCells);
+  });
+
+  it('should move units that are not on a start cell of their team onto a free one', () => {
+    expect(a1.position).toEqual({ x: 0, y: 0 });
+    expect(a2.position).toEqual({ x: 0, y: 1 });
+    expect(state.getUnitAt({ x: 0, y: 1 })).toBe(a2);
+    expect(state.getUnitAt({ x: 2, y: 2 })).toBeNull();
+  });
+
+  it('should place a unit on a free start cell and publish UnitPlaced', () => {
+    const onPlaced = vi.fn();
+    simulator.on('UnitPlaced', onPlaced);
+
+    expect(placement.place('a1', { x: 0, y: 2 })).toBe(true);
+
+    expect(a1.position).toEqual({ x: 0, y: 2 });
+    expect(state.getUnitAt({ x: 0, y: 0 })).toBeNull();
+    expect(onPlaced).toHaveBeenCalledWith({ unit: a1, from: { x: 0, y: 0 }, to: { x: 0, y: 2 }, swappedWith: null });
+  });
+
+  it('should swap with a teammate standing on the target cell', () => {
+    expect(placement.place('a1', { x: 0, y: 1 })).toBe(true);
+
+    expect(a1.position).toEqual({ x: 0, y: 1 });
+    expect(a2.position).toEqual({ x: 0, y: 0 });
+    expect(state.getUnitAt({ x: 0, y: 0 })).toBe(a2);
+    expect(state.getUnitAt({ x: 0, y: 1 })).toBe(a1);
+  });
+
+  it('should refuse cells that are not start cells of the unit team', () => {
+    expect(placement.place('a1', { x: 1, y: 1 })).toBe(false);
+    expect(placement.place('a1', { x: 4, y: 3 })).toBe(false);
+    expect(a1.position).toEqual({ x: 0, y: 0 });
+  });
+
+  it('should not start any turn before every team is locked', () => {
+    const onTurnStarted = vi.fn();
+    simulator.on('TurnStarted', onTurnStarted);
+
+    expect(state.turnManager.hasStarted()).toBe(false);
+    expect(simulator.move('a1', [{ x: 1, y: 0 }])).toBe(false);
+
+    placement.lock(1);
+    expect(placement.place('a1', { x: 0, y: 2 })).toBe(false);
+    expect(placement.isOver()).toBe(false);
+    expect(onTurnStarted).not.toHaveBeenCalled();
+  });
+
+  it('should end the phase when the last team locks, then start the first turn', () => {
+    const onEnded = vi.fn();
+    simulator.on('PlacementEnded', onEnded);
+    simulator.on('PlacementEnded', () => simulator.start());
+    const onTurnStarted = vi.fn();
+    simulator.on('TurnStarted', onTurnStarted);
+
+    placement.lock(2);
+    placement.lock(1);
+
+    expect(onEnded).toHaveBeenCalledWith({ teams: [1, 2] });
+    expect(placement.isOver()).toBe(true);
+    expect(onTurnStarted).toHaveBeenCalledTimes(1);
+    expect(onTurnStarted).toHaveBeenCalledWith({ unit: a1, turnNumber: 1 });
+    expect(simulator.move('a1', [{ x: 1, y: 0 }])).toBe(true);
+  });
+
+  it('should reject teams with more units than start cells', () => {
+    const extra = new Unit('b2', 'B2', 'player', { x: 3, y: 3 }, 2, fighter);
+    const crowded = new BattleState({ width: 5, height: 5, units: [b1, extra], deferTurns: true });
+
+    expect(() => new PlacementPhase(crowded, { 2: [{ x: 4, y: 4 }] })).toThrow('Team 2 has 2 units but only 1 start cells');
+  });
+});
@@ -3,7 +3,7 @@ import { SpellSystem } from '../../src/core/battle/SpellSystem';
 import { Unit } from '../../src/core/Unit';
 import { Spell } from '../../src/core/Spell';
 import { TurnManager } from '../../src/core/TurnManager';
-import { UnitClasses } from '../../src/core/unitClasses';
+import { classRegistry } from '../../src/core/data/ClassRegistry';
 
 // Mock dependencies
 vi.mock('../../src/ui/FloatingText', () => ({
@@ -22,8 +22,8 @@ describe('SpellSystem Integration', () => {
 
   beforeEach(() => {
     // Create test units using actual unit classes
-    caster = new Unit('caster1', 'Timetac', 'player', { x: 0, y: 0 }, 1, UnitClasses.Timetac);
-    target = new Unit('target1', 'Healium', 'enemy', { x: 1, y: 1 }, 2, UnitClasses.Healium);
+    caster = new Unit('caster1', 'Timetac', 'player', { x: 0, y: 0 }, 1, classRegistry.require('Timetac'));
+    target = new Unit('target1', 'Healium', 'enemy', { x: 1, y: 1 }, 2, classRegistry.require('Healium'));
 
     // Create turn manager
     turnManager = new TurnManager([caster, target]);
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { getAreaCells, getCastDirection, getUnitsInArea } from '../../src/core/Area';
+import { MapGrid } from '../../src/core/MapGrid';
+import { Unit } from '../../src/core/Unit';
+import type { Position } from '../../src/core/MapGrid';
+
+const sorted = (cells: Position[]) => [...cells].sort((a, b) => a.y - b.y || a.x - b.x);
+
+describe('Area', () => {
+  describe('getCastDirection', () => {
+    it('should follow the dominant axis from caster to target', () => {
+      expect(getCastDirection({ x: 0, y: 0 }, { x: 3, y: 1 })).toEqual({ x: 1, y: 0 });
+      expect(getCastDirection({ x: 2, y: 5 }, { x: 1, y: 1 })).toEqual({ x: 0, y: -1 });
+      expect(getCastDirection({ x: 2, y: 2 }, { x: 2, y: 2 })).toEqual({ x: 0, y: 0 });
+    });
+  });
+
+  describe('getAreaCells', () => {
+    const caster = { x: 0, y: 3 };
+    const center = { x: 3, y: 3 };
+
+    it('should resolve a circle as every cell within the radius', () => {
+      const cells = getAreaCells({ shape: 'circle', size: 1 }, caster, center);
+      expect(sorted(cells)).toEqual(sorted([
+        { x: 3, y: 2 }, { x: 2, y: 3 }, { x: 3, y: 3 }, { x: 4, y: 3 }, { x: 3, y: 4 }
+      ]));
+      expect(getAreaCells({ shape: 'circle', size: 2 }, caster, center)).toHaveLength(13);
+    });
+
+    it('should resolve a cross along both axes', () => {
+      const cells = getAreaCells({ shape: 'cross', size: 2 }, caster, center);
+      expect(cells).toHaveLength(9);
+      expect(cells).toContainEqual({ x: 3, y: 1 });
+      expect(cells).toContainEqual({ x: 5, y: 3 });
+      expect(cells).not.toContainEqual({ x: 4, y: 4 });
+    });
+
+    it('should extend a line away from the caster', () => {
+      expect(getAreaCells({ shape: 'line', size: 2 }, caster, center)).toEqual([
+        { x: 3, y: 3 }, { x: 4, y: 3 }, { x: 5, y: 3 }
+      ]);
+    });
+
+    it('should widen a cone away from the caster', () => {
+      const cells = getAreaCells({ shape: 'cone', size: 1 }, { x: 3, y: 0 }, center);
+      expect(sorted(cells)).toEqual(sorted([
+        { x: 3, y: 3 }, { x: 2, y: 4 }, { x: 3, y: 4 }, { x: 4, y: 4 }
+      ]));
+    });
+
+    it('should drop cells outside the map', () => {
+      const map = new MapGrid(4, 4);
+      const cells = getAreaCells({ shape: 'circle', size: 1 }, caster, { x: 0, y: 0 }, map);
+      expect(sorted(cells)).toEqual(sorted([{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 0, y: 1 }]));
+    });
+  });
+
+  describe('getUnitsInArea', () => {
+    const makeUnit = (id: string, team: number, position: Position) =>
+      new Unit(id, id, 'player', position, team, { name: 'T', maxHP: 50, maxAP: 6, maxMP: 3, spells: [] });
+
+    it('should apply friendly fire rules relative to the caster', () => {
+      const map = new MapGrid(6, 6);
+      const caster = makeUnit('caster', 1, { x: 2, y: 2 });
+      const ally = makeUnit('ally', 1, { x: 2, y: 3 });
+      const enemy = makeUnit('enemy', 2, { x: 3, y: 2 });
+      const farEnemy = makeUnit('far', 2, { x: 5, y: 5 });
+      for (const u of [caster, ally, enemy, farEnemy]) map.setOccupied(u.position, u);
+      const center = { x: 2, y: 2 };
+
+      expect(getUnitsInArea({ shape: 'circle', size: 1 }, caster, center, map)).toEqual([caster, enemy, ally]);
+      expect(getUnitsInArea({ shape: 'circle', size: 1, affects: 'enemies' }, caster, center, map)).toEqual([enemy]);
+      expect(getUnitsInArea({ shape: 'circle', size: 1, affects: 'allies' }, caster, center, map)).toEqual([caster, ally]);
+
+      enemy.hp = 0;
+      expect(getUnitsInArea({ shape: 'circle', size: 1, affects: 'enemies' }, caster, center, map)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import { createMapGrid, getStartCells } from '../../src/core/Arena';
+import { ArenaDataError, loadArenaData, parseArenaData } from '../../src/core/data/ArenaLoader';
+import { BattleState } from '../../src/core/battle/BattleState';
+import crossroads from '../../public/assets/maps/crossroads.json';
+import ruins from '../../public/assets/maps/ruins.json';
+
+const validArena = () => ({
+  name: 'Pond',
+  width: 4,
+  height: 3,
+  terrain: [
+    '.~~.',
+    '.#,.',
+    '...O'
+  ],
+  startCells: {
+    '1': [{ x: 0, y: 0 }],
+    '2': [{ x: 3, y: 1 }, { x: 2, y: 2 }]
+  },
+  decorations: [{ name: 'reeds', alpha: 0.5, tiles: [{ x: 1, y: 0, texture: 'deco-grass' }] }]
+});
+
+const FLIPPED = 0x80000000;
+
+// 3x2 Tiled map: tile 1 wall, tile 2 water, tile 3 a decoration; start objects in pixels (32px tiles)
+const tiledMap = () => ({
+  type: 'map',
+  orientation: 'orthogonal',
+  width: 3,
+  height: 2,
+  tilewidth: 32,
+  tileheight: 32,
+  properties: [{ name: 'name', type: 'string', value: 'Tiny' }],
+  tilesets: [{
+    firstgid: 1,
+    name: 'arena',
+    tiles: [
+      { id: 0, properties: [{ name: 'terrain', type: 'string', value: 'wall' }] },
+      { id: 1, properties: [{ name: 'terrain', type: 'string', value: 'water' }] },
+      { id: 2, properties: [{ name: 'texture', type: 'string', value: 'deco-rubble' }] }
+    ]
+  }],
+  layers: [
+    { name: 'terrain', type: 'tilelayer', width: 3, height: 2, opacity: 1, data: [0, 1, 0, (2 | FLIPPED) >>> 0, 0, 0] },
+    { name: 'props', type: 'tilelayer', width: 3, height: 2, opacity: 0.5, data: [0, 0, 3, 0, 0, 0] },
+    {
+      name: 'start',
+      type: 'objectgroup',
+      objects: [
+        { id: 1, x: 16, y: 16, width: 0, height: 0, point: true, properties: [{ name: 'team', type: 'int', value: 1 }] },
+        { id: 2, x: 64, y: 32, width: 32, height: 32, properties: [{ name: 'team', type: 'int', value: 2 }] },
+        { id: 3, x: 40, y: 40, width: 0, height: 0, properties: [{ name: 'note', type: 'string', value: 'ignored' }] }
+      ]
+    }
+  ]
+});
+
+const issuesOf = (data: unknown) => {
+  try {
+    loadArenaData(data, 'test.json');
+  } catch (error) {
+    expect(error).toBeInstanceOf(ArenaDataError);
+    return (error as ArenaDataError).issues;
+  }
+  throw new Error('expected ArenaDataError');
+};
+
+describe('ArenaLoader', () => {
+  it('should load the native format: terrain rows, start cells and decorations', () => {
+    const arena = loadArenaData(validArena());
+
+    expect(arena.name).toBe('Pond');
+    expect(arena.terrain).toEqual([
+      ['floor', 'water', 'water', 'floor'],
+      ['floor', 'wall', 'mud', 'floor'],
+      ['floor', 'floor', 'floor', 'pit']
+    ]);
+    expect(getStartCells(arena, 2)).toEqual([{ x: 3, y: 1 }, { x: 2, y: 2 }]);
+    expect(getStartCells(arena, 3)).toEqual([]);
+    expect(arena.decorations).toEqual([{ name: 'reeds', alpha: 0.5, tiles: [{ x: 1, y: 0, texture: 'deco-grass' }] }]);
+  });
+
+  it('should build a MapGrid usable by BattleState', () => {
+    const arena = loadArenaData(validArena());
+    const map = createMapGrid(arena);
+
+    expect(map.getTerrain({ x: 1, y: 1 })).toBe('wall');
+    expect(map.getMoveCost({ x: 1, y: 0 })).toBe(3);
+    const state = new BattleState({ width: arena.width, height: arena.height, map, units: [] });
+    expect(state.map).toBe(map);
+    expect(() => new BattleState({ width: 5, height: 5, map, units: [] })).toThrow('Map is 4x3, expected 5x5');
+  });
+
+  it('should import Tiled exports: terrain tile properties, start objects and decoration layers', () => {
+    const arena = loadArenaData(tiledMap(), 'tiny.json');
+
+    expect(arena.name).toBe('Tiny');
+    expect(arena.cellSize).toBe(32);
+    expect(arena.terrain).toEqual([
+      ['floor', 'wall', 'floor'],
+      ['water', 'floor', 'floor']
+    ]);
+    // The point lies in cell (0,0); the rectangle's center (80,48) in cell (2,1)
+    expect(arena.startCells).toEqual({ 1: [{ x: 0, y: 0 }], 2: [{ x: 2, y: 1 }] });
+    expect(arena.decorations).toEqual([{ name: 'props', alpha: 0.5, tiles: [{ x: 2, y: 0, texture: 'deco-rubble' }] }]);
+  });
+
+  it('should report every problem of a native arena with its path', () => {
+    const data = validArena() as any;
+    data.terrain[1] = '.#x.';
+    data.terrain[2] = '..';
+    data.startCells['1'] = [{ x: 1, y: 1 }];
+    data.startCells['2'] = [{ x: 9, y: 0 }];
+
+    expect(issuesOf(data)).toEqual([
+      { path: 'terrain[1][2]', message: expect.stringContaining('unknown terrain "x"') },
+      { path: 'terrain[2]', message: 'must be a string of 4 characters' },
+      { path: 'startCells.1[0]', message: 'cell (1,1) is not walkable' },
+      { path: 'startCells.2[0]', message: 'cell (9,0) is outside the 4x3 map' }
+    ]);
+  });
+
+  it('should require at least one start cell per team', () => {
+    const data = validArena() as any;
+    data.startCells = { 1: [], 2: [] };
+
+    expect(issuesOf(data)).toEqual([
+      { path: 'startCells.1', message: 'needs at least one cell' },
+      { path: 'startCells.2', message: 'needs at least one cell' }
+    ]);
+  });
+
+  it('should reject Tiled maps without a terrain layer or with unsupported features', () => {
+    const data = tiledMap() as any;
+    data.layers[0].name = 'ground';
+    data.layers[1].encoding = 'base64';
+    data.tilesets.push({ firstgid: 10, source: 'shared.tsx' });
+    data.tileheight = 16;
+
+    expect(issuesOf(data)).toEqual([
+      { path: 'tilewidth', message: 'tiles must be square, got 32x16' },
+      { path: 'tilesets[1].source', message: 'external tilesets are not supported, embed the tileset in the map' },
+      { path: 'layers[0].data[1]', message: 'tile 1 has no "texture" property' },
+      { path: 'layers[0].data[3]', message: 'tile 2 has no "texture" property' },
+      { path: 'layers[1].encoding', message: 'only CSV layer data is supported' },
+      { path: 'layers', message: 'needs a tile layer named "terrain"' },
+      // Start objects are converted with the tile height too
+      { path: 'startCells.2[0]', message: 'cell (2,3) is outside the 3x2 map' }
+    ]);
+  });
+
+  it('should report invalid JSON text', () => {
+    expect(() => parseArenaData('{ "width": ', 'broken.json')).toThrow(/Invalid arena data in broken.json:\n {2}\$: invalid JSON/);
+  });
+
+  it('should load the arenas shipped with the game', () => {
+    for (const data of [crossroads, ruins]) {
+      const arena = loadArenaData(data);
+      expect(getStartCells(arena, 1).length).toBeGreaterThan(0);
+      expect(getStartCells(arena, 2).length).toBeGreaterThan(0);
+    }
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BattleEventBus } from '../../src/core/battle/BattleEvents';
+import { Unit } from '../../src/core/Unit';
+
+describe('BattleEventBus', () => {
+  let bus: BattleEventBus;
+  let unit: Unit;
+
+  beforeEach(() => {
+    bus = new BattleEventBus();
+    unit = new Unit('unit1', 'Unit 1', 'player', { x: 0, y: 0 }, 1, {
+      name: 'TestClass',
+      maxHP: 100,
+      maxAP: 6,
+      maxMP: 4,
+      spells: [],
+      color: 0xff0000
+    });
+  });
+
+  it('should deliver payloads to listeners of the same type only', () => {
+    const onStarted = vi.fn();
+    const onDied = vi.fn();
+    bus.on('TurnStarted', onStarted);
+    bus.on('UnitDied', onDied);
+
+    bus.emit('TurnStarted', { unit, turnNumber: 1 });
+
+    expect(onStarted).toHaveBeenCalledWith({ unit, turnNumber: 1 });
+    expect(onDied).not.toHaveBeenCalled();
+  });
+
+  it('should remove listeners with the returned unsubscribe function and off()', () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    const unsubscribe = bus.on('TurnStarted', first);
+    bus.on('TurnStarted', second);
+
+    unsubscribe();
+    bus.off('TurnStarted', second);
+    bus.emit('TurnStarted', { unit, turnNumber: 1 });
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).not.toHaveBeenCalled();
+  });
+
+  it('should deliver every event to catch-all listeners', () => {
+    const events: string[] = [];
+    bus.onAny(event => events.push(event.type));
+
+    bus.emit('TurnStarted', { unit, turnNumber: 1 });
+    bus.emit('BattleEnded', { winnerTeam: 1, reason: 'elimination', stats: { rounds: 1, turns: 1, units: [] } });
+
+    expect(events).toEqual(['TurnStarted', 'BattleEnded']);
+  });
+
+  it('should remove all listeners on clear', () => {
+    const listener = vi.fn();
+    bus.on('TurnStarted', listener);
+    bus.onAny(listener);
+
+    bus.clear();
+    bus.emit('TurnStarted', { unit, turnNumber: 1 });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  describe('publishers', () => {
+    it('should publish StateApplied and StateExpired from Unit', () => {
+      const applied = vi.fn();
+      const expired = vi.fn();
+      unit.events = bus;
+      bus.on('StateApplied', applied);
+      bus.on('StateExpired', expired);
+
+      unit.applyState({ id: 's1', type: 'buff_ap', duration: 1, value: 2 });
+      unit.updateStates();
+
+      expect(applied).toHaveBeenCalledWith({ unit, state: expect.objectContaining({ id: 's1' }) });
+      expect(expired).toHaveBeenCalledWith({ unit, state: expect.objectContaining({ id: 's1' }) });
+    });
+  });
+});
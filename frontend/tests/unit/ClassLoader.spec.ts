@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { ClassDataError, loadClassData, parseClassData } from '../../src/core/data/ClassLoader';
+import { ClassRegistry, classRegistry } from '../../src/core/data/ClassRegistry';
+import { Spell } from '../../src/core/Spell';
+
+const validSpell = () => ({
+  name: 'Slash',
+  cost: 3,
+  range: 1,
+  minRange: 1,
+  targetType: 'enemy',
+  effects: [{ type: 'damage', value: 20, element: 'fire' }]
+});
+
+const validClass = () => ({
+  name: 'Knight',
+  maxHP: 120,
+  maxAP: 6,
+  maxMP: 3,
+  initiative: 100,
+  color: '#ff0000',
+  resistances: { fire: { percent: 10 } },
+  spells: [validSpell()]
+});
+
+const issuesOf = (data: unknown) => {
+  try {
+    loadClassData(data, 'test.json');
+  } catch (error) {
+    expect(error).toBeInstanceOf(ClassDataError);
+    return (error as ClassDataError).issues;
+  }
+  throw new Error('expected ClassDataError');
+};
+
+describe('ClassLoader', () => {
+  it('should load valid classes into UnitClass objects with Spell instances', () => {
+    const [knight] = loadClassData({ classes: [validClass()] });
+
+    expect(knight).toMatchObject({ name: 'Knight', maxHP: 120, maxAP: 6, maxMP: 3, initiative: 100, color: 0xff0000 });
+    expect(knight.resistances).toEqual({ fire: { percent: 10, flat: undefined } });
+    expect(knight.spells[0]).toBeInstanceOf(Spell);
+    expect(knight.spells[0].effects).toEqual([{ type: 'damage', value: 20, element: 'fire' }]);
+  });
+
+  it('should report an unknown effect type with its path', () => {
+    const data = { classes: [validClass()] };
+    data.classes[0].spells[0].effects[0].type = 'explode';
+
+    expect(issuesOf(data)).toEqual([
+      { path: 'classes[0].spells[0].effects[0].type', message: expect.stringContaining('unknown effect type "explode"') }
+    ]);
+  });
+
+  it('should report a negative cost with its path', () => {
+    const data = { classes: [validClass()] };
+    data.classes[0].spells[0].cost = -2;
+
+    expect(issuesOf(data)).toEqual([
+      { path: 'classes[0].spells[0].cost', message: 'must be >= 0, got -2' }
+    ]);
+  });
+
+  it('should collect every issue in a readable message', () => {
+    const broken = { ...validClass(), maxHP: 'lots', typo: true, spells: [{ ...validSpell(), targetType: 'foes', effects: [] }] };
+
+    try {
+      loadClassData({ classes: [validClass(), broken] }, 'classes.json');
+      expect.unreachable();
+    } catch (error) {
+      const message = (error as Error).message;
+      expect(message).toContain('Invalid class data in classes.json');
+      expect(message).toContain('classes[1].maxHP: must be a number, got "lots"');
+      expect(message).toContain('classes[1].typo: unknown property');
+      expect(message).toContain('classes[1].spells[0].targetType: must be one of');
+      expect(message).toContain('classes[1].spells[0].effects: must contain at least one effect');
+    }
+  });
+
+  it('should reject duplicate class names and minRange above range', () => {
+    const second = validClass();
+    second.spells[0].minRange = 3;
+
+    expect(issuesOf({ classes: [validClass(), validClass()] })).toEqual([
+      { path: 'classes[1].name', message: 'duplicate class name "Knight"' }
+    ]);
+    expect(issuesOf({ classes: [second] })).toEqual([
+      { path: 'classes[0].spells[0].minRange', message: 'must be <= range (1), got 3' }
+    ]);
+  });
+
+  it('should validate effect parameters declared in the effect registry', () => {
+    const data = { classes: [validClass()] };
+    data.classes[0].spells[0].effects = [
+      { type: 'poison', value: 5, tickAt: 'noon' },
+      { type: 'damage', value: 10, element: 'fire', radius: 2 }
+    ] as never;
+
+    expect(issuesOf(data)).toEqual([
+      { path: 'classes[0].spells[0].effects[0].duration', message: 'is required' },
+      { path: 'classes[0].spells[0].effects[0].tickAt', message: 'must be one of start, end, got "noon"' },
+      { path: 'classes[0].spells[0].effects[1].radius', message: 'unknown parameter for effect "damage"' }
+    ]);
+  });
+
+  it('should load passives and report invalid triggers and effects', () => {
+    const passive = { name: 'Rage', trigger: 'damaged', target: 'self', effects: [{ type: 'buff_ap', value: 1, duration: 1 }] };
+    const [knight] = loadClassData({ classes: [{ ...validClass(), passive }] });
+
+    expect(knight.passive).toEqual(passive);
+    expect(issuesOf({ classes: [{ ...validClass(), passive: { ...passive, trigger: 'onHit', effects: [{ type: 'explode', value: 1 }] } }] })).toEqual([
+      { path: 'classes[0].passive.trigger', message: expect.stringContaining('must be one of') },
+      { path: 'classes[0].passive.effects[0].type', message: expect.stringContaining('unknown effect type "explode"') }
+    ]);
+  });
+
+  it('should report JSON syntax errors as ClassDataError', () => {
+    expect(() => parseClassData('{ "classes": [', 'bad.json')).toThrow(ClassDataError);
+  });
+});
+
+describe('ClassRegistry', () => {
+  it('should expose the bundled classes', () => {
+    expect(classRegistry.names()).toEqual(['Warrem', 'Golarc', 'Healium', 'Timetac']);
+    expect(classRegistry.require('Golarc').spells.map(s => s.name)).toEqual(['PiercingArrow', 'SlowArrow']);
+    expect(classRegistry.require('Timetac').spells[2].cooldown).toBe(4);
+    expect(classRegistry.all().every(unitClass => unitClass.passive)).toBe(true);
+  });
+
+  it('should look classes up by name and reject duplicates', () => {
+    const registry = ClassRegistry.fromData({ classes: [validClass()] });
+
+    expect(registry.has('Knight')).toBe(true);
+    expect(registry.get('Wizard')).toBeUndefined();
+    expect(() => registry.require('Wizard')).toThrow('Unknown unit class "Wizard"');
+    expect(() => registry.register(registry.require('Knight'))).toThrow('already registered');
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { computeDamage } from '../../src/core/Damage';
+import { Unit } from '../../src/core/Unit';
+import { classRegistry } from '../../src/core/data/ClassRegistry';
+
+describe('computeDamage', () => {
+  let target: Unit;
+
+  beforeEach(() => {
+    target = new Unit('target1', 'Target', 'player', { x: 0, y: 0 }, 1, {
+      name: 'TestClass',
+      maxHP: 100,
+      maxAP: 6,
+      maxMP: 3,
+      spells: [],
+      resistances: {
+        fire: { percent: -50 },
+        water: { percent: 20, flat: 4 },
+        earth: { flat: -3 },
+        air: { percent: 150 }
+      }
+    });
+  });
+
+  it('should leave neutral damage untouched when there is no resistance', () => {
+    expect(computeDamage({ base: 30, element: 'neutral', caster: null, target }).final).toBe(30);
+  });
+
+  it('should increase damage for percentage weaknesses and negative flat values', () => {
+    expect(computeDamage({ base: 30, element: 'fire', caster: null, target }).final).toBe(45);
+    expect(computeDamage({ base: 30, element: 'earth', caster: null, target }).final).toBe(33);
+  });
+
+  it('should apply the percentage before the flat resistance', () => {
+    expect(computeDamage({ base: 30, element: 'water', caster: null, target })).toEqual({
+      element: 'water',
+      base: 30,
+      afterPercent: 24,
+      final: 20
+    });
+  });
+
+  it('should never go below zero nor heal through resistances above 100%', () => {
+    expect(computeDamage({ base: 30, element: 'air', caster: null, target }).final).toBe(0);
+    expect(computeDamage({ base: 3, element: 'water', caster: null, target }).final).toBe(0);
+  });
+
+  it('should read resistances from the unit class', () => {
+    const healium = new Unit('h', 'Healium', 'enemy', { x: 0, y: 0 }, 2, classRegistry.require('Healium'));
+
+    expect(computeDamage({ base: 20, element: 'fire', caster: null, target: healium }).final).toBe(25);
+    expect(computeDamage({ base: 20, element: 'water', caster: null, target: healium }).final).toBe(10);
+  });
+});
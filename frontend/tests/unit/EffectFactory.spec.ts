@@ -6,6 +6,9 @@ import { BuffApEffect } from '../../src/core/effects/BuffApEffect';
 import { DrainApEffect } from '../../src/core/effects/DrainApEffect';
 import { TeleportEffect } from '../../src/core/effects/TeleportEffect';
 import { PushEffect } from '../../src/core/effects/PushEffect';
+import { PoisonEffect } from '../../src/core/effects/PoisonEffect';
+import { RegenEffect } from '../../src/core/effects/RegenEffect';
+import { ShieldEffect } from '../../src/core/effects/ShieldEffect';
 import type { SpellEffectConfig } from '../../src/core/Spell';
 
 describe('EffectFactory', () => {
@@ -90,6 +93,43 @@ describe('EffectFactory', () => {
       expect(effect).toBeInstanceOf(PushEffect);
     });
 
+    it('should create PoisonEffect for poison type', () => {
+      const config: SpellEffectConfig = {
+        type: 'poison',
+        value: 8,
+        duration: 3,
+        tickAt: 'end'
+      };
+
+      const effect = EffectFactory.createEffect(config);
+
+      expect(effect).toBeInstanceOf(PoisonEffect);
+    });
+
+    it('should create RegenEffect for regen type', () => {
+      const config: SpellEffectConfig = {
+        type: 'regen',
+        value: 10,
+        duration: 2
+      };
+
+      const effect = EffectFactory.createEffect(config);
+
+      expect(effect).toBeInstanceOf(RegenEffect);
+    });
+
+    it('should create ShieldEffect for shield type', () => {
+      const config: SpellEffectConfig = {
+        type: 'shield',
+        value: 20,
+        duration: 2
+      };
+
+      const effect = EffectFactory.createEffect(config);
+
+      expect(effect).toBeInstanceOf(ShieldEffect);
+    });
+
     it('should throw error for unknown effect type', () => {
       const config: SpellEffectConfig = {
         type: 'unknown_effect' as any,
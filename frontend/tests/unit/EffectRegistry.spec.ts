@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { EffectFactory, EffectEngine } from '../../src/core/EffectEngine';
+import { EffectRegistry, effectRegistry } from '../../src/core/effects';
+import { BattleVisuals } from '../../src/scenes/BattleVisuals';
+import { Unit } from '../../src/core/Unit';
+
+describe('EffectRegistry', () => {
+  afterEach(() => {
+    effectRegistry.unregister('fortify');
+  });
+
+  it('should register every built-in effect type', () => {
+    expect(effectRegistry.types()).toEqual([
+      'damage', 'heal', 'buff_ap', 'drain_ap', 'teleport', 'push', 'pull', 'swap', 'dash', 'poison', 'regen', 'shield'
+    ]);
+    expect(effectRegistry.getColor('drain_ap')).toBe('#6a5acd');
+    expect(effectRegistry.formatFeedback('damage', { damage: 12, absorbed: 3 })).toBe('-12 HP (3 absorbed)');
+  });
+
+  it('should let effects be added at runtime and used by the factory and visuals', () => {
+    const apply = vi.fn().mockReturnValue(true);
+    effectRegistry.register({
+      type: 'fortify',
+      create: config => ({ apply: (caster, target) => apply(config.value, config.params?.amount, caster, target) }),
+      params: { amount: { kind: 'integer', required: true, min: 1 } },
+      tint: 0x123456,
+      formatFeedback: ({ value }) => `Fortify ${value}`
+    });
+    const unit = new Unit('u1', 'Unit', 'player', { x: 0, y: 0 });
+
+    const result = EffectEngine.applyEffect({ type: 'fortify', value: 3, params: { amount: 2 } }, unit, unit);
+
+    expect(result).toBe(true);
+    expect(apply).toHaveBeenCalledWith(3, 2, unit, unit);
+    expect(BattleVisuals.getTargetTint('fortify')).toBe(0x123456);
+    expect(EffectEngine.getEffectColor('fortify')).toBe('#123456');
+  });
+
+  it('should reject duplicate registrations and unknown types', () => {
+    const registry = new EffectRegistry();
+    const definition = { type: 'noop', create: () => ({ apply: () => false }), tint: 0, formatFeedback: () => '' };
+    registry.register(definition);
+
+    expect(() => registry.register(definition)).toThrow('already registered');
+    expect(() => registry.create({ type: 'missing', value: 1 })).toThrow('Unknown effect type: missing');
+    expect(() => EffectFactory.createEffect({ type: 'noop', value: 1 })).toThrow('Unknown effect type: noop');
+  });
+
+  it('should validate configs against the declared parameters', () => {
+    expect(effectRegistry.validate({ type: 'shield', value: 10, duration: 2, sourceSpell: 'Barrier' })).toEqual([]);
+    expect(effectRegistry.validate({ type: 'shield', value: '10', duration: 1.5 })).toEqual([
+      { param: 'value', message: 'must be a number, got "10"' },
+      { param: 'duration', message: 'must be an integer, got 1.5' }
+    ]);
+    expect(effectRegistry.validate({ type: 'explode', value: 1 })[0].param).toBe('type');
+  });
+
+  it('should read runtime-registered parameters from params only', () => {
+    effectRegistry.register({
+      type: 'fortify',
+      create: () => ({ apply: () => true }),
+      params: { amount: { kind: 'integer', required: true, min: 1 } },
+      tint: 0x123456,
+      formatFeedback: ({ value }) => `Fortify ${value}`
+    });
+
+    expect(effectRegistry.validate({ type: 'fortify', value: 1, params: { amount: 2 } })).toEqual([]);
+    expect(effectRegistry.validate({ type: 'fortify', value: 1, amount: 2 })).toEqual([
+      { param: 'amount', message: 'unknown parameter for effect "fortify"' },
+      { param: 'params.amount', message: 'is required' }
+    ]);
+    expect(effectRegistry.validate({ type: 'fortify', value: 1, params: { amount: 0, durration: 2 } })).toEqual([
+      { param: 'params.durration', message: 'unknown parameter for effect "fortify"' },
+      { param: 'params.amount', message: 'must be >= 1, got 0' }
+    ]);
+    expect(effectRegistry.validate({ type: 'push', value: 1, params: { radius: 2 } })[0].param).toBe('params.radius');
+  });
+});
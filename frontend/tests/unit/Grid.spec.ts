@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Grid } from '../../src/core/Grid';
+import { MapGrid } from '../../src/core/MapGrid';
+import { Unit } from '../../src/core/Unit';
+
+const sortCells = (cells: { x: number; y: number }[]) =>
+  cells.map(c => `${c.x},${c.y}`).sort();
+
+describe('Grid', () => {
+  let grid: Grid;
+  let map: MapGrid;
+
+  beforeEach(() => {
+    grid = new Grid(5, 5);
+    map = new MapGrid(5, 5);
+  });
+
+  describe('getReachableCells', () => {
+    it('should reach every cell within the MP budget on plain floor', () => {
+      const cells = grid.getReachableCells({ x: 2, y: 2 }, 1, map);
+      expect(sortCells(cells)).toEqual(['1,2', '2,1', '2,3', '3,2']);
+      expect(grid.getReachableCells({ x: 2, y: 2 }, 2, map)).toHaveLength(12);
+    });
+
+    it('should pay the terrain cost of each cell entered', () => {
+      map.setTerrain({ x: 1, y: 0 }, 'mud');
+      map.setTerrain({ x: 0, y: 1 }, 'water');
+
+      const cells = sortCells(grid.getReachableCells({ x: 0, y: 0 }, 2, map));
+
+      expect(cells).toContain('1,0');
+      expect(cells).not.toContain('2,0'); // 2 (mud) + 1
+      expect(cells).not.toContain('0,1'); // water costs 3
+    });
+
+    it('should use the cheapest route around expensive terrain', () => {
+      map.setTerrain({ x: 1, y: 0 }, 'water');
+      // Detour through (0,1), (1,1), (2,1), (2,0) costs 4, straight through water costs 4 as well
+      expect(sortCells(grid.getReachableCells({ x: 0, y: 0 }, 4, map))).toContain('2,0');
+      expect(sortCells(grid.getReachableCells({ x: 0, y: 0 }, 3, map))).not.toContain('2,0');
+    });
+
+    it('should never step into walls, pits or occupied cells', () => {
+      map.setTerrain({ x: 1, y: 0 }, 'wall');
+      map.setTerrain({ x: 0, y: 1 }, 'pit');
+      expect(grid.getReachableCells({ x: 0, y: 0 }, 5, map)).toEqual([]);
+
+      map.setTerrain({ x: 0, y: 1 }, 'floor');
+      map.setOccupied({ x: 0, y: 2 }, new Unit('u', 'Blocker', 'enemy', { x: 0, y: 2 }));
+      expect(sortCells(grid.getReachableCells({ x: 0, y: 0 }, 2, map))).toEqual(['0,1', '1,1']);
+    });
+  });
+
+  describe('findPath', () => {
+    it('should return the path without the start cell', () => {
+      expect(grid.findPath({ x: 0, y: 0 }, { x: 2, y: 0 }, 5, map)).toEqual([{ x: 1, y: 0 }, { x: 2, y: 0 }]);
+      expect(grid.findPath({ x: 1, y: 1 }, { x: 1, y: 1 }, 0, map)).toEqual([]);
+    });
+
+    it('should prefer a longer but cheaper path over water', () => {
+      map.setTerrain({ x: 1, y: 1 }, 'water');
+      map.setTerrain({ x: 2, y: 1 }, 'water');
+
+      const path = grid.findPath({ x: 0, y: 1 }, { x: 3, y: 1 }, 10, map)!;
+
+      // Straight through the water costs 7, around it 5
+      expect(grid.getPathCost(path, map)).toBe(5);
+      expect(path).toHaveLength(5);
+      expect(path[path.length - 1]).toEqual({ x: 3, y: 1 });
+      expect(path).not.toContainEqual({ x: 1, y: 1 });
+    });
+
+    it('should return null when the cheapest path exceeds the budget or the target is blocked', () => {
+      map.setTerrain({ x: 1, y: 0 }, 'mud');
+      map.setTerrain({ x: 0, y: 1 }, 'mud');
+      expect(grid.findPath({ x: 0, y: 0 }, { x: 1, y: 0 }, 1, map)).toBeNull();
+      expect(grid.findPath({ x: 0, y: 0 }, { x: 1, y: 0 }, 2, map)).toEqual([{ x: 1, y: 0 }]);
+
+      map.setTerrain({ x: 3, y: 3 }, 'pit');
+      expect(grid.findPath({ x: 0, y: 0 }, { x: 3, y: 3 }, 20, map)).toBeNull();
+    });
+  });
+});
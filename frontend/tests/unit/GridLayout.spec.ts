@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { GridLayout } from '../../src/rendering/GridLayout';
+import { GridView } from '../../src/rendering/GridView';
+
+describe('GridLayout', () => {
+  const layout = new GridLayout({ width: 16, height: 12, cellSize: 40 });
+
+  it('should convert cells to pixels and back on non-square boards', () => {
+    expect(layout.pixelWidth).toBe(640);
+    expect(layout.pixelHeight).toBe(480);
+    expect(layout.cellToPixel({ x: 15, y: 11 })).toEqual({ x: 600, y: 440 });
+    expect(layout.cellCenter({ x: 15, y: 11 })).toEqual({ x: 620, y: 460 });
+    expect(layout.pixelToCell(620, 460)).toEqual({ x: 15, y: 11 });
+    expect(layout.pixelToCell(639, 479)).toEqual({ x: 15, y: 11 });
+  });
+
+  it('should return null for pixels outside the board', () => {
+    expect(layout.pixelToCell(640, 10)).toBeNull();
+    expect(layout.pixelToCell(10, 480)).toBeNull();
+    expect(layout.pixelToCell(-1, 10)).toBeNull();
+  });
+
+  it('should list every cell row by row', () => {
+    const cells = layout.cells();
+    expect(cells).toHaveLength(16 * 12);
+    expect(cells[0]).toEqual({ x: 0, y: 0 });
+    expect(cells[16]).toEqual({ x: 0, y: 1 });
+    expect(cells[cells.length - 1]).toEqual({ x: 15, y: 11 });
+  });
+
+  it('should keep the preferred cell size when the board fits and shrink it otherwise', () => {
+    expect(GridLayout.fit(10, 10, 64, 688, 688).cellSize).toBe(64);
+    expect(GridLayout.fit(16, 12, 64, 688, 688).cellSize).toBe(43);
+    // Never below the minimum, even if the board overflows
+    expect(GridLayout.fit(100, 100, 64, 688, 688).cellSize).toBe(24);
+  });
+
+  it('should be the coordinate service of GridView', () => {
+    const view = new GridView(layout);
+    expect(view.layout).toBe(layout);
+    expect(view.getCellAtPixel(41, 81)).toEqual({ x: 1, y: 2 });
+    expect(new GridView({ width: 3, height: 3, cellSize: 64 }).getCellAtPixel(200, 10)).toBeNull();
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MapGrid } from '../../src/core/MapGrid';
+import { Spell } from '../../src/core/Spell';
+import { Unit } from '../../src/core/Unit';
+
+describe('MapGrid', () => {
+  let map: MapGrid;
+
+  beforeEach(() => {
+    map = new MapGrid(7, 7);
+  });
+
+  describe('hasLineOfSight', () => {
+    it('should see along open rows, columns and diagonals', () => {
+      expect(map.hasLineOfSight({ x: 0, y: 0 }, { x: 6, y: 0 })).toBe(true);
+      expect(map.hasLineOfSight({ x: 3, y: 0 }, { x: 3, y: 6 })).toBe(true);
+      expect(map.hasLineOfSight({ x: 0, y: 0 }, { x: 5, y: 5 })).toBe(true);
+      expect(map.hasLineOfSight({ x: 2, y: 2 }, { x: 2, y: 2 })).toBe(true);
+    });
+
+    it('should be blocked by non-walkable cells in between', () => {
+      map.cells[0][3].walkable = false;
+      expect(map.hasLineOfSight({ x: 0, y: 0 }, { x: 6, y: 0 })).toBe(false);
+      expect(map.hasLineOfSight({ x: 0, y: 0 }, { x: 2, y: 0 })).toBe(true);
+    });
+
+    it('should be blocked by units in between but not by the units at both ends', () => {
+      const blocker = new Unit('b', 'Blocker', 'enemy', { x: 1, y: 2 });
+      map.setOccupied({ x: 1, y: 2 }, blocker);
+      map.setOccupied({ x: 0, y: 0 }, new Unit('c', 'Caster', 'player', { x: 0, y: 0 }));
+      map.setOccupied({ x: 2, y: 4 }, new Unit('t', 'Target', 'enemy', { x: 2, y: 4 }));
+
+      expect(map.hasLineOfSight({ x: 0, y: 0 }, { x: 2, y: 4 })).toBe(false);
+      expect(map.hasLineOfSight({ x: 0, y: 0 }, { x: 1, y: 2 })).toBe(true);
+    });
+
+    it('should only block a corner crossing when both side cells block', () => {
+      map.cells[0][1].walkable = false;
+      expect(map.hasLineOfSight({ x: 0, y: 0 }, { x: 1, y: 1 })).toBe(true);
+      map.cells[1][0].walkable = false;
+      expect(map.hasLineOfSight({ x: 0, y: 0 }, { x: 1, y: 1 })).toBe(false);
+    });
+
+    it('should be symmetric', () => {
+      map.cells[2][3].walkable = false;
+      const a = { x: 0, y: 1 };
+      const b = { x: 6, y: 3 };
+      expect(map.hasLineOfSight(a, b)).toBe(map.hasLineOfSight(b, a));
+    });
+  });
+
+  describe('terrain', () => {
+    it('should default to walkable floor and treat cells outside the map as walls', () => {
+      expect(map.getTerrain({ x: 3, y: 3 })).toBe('floor');
+      expect(map.getMoveCost({ x: 3, y: 3 })).toBe(1);
+      expect(map.getTerrain({ x: -1, y: 0 })).toBe('wall');
+      expect(map.isWalkable({ x: 7, y: 0 })).toBe(false);
+    });
+
+    it('should give each terrain its movement cost and walkability', () => {
+      map.setTerrain({ x: 1, y: 0 }, 'water');
+      map.setTerrain({ x: 2, y: 0 }, 'mud');
+      map.setTerrain({ x: 3, y: 0 }, 'pit');
+      map.setTerrain({ x: 4, y: 0 }, 'wall');
+
+      expect(map.getMoveCost({ x: 1, y: 0 })).toBe(3);
+      expect(map.getMoveCost({ x: 2, y: 0 })).toBe(2);
+      expect(map.isWalkable({ x: 3, y: 0 })).toBe(false);
+      expect(map.getMoveCost({ x: 3, y: 0 })).toBe(Infinity);
+      expect(map.isWalkable({ x: 4, y: 0 })).toBe(false);
+    });
+
+    it('should let sight pass over pits and water but not walls', () => {
+      map.setTerrain({ x: 2, y: 0 }, 'pit');
+      map.setTerrain({ x: 3, y: 0 }, 'water');
+      expect(map.hasLineOfSight({ x: 0, y: 0 }, { x: 6, y: 0 })).toBe(true);
+
+      map.setTerrain({ x: 4, y: 0 }, 'wall');
+      expect(map.hasLineOfSight({ x: 0, y: 0 }, { x: 6, y: 0 })).toBe(false);
+    });
+
+    it('should map the legacy walkable flag to floor and wall', () => {
+      map.cells[1][1].walkable = false;
+      expect(map.getTerrain({ x: 1, y: 1 })).toBe('wall');
+      map.cells[1][1].walkable = true;
+      expect(map.getTerrain({ x: 1, y: 1 })).toBe('floor');
+    });
+  });
+
+  describe('Spell line of sight', () => {
+    const makeSpell = (requiresLineOfSight: boolean) => new Spell({
+      name: 'Arrow',
+      cost: 3,
+      range: 5,
+      minRange: 1,
+      targetType: 'enemy',
+      effects: [{ type: 'damage', value: 10 }],
+      requiresLineOfSight
+    });
+
+    it('should reject casts through walls only for spells that require line of sight', () => {
+      const caster = new Unit('c', 'Caster', 'player', { x: 0, y: 0 }, 1, { name: 'A', maxHP: 50, maxAP: 6, maxMP: 3, spells: [] });
+      const target = new Unit('t', 'Target', 'enemy', { x: 4, y: 0 }, 2, { name: 'B', maxHP: 50, maxAP: 6, maxMP: 3, spells: [] });
+      map.cells[0][2].walkable = false;
+      const context = { map, cellPosition: target.position };
+
+      expect(makeSpell(true).canCast(caster, target, context)).toBe(false);
+      expect(makeSpell(false).canCast(caster, target, context)).toBe(true);
+      // Without a map there is nothing to raycast against
+      expect(makeSpell(true).canCast(caster, target)).toBe(true);
+    });
+  });
+});
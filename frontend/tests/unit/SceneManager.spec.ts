@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Container } from 'pixi.js';
+import { SceneManager } from '../../src/scenes/SceneManager';
+import type { SceneHooks } from '../../src/scenes/SceneManager';
+
+/** Scene recording its lifecycle calls in a shared log */
+class TestScene extends Container implements SceneHooks {
+  constructor(private sceneName: string, private log: string[]) {
+    super();
+  }
+  onEnter() {
+    this.log.push(`${this.sceneName}:enter`);
+  }
+  onPause() {
+    this.log.push(`${this.sceneName}:pause`);
+  }
+  onResume() {
+    this.log.push(`${this.sceneName}:resume`);
+  }
+  override destroy(options?: Parameters<Container['destroy']>[0]) {
+    this.log.push(`${this.sceneName}:destroy`);
+    super.destroy(options);
+  }
+}
+
+describe('SceneManager', () => {
+  let stage: Container;
+  let manager: SceneManager;
+  let log: string[];
+
+  beforeEach(() => {
+    stage = new Container();
+    manager = new SceneManager(stage, { width: 100, height: 100 }, { transitionMs: 0 });
+    log = [];
+  });
+
+  it('should pause the scene below on push and resume it on pop', async () => {
+    const menu = new TestScene('menu', log);
+    const setup = new TestScene('setup', log);
+    await manager.push(menu);
+    await manager.push(setup);
+
+    expect(manager.current).toBe(setup);
+    expect(menu.visible).toBe(false);
+
+    await manager.pop();
+
+    expect(manager.current).toBe(menu);
+    expect(menu.visible).toBe(true);
+    expect(setup.destroyed).toBe(true);
+    expect(log).toEqual(['menu:enter', 'menu:pause', 'setup:enter', 'setup:destroy', 'menu:resume']);
+  });
+
+  it('should destroy the replaced scene before entering the new one', async () => {
+    await manager.push(new TestScene('menu', log));
+    await manager.push(new TestScene('battle', log));
+    await manager.replace(() => new TestScene('results', log));
+
+    expect(manager.size).toBe(2);
+    expect(log.slice(-2)).toEqual(['battle:destroy', 'results:enter']);
+  });
+
+  it('should keep the transition curtain above every scene', async () => {
+    await manager.push(new TestScene('menu', log));
+    await manager.push(new TestScene('setup', log));
+
+    expect(stage.children.length).toBe(3);
+    expect(stage.children[2]).not.toBeInstanceOf(TestScene);
+  });
+
+  it('should run operations in order', async () => {
+    manager.push(new TestScene('menu', log));
+    manager.push(new TestScene('setup', log));
+    await manager.replace(new TestScene('battle', log));
+
+    expect(log).toEqual(['menu:enter', 'menu:pause', 'setup:enter', 'setup:destroy', 'battle:enter']);
+  });
+
+  it('should leave the stack unchanged when a scene fails to build', async () => {
+    const menu = new TestScene('menu', log);
+    await manager.push(menu);
+
+    await expect(manager.replace(() => { throw new Error('invalid save'); })).rejects.toThrow('invalid save');
+    expect(manager.current).toBe(menu);
+    expect(menu.destroyed).toBe(false);
+
+    await manager.push(new TestScene('setup', log));
+    expect(manager.size).toBe(2);
+  });
+
+  it('should destroy every scene on reset and on destroy', async () => {
+    const menu = new TestScene('menu', log);
+    const battle = new TestScene('battle', log);
+    await manager.push(menu);
+    await manager.push(battle);
+    await manager.reset(new TestScene('menu2', log));
+
+    expect(menu.destroyed && battle.destroyed).toBe(true);
+    expect(manager.size).toBe(1);
+
+    manager.destroy();
+    expect(manager.size).toBe(0);
+    expect(log[log.length - 1]).toBe('menu2:destroy');
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { BattleState } from '../../src/core/battle/BattleState';
+import { BattleSimulator } from '../../src/core/battle/BattleSimulator';
+import { Spell } from '../../src/core/Spell';
+import { getLockAround, getPathTackle, getTackleCost, getTackleLeaveCost } from '../../src/core/Tackle';
+import { Unit } from '../../src/core/Unit';
+import type { UnitClass } from '../../src/core/unitClasses';
+
+const unitClass = (agility: number, lock: number): UnitClass => ({
+  name: 'Fighter',
+  maxHP: 50,
+  maxAP: 6,
+  maxMP: 4,
+  agility,
+  lock,
+  spells: [new Spell({ name: 'Hit', cost: 3, range: 1, minRange: 1, maxCastsPerTurn: 1, targetType: 'enemy', effects: [{ type: 'damage', value: 10 }] })]
+});
+
+const sortCells = (cells: { x: number; y: number }[]) => cells.map(c => `${c.x},${c.y}`).sort();
+
+describe('Tackle', () => {
+  let runner: Unit;
+  let guard: Unit;
+  let state: BattleState;
+  let simulator: BattleSimulator;
+
+  beforeEach(() => {
+    runner = new Unit('r', 'Runner', 'player', { x: 1, y: 1 }, 1, unitClass(1, 0));
+    guard = new Unit('g', 'Guard', 'enemy', { x: 2, y: 1 }, 2, unitClass(0, 3));
+    runner.initiative = 10;
+    state = new BattleState({ width: 5, height: 5, units: [runner, guard] });
+    simulator = new BattleSimulator(state);
+  });
+
+  it('should cost 1 MP per point of lock above agility and 1 AP every 2 points', () => {
+    expect(getTackleCost(3, 3)).toEqual({ mp: 0, ap: 0 });
+    expect(getTackleCost(1, 2)).toEqual({ mp: 1, ap: 0 });
+    expect(getTackleCost(0, 5)).toEqual({ mp: 5, ap: 2 });
+  });
+
+  it('should add up the lock of the adjacent enemies only', () => {
+    const ally = new Unit('a', 'Ally', 'player', { x: 1, y: 0 }, 1, unitClass(0, 4));
+    state.addUnit(ally);
+
+    expect(getLockAround(runner, runner.position, state.map)).toBe(3);
+    expect(getLockAround(runner, { x: 0, y: 0 }, state.map)).toBe(0);
+  });
+
+  it('should make cells behind the lock unreachable and price the path preview', () => {
+    const grid = state.grid;
+    const free = sortCells(grid.getReachableCells(runner.position, 2, state.map));
+    const locked = sortCells(grid.getReachableCells(runner.position, 2, state.map, getTackleLeaveCost(runner, state.map)));
+
+    // Leaving costs 2 extra MP: with 2 MP the runner cannot step away at all
+    expect(free.length).toBeGreaterThan(0);
+    expect(locked).toEqual([]);
+    expect(grid.findPath(runner.position, { x: 0, y: 1 }, 3, state.map, getTackleLeaveCost(runner, state.map))).toEqual([{ x: 0, y: 1 }]);
+    expect(getPathTackle(runner, [{ x: 1, y: 2 }, { x: 1, y: 3 }], state.map)).toEqual([{ mp: 2, ap: 1 }, { mp: 0, ap: 0 }]);
+  });
+
+  it('should charge the tackle when moving and refund it on undo', () => {
+    expect(simulator.move('r', [{ x: 1, y: 2 }, { x: 1, y: 3 }, { x: 1, y: 4 }])).toBe(false);
+    expect(simulator.move('r', [{ x: 1, y: 2 }, { x: 1, y: 3 }])).toBe(true);
+
+    expect(runner.mp).toBe(0);
+    expect(runner.ap).toBe(5);
+
+    expect(simulator.undoMove('r')).toBe(true);
+    expect(runner.position).toEqual({ x: 1, y: 1 });
+    expect(runner.mp).toBe(4);
+    expect(runner.ap).toBe(6);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { Arena } from '../../src/core/Arena';
+import { createTeamBattleState } from '../../src/core/battle/BattleSetup';
+import {
+  checkTeamComposition,
+  draftTeam,
+  getDraftableClasses,
+  getTeamCost,
+  validateTeamComposition,
+  TeamCompositionError
+} from '../../src/core/battle/TeamComposition';
+import type { TeamComposition, TeamRules } from '../../src/core/battle/TeamComposition';
+import { ClassRegistry } from '../../src/core/data/ClassRegistry';
+import { Spell } from '../../src/core/Spell';
+import type { UnitClass } from '../../src/core/unitClasses';
+
+const unitClass = (name: string, draftCost?: number): UnitClass => ({
+  name,
+  maxHP: 50,
+  maxAP: 6,
+  maxMP: 3,
+  draftCost,
+  spells: [new Spell({ name: 'Hit', cost: 3, range: 1, minRange: 1, maxCastsPerTurn: 1, targetType: 'enemy', effects: [{ type: 'damage', value: 10 }] })]
+});
+
+const rules: TeamRules = { minUnits: 1, maxUnits: 3, budget: 8, uniqueClasses: true };
+
+const arena: Arena = {
+  name: 'Test',
+  width: 5,
+  height: 5,
+  terrain: Array.from({ length: 5 }, () => Array(5).fill('floor')),
+  startCells: {
+    1: [{ x: 0, y: 0 }, { x: 0, y: 1 }, { x: 0, y: 2 }],
+    2: [{ x: 4, y: 4 }, { x: 4, y: 3 }]
+  },
+  decorations: []
+};
+
+describe('TeamComposition', () => {
+  let registry: ClassRegistry;
+
+  beforeEach(() => {
+    registry = new ClassRegistry();
+    // Knight has no draftCost: DEFAULT_DRAFT_COST (3)
+    registry.registerAll([unitClass('Tank', 5), unitClass('Archer', 2), unitClass('Knight')]);
+  });
+
+  const composition = (team1: string[], team2: string[]): TeamComposition => ({
+    teams: [
+      { team: 1, controller: 'player', classes: team1 },
+      { team: 2, controller: 'ai', classes: team2 }
+    ]
+  });
+
+  it('should add up class costs with the default cost for classes without one', () => {
+    expect(getTeamCost({ team: 1, controller: 'player', classes: ['Tank', 'Knight'] }, registry)).toBe(8);
+  });
+
+  it('should accept teams of different sizes within the rules', () => {
+    expect(checkTeamComposition(composition(['Tank', 'Archer'], ['Knight']), registry, rules)).toEqual([]);
+  });
+
+  it('should report budget, uniqueness, size and unknown classes', () => {
+    const issues = checkTeamComposition(composition(['Tank', 'Knight', 'Archer'], ['Archer', 'Archer', 'Mage', 'Knight']), registry, rules);
+
+    expect(issues).toEqual([
+      { path: 'teams[0].classes', message: 'costs 10 points, the budget is 8' },
+      { path: 'teams[1].classes', message: 'must have 1 to 3 units, got 4' },
+      { path: 'teams[1].classes[1]', message: 'class "Archer" is already in team 2' },
+      { path: 'teams[1].classes[2]', message: 'unknown class "Mage"' }
+    ]);
+    expect(() => validateTeamComposition(composition([], ['Tank']), registry, rules)).toThrow(TeamCompositionError);
+  });
+
+  it('should only offer classes that fit the budget and are not drafted yet', () => {
+    const draftable = getDraftableClasses({ team: 1, controller: 'player', classes: ['Tank'] }, registry, rules);
+
+    expect(draftable.map(c => c.name)).toEqual(['Archer', 'Knight']);
+  });
+
+  it('should draft random teams that follow the rules', () => {
+    let seed = 0;
+    const random = () => (seed = (seed * 7 + 3) % 10) / 10;
+    for (let i = 0; i < 20; i++) {
+      const team = draftTeam(registry, rules, rules.maxUnits, random);
+      expect(team.length).toBeGreaterThan(0);
+      expect(checkTeamComposition(composition(team, ['Archer']), registry, rules)).toEqual([]);
+    }
+  });
+
+  it('should build one unit per drafted class on its team start cells', () => {
+    const state = createTeamBattleState(arena, registry, composition(['Tank', 'Archer', 'Knight'], ['Archer']), { seed: 1 });
+
+    expect(state.units.map(u => [u.id, u.team, u.type, u.position])).toEqual([
+      ['t1-1', 1, 'player', { x: 0, y: 0 }],
+      ['t1-2', 1, 'player', { x: 0, y: 1 }],
+      ['t1-3', 1, 'player', { x: 0, y: 2 }],
+      ['t2-1', 2, 'enemy', { x: 4, y: 4 }]
+    ]);
+    expect(state.units[1].name).toBe('Archer (Team 1)');
+    expect(() => createTeamBattleState(arena, registry, composition(['Archer'], ['Tank', 'Archer', 'Knight']))).toThrow(
+      'Team 2 has 3 units but Test only has 2 start cells for it'
+    );
+  });
+});
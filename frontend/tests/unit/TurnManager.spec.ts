@@ -1,4 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BattleEventBus } from '../../src/core/battle/BattleEvents';
+import { SeededRandom } from '../../src/core/Random';
 import { TurnManager } from '../../src/core/TurnManager';
 import { Unit } from '../../src/core/Unit';
 
@@ -224,4 +226,102 @@ describe('TurnManager', () => {
       expect(spell.cooldownCounter).toBe(2);
     });
   });
-}); 
\ No newline at end of file
+
+  describe('initiative', () => {
+    const withInitiative = (id: string, initiative: number) => {
+      return new Unit(id, id, 'player', { x: 0, y: 0 }, 1, {
+        name: 'TestClass',
+        maxHP: 100,
+        maxAP: 6,
+        maxMP: 4,
+        initiative,
+        spells: []
+      });
+    };
+
+    it('should order turns by initiative, highest first', () => {
+      const slow = withInitiative('slow', 10);
+      const fast = withInitiative('fast', 50);
+      const mid = withInitiative('mid', 30);
+      const manager = new TurnManager([slow, fast, mid]);
+
+      expect(manager.getOrder()).toEqual([fast, mid, slow]);
+      expect(manager.getCurrentUnit()).toBe(fast);
+      manager.endTurn();
+      expect(manager.getCurrentUnit()).toBe(mid);
+    });
+
+    it('should break ties with the seeded roll, reproducibly', () => {
+      const orderFor = (seed: number) => {
+        const tied = ['a', 'b', 'c', 'd', 'e'].map(id => withInitiative(id, 20));
+        return new TurnManager(tied, undefined, new SeededRandom(seed)).getOrder().map(u => u.id);
+      };
+
+      expect(orderFor(42)).toEqual(orderFor(42));
+      const orders = new Set([1, 2, 3, 4, 5, 6, 7, 8].map(seed => orderFor(seed).join()));
+      expect(orders.size).toBeGreaterThan(1);
+    });
+
+    it('should drop dead units from the order when a death is published', () => {
+      const events = new BattleEventBus();
+      const onOrderChanged = vi.fn();
+      events.on('TurnOrderChanged', onOrderChanged);
+      const a = withInitiative('a', 30);
+      const b = withInitiative('b', 20);
+      const c = withInitiative('c', 10);
+      const manager = new TurnManager([a, b, c], events);
+
+      b.hp = 0;
+      events.emit('UnitDied', { unit: b, position: b.position });
+
+      expect(manager.getOrder()).toEqual([a, c]);
+      expect(onOrderChanged).toHaveBeenCalledWith({ order: [a, c] });
+      expect(manager.getCurrentUnit()).toBe(a);
+      manager.endTurn();
+      expect(manager.getCurrentUnit()).toBe(c);
+    });
+
+    it('should start a new round when a start-of-turn tick kills the last unit of the order', () => {
+      const events = new BattleEventBus();
+      const onRoundStarted = vi.fn();
+      events.on('RoundStarted', onRoundStarted);
+      const a = withInitiative('a', 30);
+      const b = withInitiative('b', 20);
+      const manager = new TurnManager([a, b], events);
+      vi.spyOn(b, 'triggerStartOfTurnEffects').mockImplementation(() => {
+        b.hp = 0;
+        events.emit('UnitDied', { unit: b, position: b.position });
+      });
+
+      manager.endTurn();
+
+      expect(manager.getCurrentUnit()).toBe(a);
+      expect(manager.getRoundNumber()).toBe(2);
+      expect(onRoundStarted).toHaveBeenCalledWith({ round: 2 });
+    });
+
+    it('should insert summoned units by initiative without changing the current turn', () => {
+      const a = withInitiative('a', 30);
+      const c = withInitiative('c', 10);
+      const manager = new TurnManager([a, c]);
+      manager.endTurn(); // c plays
+
+      const summon = withInitiative('summon', 40);
+      manager.addUnit(summon);
+
+      expect(manager.getOrder()).toEqual([summon, a, c]);
+      expect(manager.getCurrentUnit()).toBe(c);
+      manager.endTurn();
+      expect(manager.getCurrentUnit()).toBe(summon);
+    });
+
+    it('should list the upcoming turns starting with the current unit', () => {
+      const a = withInitiative('a', 30);
+      const b = withInitiative('b', 20);
+      const manager = new TurnManager([b, a]);
+      manager.endTurn(); // b plays
+
+      expect(manager.getUpcomingTurns(5)).toEqual([b, a, b, a, b]);
+    });
+  });
+});
@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { DamageEffect } from '../../../src/core/effects/DamageEffect';
 import { Unit } from '../../../src/core/Unit';
 import type { EffectContext } from '../../../src/core/effects/Effect';
+import { BattleEventBus } from '../../../src/core/battle/BattleEvents';
 
 describe('DamageEffect', () => {
   let caster: Unit;
@@ -87,5 +88,52 @@ describe('DamageEffect', () => {
 
       expect(result).toBe(true);
     });
+
+    it('should publish DamageDealt with the actual amount when an event bus is available', () => {
+      const events = new BattleEventBus();
+      const listener = vi.fn();
+      events.on('DamageDealt', listener);
+      const effect = new DamageEffect(25);
+
+      effect.apply(caster, target, { ...context, events, sourceSpell: 'TestSpell' });
+
+      expect(listener).toHaveBeenCalledWith({
+        source: caster,
+        target,
+        amount: 25,
+        absorbed: 0,
+        element: 'neutral',
+        hpBefore: 100,
+        hpAfter: 75,
+        sourceSpell: 'TestSpell'
+      });
+    });
+
+    it('should apply the target resistances to elemental damage', () => {
+      target.resistances = { fire: { percent: -20 }, water: { percent: 50, flat: 5 } };
+
+      new DamageEffect(25, 'fire').apply(caster, target, context);
+      expect(target.hp).toBe(70);
+
+      new DamageEffect(25, 'water').apply(caster, target, context);
+      expect(target.hp).toBe(63);
+
+      new DamageEffect(25).apply(caster, target, context);
+      expect(target.hp).toBe(38);
+    });
+
+    it('should let shields absorb damage before HP and report the absorbed part', () => {
+      const events = new BattleEventBus();
+      const listener = vi.fn();
+      events.on('DamageDealt', listener);
+      target.applyState({ id: 'shield_1', type: 'shield', duration: 2, value: 10, stackable: true });
+
+      new DamageEffect(25).apply(caster, target, { ...context, events });
+
+      expect(target.hp).toBe(85);
+      expect(target.shield).toBe(0);
+      expect(target.states).toHaveLength(0);
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ amount: 15, absorbed: 10, hpAfter: 85 }));
+    });
   });
-}); 
\ No newline at end of file
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BattleEventBus } from '../../../src/core/battle/BattleEvents';
+import { DashEffect } from '../../../src/core/effects/DashEffect';
+import type { EffectContext } from '../../../src/core/effects/Effect';
+import { MapGrid } from '../../../src/core/MapGrid';
+import { Unit } from '../../../src/core/Unit';
+
+describe('DashEffect', () => {
+  let map: MapGrid;
+  let caster: Unit;
+  let context: EffectContext;
+
+  beforeEach(() => {
+    map = new MapGrid(6, 6);
+    caster = new Unit('caster1', 'Caster', 'player', { x: 1, y: 4 }, 4);
+    map.setOccupied(caster.position, caster);
+    context = { map, events: new BattleEventBus() };
+  });
+
+  it('should move the caster in a straight line to the target cell', () => {
+    const onMoved = vi.fn();
+    context.events!.on('UnitMoved', onMoved);
+
+    expect(new DashEffect(0).apply(caster, null, { ...context, cellPosition: { x: 1, y: 1 } })).toBe(true);
+
+    expect(caster.position).toEqual({ x: 1, y: 1 });
+    expect(map.getOccupant({ x: 1, y: 4 })).toBeNull();
+    expect(map.getOccupant({ x: 1, y: 1 })).toBe(caster);
+    expect(onMoved).toHaveBeenCalledWith({
+      unit: caster,
+      from: { x: 1, y: 4 },
+      to: { x: 1, y: 1 },
+      path: [{ x: 1, y: 3 }, { x: 1, y: 2 }, { x: 1, y: 1 }],
+      kind: 'dash'
+    });
+  });
+
+  it('should stop next to a unit or in front of a wall', () => {
+    const enemy = new Unit('enemy1', 'Enemy', 'enemy', { x: 4, y: 4 }, 4);
+    map.setOccupied(enemy.position, enemy);
+
+    expect(new DashEffect(0).apply(caster, enemy, { ...context, cellPosition: { x: 4, y: 4 } })).toBe(true);
+    expect(caster.position).toEqual({ x: 3, y: 4 });
+
+    map.setTerrain({ x: 3, y: 2 }, 'wall');
+    expect(new DashEffect(0).apply(caster, null, { ...context, cellPosition: { x: 3, y: 0 } })).toBe(true);
+    expect(caster.position).toEqual({ x: 3, y: 3 });
+  });
+
+  it('should fail when the first cell is blocked or without a target cell', () => {
+    map.setTerrain({ x: 2, y: 4 }, 'wall');
+
+    expect(new DashEffect(0).apply(caster, null, { ...context, cellPosition: { x: 5, y: 4 } })).toBe(false);
+    expect(new DashEffect(0).apply(caster, null, context)).toBe(false);
+    expect(caster.position).toEqual({ x: 1, y: 4 });
+  });
+});
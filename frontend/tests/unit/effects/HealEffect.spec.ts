@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { HealEffect } from '../../../src/core/effects/HealEffect';
 import { Unit } from '../../../src/core/Unit';
 import type { EffectContext } from '../../../src/core/effects/Effect';
+import { BattleEventBus } from '../../../src/core/battle/BattleEvents';
 
 describe('HealEffect', () => {
   let caster: Unit;
@@ -100,5 +101,24 @@ describe('HealEffect', () => {
 
       expect(result).toBe(true);
     });
+
+    it('should publish HealApplied with the actual amount when an event bus is available', () => {
+      target.hp = 90;
+      const events = new BattleEventBus();
+      const listener = vi.fn();
+      events.on('HealApplied', listener);
+      const effect = new HealEffect(25);
+
+      effect.apply(caster, target, { ...context, events, sourceSpell: 'TestSpell' });
+
+      expect(listener).toHaveBeenCalledWith({
+        source: caster,
+        target,
+        amount: 10,
+        hpBefore: 90,
+        hpAfter: 100,
+        sourceSpell: 'TestSpell'
+      });
+    });
   });
-}); 
\ No newline at end of file
+});
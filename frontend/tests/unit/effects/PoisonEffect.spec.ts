@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PoisonEffect } from '../../../src/core/effects/PoisonEffect';
+import { Unit } from '../../../src/core/Unit';
+import type { EffectContext } from '../../../src/core/effects/Effect';
+import { BattleEventBus } from '../../../src/core/battle/BattleEvents';
+
+describe('PoisonEffect', () => {
+  let caster: Unit;
+  let target: Unit;
+  let context: EffectContext;
+
+  beforeEach(() => {
+    // Create test units
+    caster = new Unit('caster1', 'Caster', 'player', { x: 0, y: 0 }, 1, {
+      name: 'TestClass',
+      maxHP: 100,
+      maxAP: 6,
+      maxMP: 4,
+      spells: [],
+      color: 0xff0000
+    });
+
+    target = new Unit('target1', 'Target', 'enemy', { x: 1, y: 1 }, 2, {
+      name: 'TestClass',
+      maxHP: 100,
+      maxAP: 6,
+      maxMP: 4,
+      spells: [],
+      color: 0x00ff00
+    });
+
+    context = {
+      scene: {
+        unitLayer: {}
+      },
+      sourceSpell: 'Venom'
+    };
+  });
+
+  describe('apply', () => {
+    it('should apply a poison state with value, duration and tick boundary', () => {
+      const effect = new PoisonEffect(10, 3, undefined, 'end');
+
+      const result = effect.apply(caster, target, context);
+
+      expect(result).toBe(true);
+      expect(target.states).toHaveLength(1);
+      expect(target.states[0]).toMatchObject({
+        type: 'poison',
+        value: 10,
+        duration: 3,
+        source: 'Venom',
+        tickAt: 'end'
+      });
+      // No immediate damage
+      expect(target.hp).toBe(100);
+    });
+
+    it('should tick at turn start by default', () => {
+      const effect = new PoisonEffect(10, 3);
+      effect.apply(caster, target, context);
+
+      expect(target.states[0].tickAt).toBe('start');
+    });
+
+    it('should refresh poison from the same source instead of stacking', () => {
+      new PoisonEffect(10, 1).apply(caster, target, context);
+      new PoisonEffect(10, 3).apply(caster, target, context);
+
+      expect(target.states).toHaveLength(1);
+      expect(target.states[0].duration).toBe(3);
+    });
+
+    it('should stack poison from different sources', () => {
+      new PoisonEffect(10, 2, 'Venom').apply(caster, target, context);
+      new PoisonEffect(5, 2, 'Toxin').apply(caster, target, context);
+
+      expect(target.states).toHaveLength(2);
+    });
+
+    it('should return false when target is null or dead', () => {
+      const effect = new PoisonEffect(10, 2);
+      expect(effect.apply(caster, null, context)).toBe(false);
+
+      target.hp = 0;
+      expect(effect.apply(caster, target, context)).toBe(false);
+    });
+  });
+
+  describe('ticks', () => {
+    it('should deal damage only at the configured boundary', () => {
+      new PoisonEffect(10, 2, 'Venom', 'end').apply(caster, target, context);
+
+      target.triggerStartOfTurnEffects();
+      expect(target.hp).toBe(100);
+
+      target.triggerEndOfTurnEffects();
+      expect(target.hp).toBe(90);
+    });
+
+    it('should publish DamageDealt and StateTicked for each tick', () => {
+      const events = new BattleEventBus();
+      const damage = vi.fn();
+      const ticked = vi.fn();
+      target.events = events;
+      events.on('DamageDealt', damage);
+      events.on('StateTicked', ticked);
+      new PoisonEffect(10, 2).apply(caster, target, context);
+
+      target.triggerStartOfTurnEffects();
+
+      expect(damage).toHaveBeenCalledWith(expect.objectContaining({
+        source: null,
+        target,
+        amount: 10,
+        sourceSpell: 'Venom'
+      }));
+      expect(ticked).toHaveBeenCalledWith(expect.objectContaining({ unit: target, amount: -10 }));
+    });
+
+    it('should stop ticking once the unit is dead', () => {
+      new PoisonEffect(10, 2, 'Venom').apply(caster, target, context);
+      new PoisonEffect(10, 2, 'Toxin').apply(caster, target, context);
+      target.hp = 5;
+
+      target.triggerStartOfTurnEffects();
+
+      expect(target.hp).toBe(0);
+      expect(target.isAlive()).toBe(false);
+    });
+
+    it('should tick once per turn for its full duration', () => {
+      new PoisonEffect(10, 2).apply(caster, target, context);
+
+      for (let turn = 0; turn < 3; turn++) {
+        target.triggerStartOfTurnEffects();
+        target.updateStates();
+      }
+
+      expect(target.hp).toBe(80);
+      expect(target.states).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BattleEventBus } from '../../../src/core/battle/BattleEvents';
+import type { EffectContext } from '../../../src/core/effects/Effect';
+import { PullEffect } from '../../../src/core/effects/PullEffect';
+import { MapGrid } from '../../../src/core/MapGrid';
+import { Unit } from '../../../src/core/Unit';
+
+describe('PullEffect', () => {
+  let map: MapGrid;
+  let caster: Unit;
+  let target: Unit;
+  let context: EffectContext;
+
+  beforeEach(() => {
+    map = new MapGrid(8, 3);
+    caster = new Unit('caster1', 'Caster', 'player', { x: 0, y: 1 }, 4);
+    target = new Unit('target1', 'Target', 'enemy', { x: 5, y: 1 }, 4);
+    map.setOccupied(caster.position, caster);
+    map.setOccupied(target.position, target);
+    context = { map, events: new BattleEventBus() };
+  });
+
+  it('should draw the target toward the caster cell by cell', () => {
+    const onMoved = vi.fn();
+    context.events!.on('UnitMoved', onMoved);
+
+    expect(new PullEffect(0, 2).apply(caster, target, context)).toBe(true);
+
+    expect(target.position).toEqual({ x: 3, y: 1 });
+    expect(map.getOccupant({ x: 5, y: 1 })).toBeNull();
+    expect(map.getOccupant({ x: 3, y: 1 })).toBe(target);
+    expect(onMoved).toHaveBeenCalledWith({
+      unit: target,
+      from: { x: 5, y: 1 },
+      to: { x: 3, y: 1 },
+      path: [{ x: 4, y: 1 }, { x: 3, y: 1 }],
+      kind: 'pull'
+    });
+  });
+
+  it('should stop in front of the caster and of obstacles', () => {
+    expect(new PullEffect(0, 10).apply(caster, target, context)).toBe(true);
+    expect(target.position).toEqual({ x: 1, y: 1 });
+
+    target.position = { x: 5, y: 1 };
+    map.setOccupied({ x: 1, y: 1 }, null);
+    map.setOccupied(target.position, target);
+    map.setTerrain({ x: 3, y: 1 }, 'wall');
+    expect(new PullEffect(0, 10).apply(caster, target, context)).toBe(true);
+    expect(target.position).toEqual({ x: 4, y: 1 });
+  });
+
+  it('should fail when the target cannot move', () => {
+    map.setTerrain({ x: 4, y: 1 }, 'pit');
+
+    expect(new PullEffect(0, 3).apply(caster, target, context)).toBe(false);
+    expect(new PullEffect(0, 3).apply(caster, caster, context)).toBe(false);
+    expect(new PullEffect(0, 3).apply(caster, null, context)).toBe(false);
+    expect(target.position).toEqual({ x: 5, y: 1 });
+  });
+});
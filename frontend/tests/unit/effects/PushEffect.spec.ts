@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { PushEffect } from '../../../src/core/effects/PushEffect';
 import { Unit } from '../../../src/core/Unit';
 import type { EffectContext } from '../../../src/core/effects/Effect';
+import { BattleEventBus } from '../../../src/core/battle/BattleEvents';
 
 describe('PushEffect', () => {
   let caster: Unit;
@@ -38,6 +39,7 @@ describe('PushEffect', () => {
 
     context = {
       map: mockMap,
+      events: new BattleEventBus(),
       scene: {
         unitLayer: {},
         updateUnitSprites: vi.fn()
@@ -62,6 +64,8 @@ describe('PushEffect', () => {
       mockMap.isWalkable.mockReturnValue(true);
       mockMap.isOccupied.mockReturnValue(false);
       
+      const onMoved = vi.fn();
+      context.events!.on('UnitMoved', onMoved);
       const initialPosition = { ...target.position };
       const effect = new PushEffect(5, 2);
 
@@ -73,7 +77,7 @@ describe('PushEffect', () => {
       expect(target.position.y).toBe(3); // 1 + (1/sqrt(2)) * 2 ≈ 3
       expect(mockMap.setOccupied).toHaveBeenCalledWith(initialPosition, null);
       expect(mockMap.setOccupied).toHaveBeenCalledWith(target.position, target);
-      expect(context.scene.updateUnitSprites).toHaveBeenCalled();
+      expect(onMoved).toHaveBeenCalledWith(expect.objectContaining({ unit: target, from: initialPosition, kind: 'push' }));
     });
 
     it('should return false when target is null', () => {
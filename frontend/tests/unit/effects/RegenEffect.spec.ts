@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { RegenEffect } from '../../../src/core/effects/RegenEffect';
+import { Unit } from '../../../src/core/Unit';
+import type { EffectContext } from '../../../src/core/effects/Effect';
+import { BattleEventBus } from '../../../src/core/battle/BattleEvents';
+
+describe('RegenEffect', () => {
+  let caster: Unit;
+  let target: Unit;
+  let context: EffectContext;
+
+  beforeEach(() => {
+    // Create test units
+    caster = new Unit('caster1', 'Caster', 'player', { x: 0, y: 0 }, 1, {
+      name: 'TestClass',
+      maxHP: 100,
+      maxAP: 6,
+      maxMP: 4,
+      spells: [],
+      color: 0xff0000
+    });
+
+    target = new Unit('target1', 'Target', 'player', { x: 1, y: 1 }, 1, {
+      name: 'TestClass',
+      maxHP: 100,
+      maxAP: 6,
+      maxMP: 4,
+      spells: [],
+      color: 0x00ff00
+    });
+
+    context = {
+      scene: {
+        unitLayer: {}
+      },
+      sourceSpell: 'Renewal'
+    };
+  });
+
+  describe('apply', () => {
+    it('should apply a regen state without healing immediately', () => {
+      target.hp = 50;
+      const effect = new RegenEffect(15, 2);
+
+      const result = effect.apply(caster, target, context);
+
+      expect(result).toBe(true);
+      expect(target.hp).toBe(50);
+      expect(target.states[0]).toMatchObject({
+        type: 'regen',
+        value: 15,
+        duration: 2,
+        source: 'Renewal',
+        tickAt: 'start'
+      });
+    });
+
+    it('should refresh regen from the same source instead of stacking', () => {
+      new RegenEffect(15, 1).apply(caster, target, context);
+      new RegenEffect(15, 2).apply(caster, target, context);
+
+      expect(target.states).toHaveLength(1);
+      expect(target.states[0].duration).toBe(2);
+    });
+
+    it('should return false when target is null or dead', () => {
+      const effect = new RegenEffect(15, 2);
+      expect(effect.apply(caster, null, context)).toBe(false);
+
+      target.hp = 0;
+      expect(effect.apply(caster, target, context)).toBe(false);
+    });
+  });
+
+  describe('ticks', () => {
+    it('should heal at the configured boundary without exceeding maxHP', () => {
+      target.hp = 90;
+      new RegenEffect(15, 2, undefined, 'end').apply(caster, target, context);
+
+      target.triggerStartOfTurnEffects();
+      expect(target.hp).toBe(90);
+
+      target.triggerEndOfTurnEffects();
+      expect(target.hp).toBe(100);
+    });
+
+    it('should publish HealApplied and StateTicked with the actual amount', () => {
+      const events = new BattleEventBus();
+      const healed = vi.fn();
+      const ticked = vi.fn();
+      target.events = events;
+      events.on('HealApplied', healed);
+      events.on('StateTicked', ticked);
+      target.hp = 95;
+      new RegenEffect(15, 2).apply(caster, target, context);
+
+      target.triggerStartOfTurnEffects();
+
+      expect(healed).toHaveBeenCalledWith(expect.objectContaining({ target, amount: 5, hpAfter: 100 }));
+      expect(ticked).toHaveBeenCalledWith(expect.objectContaining({ unit: target, amount: 5 }));
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ShieldEffect } from '../../../src/core/effects/ShieldEffect';
+import { Unit } from '../../../src/core/Unit';
+import type { EffectContext } from '../../../src/core/effects/Effect';
+import { BattleEventBus } from '../../../src/core/battle/BattleEvents';
+
+describe('ShieldEffect', () => {
+  let caster: Unit;
+  let target: Unit;
+  let context: EffectContext;
+
+  beforeEach(() => {
+    // Create test units
+    caster = new Unit('caster1', 'Caster', 'player', { x: 0, y: 0 }, 1, {
+      name: 'TestClass',
+      maxHP: 100,
+      maxAP: 6,
+      maxMP: 4,
+      spells: [],
+      color: 0xff0000
+    });
+
+    target = new Unit('target1', 'Target', 'player', { x: 1, y: 1 }, 1, {
+      name: 'TestClass',
+      maxHP: 100,
+      maxAP: 6,
+      maxMP: 4,
+      spells: [],
+      color: 0x00ff00
+    });
+
+    context = {
+      scene: {
+        unitLayer: {}
+      },
+      sourceSpell: 'Barrier'
+    };
+  });
+
+  describe('apply', () => {
+    it('should apply a shield state', () => {
+      const effect = new ShieldEffect(20, 2);
+
+      const result = effect.apply(caster, target, context);
+
+      expect(result).toBe(true);
+      expect(target.shield).toBe(20);
+      expect(target.states[0]).toMatchObject({
+        type: 'shield',
+        value: 20,
+        duration: 2,
+        source: 'Barrier'
+      });
+    });
+
+    it('should refresh a shield from the same source and stack different sources', () => {
+      new ShieldEffect(20, 1).apply(caster, target, context);
+      new ShieldEffect(20, 2).apply(caster, target, context);
+      expect(target.states).toHaveLength(1);
+      expect(target.shield).toBe(20);
+
+      new ShieldEffect(5, 2).apply(caster, target, { ...context, sourceSpell: 'Aegis' });
+      expect(target.shield).toBe(25);
+    });
+
+    it('should return false when target is null or dead', () => {
+      const effect = new ShieldEffect(20, 2);
+      expect(effect.apply(caster, null, context)).toBe(false);
+
+      target.hp = 0;
+      expect(effect.apply(caster, target, context)).toBe(false);
+    });
+  });
+
+  describe('absorption', () => {
+    it('should consume the oldest shield first and keep the remainder', () => {
+      new ShieldEffect(10, 2).apply(caster, target, context);
+      new ShieldEffect(10, 2).apply(caster, target, { ...context, sourceSpell: 'Aegis' });
+
+      const result = target.takeDamage(15);
+
+      expect(result).toEqual({ absorbed: 15, damage: 0 });
+      expect(target.hp).toBe(100);
+      expect(target.states).toHaveLength(1);
+      expect(target.states[0]).toMatchObject({ source: 'Aegis', value: 5 });
+    });
+
+    it('should publish StateExpired when a shield is depleted', () => {
+      const events = new BattleEventBus();
+      const expired = vi.fn();
+      target.events = events;
+      events.on('StateExpired', expired);
+      new ShieldEffect(10, 2).apply(caster, target, context);
+
+      expect(target.takeDamage(30)).toEqual({ absorbed: 10, damage: 20 });
+      expect(target.hp).toBe(80);
+      expect(expired).toHaveBeenCalledWith(expect.objectContaining({ unit: target }));
+    });
+
+    it('should expire unused shields with their duration', () => {
+      new ShieldEffect(10, 1).apply(caster, target, context);
+
+      target.updateEndOfTurnStates();
+
+      expect(target.shield).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BattleEventBus } from '../../../src/core/battle/BattleEvents';
+import type { EffectContext } from '../../../src/core/effects/Effect';
+import { SwapEffect } from '../../../src/core/effects/SwapEffect';
+import { MapGrid } from '../../../src/core/MapGrid';
+import { Unit } from '../../../src/core/Unit';
+
+describe('SwapEffect', () => {
+  let map: MapGrid;
+  let caster: Unit;
+  let target: Unit;
+  let context: EffectContext;
+
+  beforeEach(() => {
+    map = new MapGrid(5, 5);
+    caster = new Unit('caster1', 'Caster', 'player', { x: 0, y: 0 }, 4);
+    target = new Unit('target1', 'Target', 'enemy', { x: 3, y: 2 }, 4);
+    map.setOccupied(caster.position, caster);
+    map.setOccupied(target.position, target);
+    context = { map, events: new BattleEventBus() };
+  });
+
+  it('should exchange the cells of caster and target', () => {
+    const onMoved = vi.fn();
+    context.events!.on('UnitMoved', onMoved);
+
+    expect(new SwapEffect(0).apply(caster, target, context)).toBe(true);
+
+    expect(caster.position).toEqual({ x: 3, y: 2 });
+    expect(target.position).toEqual({ x: 0, y: 0 });
+    expect(map.getOccupant({ x: 3, y: 2 })).toBe(caster);
+    expect(map.getOccupant({ x: 0, y: 0 })).toBe(target);
+    expect(onMoved.mock.calls.map(([e]) => [e.unit.id, e.kind, e.to])).toEqual([
+      ['caster1', 'swap', { x: 3, y: 2 }],
+      ['target1', 'swap', { x: 0, y: 0 }]
+    ]);
+  });
+
+  it('should not swap with itself, dead units or nothing', () => {
+    target.hp = 0;
+
+    expect(new SwapEffect(0).apply(caster, caster, context)).toBe(false);
+    expect(new SwapEffect(0).apply(caster, target, context)).toBe(false);
+    expect(new SwapEffect(0).apply(caster, null, context)).toBe(false);
+    expect(caster.position).toEqual({ x: 0, y: 0 });
+  });
+});
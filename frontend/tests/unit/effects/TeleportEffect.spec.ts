@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { TeleportEffect } from '../../../src/core/effects/TeleportEffect';
 import { Unit } from '../../../src/core/Unit';
 import type { EffectContext } from '../../../src/core/effects/Effect';
+import { BattleEventBus } from '../../../src/core/battle/BattleEvents';
 
 describe('TeleportEffect', () => {
   let caster: Unit;
@@ -28,6 +29,7 @@ describe('TeleportEffect', () => {
 
     context = {
       map: mockMap,
+      events: new BattleEventBus(),
       scene: {
         unitLayer: {},
         updateUnitSprites: vi.fn()
@@ -48,6 +50,8 @@ describe('TeleportEffect', () => {
       mockMap.isWalkable.mockReturnValue(true);
       mockMap.isOccupied.mockReturnValue(false);
       
+      const onMoved = vi.fn();
+      context.events!.on('UnitMoved', onMoved);
       const initialPosition = { ...caster.position };
       const targetPosition = { x: 3, y: 3 };
       const effect = new TeleportEffect(0);
@@ -58,7 +62,7 @@ describe('TeleportEffect', () => {
       expect(caster.position).toEqual(targetPosition);
       expect(mockMap.setOccupied).toHaveBeenCalledWith(initialPosition, null);
       expect(mockMap.setOccupied).toHaveBeenCalledWith(targetPosition, caster);
-      expect(context.scene.updateUnitSprites).toHaveBeenCalled();
+      expect(onMoved).toHaveBeenCalledWith(expect.objectContaining({ unit: caster, from: initialPosition, kind: 'teleport' }));
     });
 
     it('should return false when map is not available', () => {